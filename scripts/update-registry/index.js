@@ -2,7 +2,6 @@
 
 const fs = require('fs');
 const path = require('path');
-const update = require('./update');
 const { run, execSilent } = require('../util');
 
 const REGISTRY_PATH = path.join(
@@ -13,51 +12,71 @@ const REGISTRY_PATH = path.join(
   'registry',
   'registry.json'
 );
+const TYPE_OVERRIDES_PATH = path.join(__dirname, 'typeOverride.json');
 
 function printHelp() {
   const message = `
 usage: registry-update apiVersion [-p <describe.json path>] [-u <org username>]
 
 Update the metadata registry db with a new version of the response from a describeMetadata()
-call.
+call. The library must be built beforehand.
 
 A describe response can be provided from a local file using -p, or by querying an org
 with a given username using -u. If querying the response from an org, make sure it has been
 authenticated to beforehand with the Salesforce CLI.
 
 The update process only adds new entries or modifies existing ones. Please manually review
-the changes after they have been generated to ensure there were no unexpected modifications. 
+the changes after they have been generated to ensure there were no unexpected modifications.
 `
   console.log(message);
 }
 
+function printDiff(diff) {
+  for (const type of diff.addedTypes) {
+    console.log(`  added type ${type.id}`);
+  }
+  for (const { typeId, previous, suffix } of diff.suffixChanges) {
+    console.log(`  changed suffix of ${typeId} from ${previous} to ${suffix}`);
+  }
+  for (const { parentId, type } of diff.addedChildTypes) {
+    console.log(`  added child type ${type.id} of ${parentId}`);
+  }
+  for (const { location, message } of diff.problems) {
+    console.log(`  problem: ${location}: ${message}`);
+  }
+}
+
 
 const [apiVersion, source, sourceArg] = process.argv.slice(2, 5);
 
-let describeResult;
+let describe;
 
 if (source === '-p') {
-  const describeFilePath = !path.isAbsolute(sourceArg)
+  describe = !path.isAbsolute(sourceArg)
     ? path.resolve(process.cwd(), sourceArg)
     : sourceArg;
-  describeResult = JSON.parse(fs.readFileSync(describeFilePath));
 } else if (source === '-u') {
   const result = run(`Fetching Metadata API describe for v${apiVersion}`, () =>
     execSilent(`sfdx force:mdapi:describemetadata -u ${sourceArg} -a ${apiVersion} --json`)
   );
-  describeResult = JSON.parse(result.stdout).result;
+  describe = JSON.parse(result.stdout).result;
 } else {
   printHelp();
   process.exit();
 }
 
-run('Applying registry updates', () => {
+const diff = run('Applying registry updates', () => {
+  const { updateRegistry } = require('../../lib/src');
   const registry = fs.existsSync(REGISTRY_PATH)
     ? JSON.parse(fs.readFileSync(REGISTRY_PATH))
-    : { types: {}, suffixes: {}, strictTypeFolder: {} };;
+    : { types: {}, suffixes: {}, strictDirectoryNames: {}, childTypes: {} };
 
-  update(registry, describeResult);
-  registry.apiVersion = apiVersion;
-
-  fs.writeFileSync(REGISTRY_PATH, JSON.stringify(registry, null, 2));
+  const diff = updateRegistry(registry, describe, {
+    typeOverrides: TYPE_OVERRIDES_PATH,
+    apiVersion,
+  });
+  fs.writeFileSync(REGISTRY_PATH, `${JSON.stringify(diff.registry, null, 2)}\n`);
+  return diff;
 });
+
+printDiff(diff);
@@ -11,6 +11,11 @@ export {
   MetadataApiRetrieveOptions,
   RetrieveResult,
 } from './metadataApiRetrieve';
+export {
+  MetadataApiBatchRetrieve,
+  MetadataApiBatchRetrieveOptions,
+  BatchRetrieveResult,
+} from './metadataApiBatchRetrieve';
 export { ToolingApi, ToolingDeployOptions, ToolingRetrieveOptions } from './toolingApi';
 export {
   AsyncResult,
@@ -0,0 +1,216 @@
+/*
+ * Copyright (c) 2021, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { Logger, PollingClient } from '@salesforce/core';
+import { ComponentSet } from '../collections';
+import { MetadataComponent } from '../resolve';
+import { normalizeToArray } from '../utils';
+import {
+  MetadataApiRetrieve,
+  MetadataApiRetrieveOptions,
+  RetrieveResult,
+} from './metadataApiRetrieve';
+import { MetadataApiRetrieveStatus, RequestStatus, RetrieveMessage } from './types';
+
+export type MetadataApiBatchRetrieveOptions = MetadataApiRetrieveOptions & {
+  /**
+   * Maximum number of components retrieved by a single request. Defaults to 10,000.
+   */
+  maxComponents?: number;
+  /**
+   * Maximum number of retrieve requests running at the same time. Defaults to 3.
+   */
+  concurrency?: number;
+};
+
+/**
+ * The result of a batched retrieve. The response combines the statuses of every batch,
+ * and the components are the ones retrieved by all of the batches.
+ */
+export class BatchRetrieveResult extends RetrieveResult {
+  /**
+   * Results of the individual batches, in the order the batches were created
+   */
+  public readonly batches: RetrieveResult[];
+
+  constructor(
+    response: MetadataApiRetrieveStatus,
+    components: ComponentSet,
+    batches: RetrieveResult[]
+  ) {
+    super(response, components);
+    this.batches = batches;
+  }
+}
+
+/**
+ * Retrieve a set that is too large for a single request, such as all of the metadata of an org.
+ * The set is split into batches of components grouped by type, which are retrieved with a bounded
+ * number of requests at a time. Each batch is converted into the output as soon as it finishes,
+ * merging with the source components of the batch if `merge` is set.
+ */
+export class MetadataApiBatchRetrieve {
+  public static readonly DEFAULT_OPTIONS: Partial<MetadataApiBatchRetrieveOptions> = {
+    maxComponents: 10000,
+    concurrency: 3,
+  };
+  private options: MetadataApiBatchRetrieveOptions;
+  private logger: Logger;
+  private operations: MetadataApiRetrieve[] = [];
+  private canceled = false;
+
+  constructor(options: MetadataApiBatchRetrieveOptions) {
+    this.options = Object.assign({}, MetadataApiBatchRetrieve.DEFAULT_OPTIONS, options);
+    this.logger = Logger.childFromRoot(this.constructor.name);
+  }
+
+  /**
+   * Split the components into batches and retrieve them.
+   *
+   * @param pollingOptions Polling options for the retrieve request of each batch
+   * @returns The combined result of the batches
+   */
+  public async execute(
+    pollingOptions?: Partial<PollingClient.Options>
+  ): Promise<BatchRetrieveResult> {
+    this.canceled = false;
+    this.operations = [];
+    const batches = this.createBatches();
+    const results: RetrieveResult[] = [];
+
+    let next = 0;
+    const worker = async (): Promise<void> => {
+      while (next < batches.length) {
+        const index = next++;
+        results[index] = await this.retrieveBatch(batches[index], index, pollingOptions);
+      }
+    };
+    const workerCount = Math.max(1, Math.min(this.options.concurrency, batches.length));
+    await Promise.all(Array.from({ length: workerCount }, worker));
+
+    return this.combineResults(results);
+  }
+
+  /**
+   * Cancel the retrieve requests that are in progress, and skip the batches that haven't started.
+   */
+  public async cancel(): Promise<void> {
+    this.canceled = true;
+    await Promise.all(this.operations.map((operation) => operation.cancel()));
+  }
+
+  private createBatches(): ComponentSet[] {
+    const { maxComponents } = this.options;
+    const components = this.options.components ?? new ComponentSet([], this.options.registry);
+    // group members by type so a type is split across as few requests as possible
+    const byType = new Map<string, MetadataComponent[]>();
+    for (const component of components) {
+      const typeName = component.type.name;
+      if (!byType.has(typeName)) {
+        byType.set(typeName, []);
+      }
+      byType.get(typeName).push(component);
+    }
+    const sorted = new ComponentSet([], this.options.registry);
+    sorted.apiVersion = components.apiVersion;
+    sorted.fullName = components.fullName;
+    for (const typeComponents of byType.values()) {
+      for (const component of typeComponents) {
+        sorted.add(component);
+      }
+    }
+
+    const batches = sorted.chunk({ maxComponents });
+    // a retrieve of only package names doesn't have any components to split
+    return batches.length > 0 ? batches : [components];
+  }
+
+  private async retrieveBatch(
+    components: ComponentSet,
+    index: number,
+    pollingOptions?: Partial<PollingClient.Options>
+  ): Promise<RetrieveResult> {
+    if (this.canceled) {
+      return this.createFailedResult(RequestStatus.Canceled);
+    }
+
+    const operation = new MetadataApiRetrieve({
+      ...this.options,
+      components,
+      // packages are retrieved as a whole, so only request them once
+      packageNames: index === 0 ? this.options.packageNames : undefined,
+    });
+    this.operations.push(operation);
+
+    try {
+      this.logger.debug(`Retrieving batch ${index + 1} with ${components.size} components`);
+      await operation.start();
+      return await operation.pollStatus(pollingOptions);
+    } catch (e) {
+      this.logger.debug(`Batch ${index + 1} failed: ${e.message}`);
+      return this.createFailedResult(RequestStatus.Failed, e.message, operation.id);
+    }
+  }
+
+  private createFailedResult(status: RequestStatus, problem?: string, id?: string): RetrieveResult {
+    const response: MetadataApiRetrieveStatus = {
+      id,
+      status,
+      success: false,
+      done: true,
+      fileProperties: [],
+      zipFile: '',
+    };
+    if (problem) {
+      response.messages = [{ fileName: '', problem }];
+    }
+    return new RetrieveResult(response, new ComponentSet([], this.options.registry));
+  }
+
+  private combineResults(results: RetrieveResult[]): BatchRetrieveResult {
+    const statuses = results.map((result) => result.response);
+
+    let status: RequestStatus;
+    if (statuses.every((s) => s.status === RequestStatus.Succeeded)) {
+      status = RequestStatus.Succeeded;
+    } else if (statuses.every((s) => s.status === RequestStatus.Canceled)) {
+      status = RequestStatus.Canceled;
+    } else if (statuses.some((s) => s.status === RequestStatus.Succeeded)) {
+      status = RequestStatus.SucceededPartial;
+    } else {
+      status = RequestStatus.Failed;
+    }
+
+    const fileProperties = [];
+    const messages: RetrieveMessage[] = [];
+    const retrieved = new ComponentSet([], this.options.registry);
+    for (const result of results) {
+      fileProperties.push(...normalizeToArray(result.response.fileProperties));
+      messages.push(...normalizeToArray(result.response.messages));
+      for (const component of result.components) {
+        retrieved.add(component);
+      }
+    }
+
+    const response: MetadataApiRetrieveStatus = {
+      // the combined result doesn't belong to a single request
+      id: statuses
+        .map((s) => s.id)
+        .filter((id) => !!id)
+        .join(','),
+      status,
+      success: statuses.every((s) => s.success),
+      done: true,
+      fileProperties,
+      // each batch is extracted as soon as it's retrieved
+      zipFile: '',
+    };
+    if (messages.length > 0) {
+      response.messages = messages;
+    }
+    return new BatchRetrieveResult(response, retrieved, results);
+  }
+}
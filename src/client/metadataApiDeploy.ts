@@ -9,20 +9,33 @@ import { DiagnosticUtil } from './diagnosticUtil';
 import {
   AsyncResult,
   ComponentStatus,
+  DeployDetails,
   DeployMessage,
   FileResponse,
   MetadataApiDeployOptions as ApiOptions,
   MetadataApiDeployStatus,
   MetadataTransferResult,
+  RequestStatus,
+  RunTestsResult,
 } from './types';
 import { MetadataTransfer, MetadataTransferOptions } from './metadataTransfer';
 import { basename, dirname, extname, join } from 'path';
-import { ComponentLike, SourceComponent } from '../resolve';
+import {
+  ComponentLike,
+  MetadataComponent,
+  NodeFSTreeContainer,
+  SourceComponent,
+  TreeContainer,
+  ZipTreeContainer,
+} from '../resolve';
 import { normalizeToArray } from '../utils';
-import { ComponentSet } from '../collections';
+import { ChunkLimits, ComponentSet } from '../collections';
 import { registry } from '../registry';
 import { isString } from '@salesforce/ts-types';
-import { MissingJobIdError } from '../errors';
+import { DeployError, MissingJobIdError } from '../errors';
+import { SourcePath } from '../common';
+import { create as createArchive } from 'archiver';
+import { promises } from 'fs';
 
 export class DeployResult implements MetadataTransferResult {
   public readonly response: MetadataApiDeployStatus;
@@ -54,6 +67,17 @@ export class DeployResult implements MetadataTransferResult {
       }
     }
 
+    // members marked for deletion or deployed from a metadata format package don't have
+    // source files, so they're reported by member
+    for (const member of this.components) {
+      if (!(member instanceof SourceComponent)) {
+        const componentMessages = messages.get(this.key(member)) ?? [];
+        for (const message of componentMessages) {
+          fileResponses.push(this.createMemberResponse(member, message));
+        }
+      }
+    }
+
     return fileResponses;
   }
 
@@ -72,6 +96,12 @@ export class DeployResult implements MetadataTransferResult {
         const diagnostic = this.diagnosticUtil.parseDeployDiagnostic(component, message);
         const response = Object.assign(baseResponse, diagnostic) as FileResponse;
         responses.push(response);
+      } else if (baseResponse.state === ComponentStatus.Deleted) {
+        // the files of deleted components may no longer exist, so don't walk them
+        for (const filePath of [content, xml].filter((p) => !!p)) {
+          const response = Object.assign({}, baseResponse, { filePath }) as FileResponse;
+          responses.push(response);
+        }
       } else {
         // components with children are already taken care of through the messages,
         // so don't walk their content directories.
@@ -92,6 +122,21 @@ export class DeployResult implements MetadataTransferResult {
     return responses;
   }
 
+  private createMemberResponse(component: MetadataComponent, message: DeployMessage): FileResponse {
+    const state = this.getState(message);
+    const { fullName, type } = component;
+    if (state === ComponentStatus.Failed) {
+      return {
+        fullName,
+        type: type.name,
+        state,
+        error: message.problem,
+        problemType: message.problemType ?? 'Error',
+      };
+    }
+    return { fullName, type: type.name, state };
+  }
+
   private getState(message: DeployMessage): ComponentStatus {
     if (message.created === 'true') {
       return ComponentStatus.Created;
@@ -176,6 +221,28 @@ export class DeployResult implements MetadataTransferResult {
 
 export interface MetadataApiDeployOptions extends MetadataTransferOptions {
   apiOptions?: ApiOptions;
+  /**
+   * Deploy the components in chunks that stay under these limits, one chunk after another.
+   * Limits that aren't set default to {@link MetadataApiDeploy.DEFAULT_CHUNK_LIMITS}.
+   * The result of the operation combines the results of every deployed chunk.
+   */
+  chunkLimits?: ChunkLimits;
+  /**
+   * Path to a directory of metadata format files to deploy as-is, instead of converting the
+   * components of the operation. The members of the operation are read from the directory's
+   * package.xml, so deploy results are reported by member.
+   */
+  mdapiPath?: SourcePath;
+  /**
+   * Path to a zip file of a metadata format package to deploy as-is. The members are read
+   * from the package.xml in the archive.
+   */
+  zipPath?: SourcePath;
+  /**
+   * Buffer of a zip file of a metadata format package to deploy as-is. The members are read
+   * from the package.xml in the archive.
+   */
+  zipBuffer?: Buffer;
 }
 
 export class MetadataApiDeploy extends MetadataTransfer<MetadataApiDeployStatus, DeployResult> {
@@ -188,7 +255,19 @@ export class MetadataApiDeploy extends MetadataTransfer<MetadataApiDeployStatus,
       rest: false,
     },
   };
+  /**
+   * The file count and zip size limits of a single Metadata API deploy, leaving room for the
+   * difference between the size of the source files and the compressed package.
+   */
+  public static readonly DEFAULT_CHUNK_LIMITS: ChunkLimits = {
+    maxFiles: 10000,
+    maxBytes: 39 * 1024 * 1024,
+  };
   private options: MetadataApiDeployOptions;
+  private chunks?: ComponentSet[];
+  private chunkStatuses: MetadataApiDeployStatus[] = [];
+  private chunkId?: string;
+  private chunkDeploy?: Promise<void>;
 
   constructor(options: MetadataApiDeployOptions) {
     super(options);
@@ -225,7 +304,8 @@ export class MetadataApiDeploy extends MetadataTransfer<MetadataApiDeployStatus,
   }
 
   /**
-   * Check the status of the deploy operation.
+   * Check the status of the deploy operation. For chunked deploys, this is the status of the
+   * chunk being deployed, while the operation keeps the id of the first chunk.
    *
    * @returns Status of the deploy
    */
@@ -235,10 +315,10 @@ export class MetadataApiDeploy extends MetadataTransfer<MetadataApiDeployStatus,
     }
     const connection = await this.getConnection();
     // Recasting to use the project's version of the type
-    return (connection.metadata.checkDeployStatus(
-      this.id,
+    return ((await connection.metadata.checkDeployStatus(
+      this.chunkId ?? this.id,
       true
-    ) as unknown) as MetadataApiDeployStatus;
+    )) as unknown) as MetadataApiDeployStatus;
   }
 
   /**
@@ -257,7 +337,7 @@ export class MetadataApiDeploy extends MetadataTransfer<MetadataApiDeployStatus,
     return new Promise((resolve, reject) => {
       connection.metadata
         // @ts-ignore _invoke is private on the jsforce metadata object, and cancelDeploy is not an exposed method
-        ._invoke('cancelDeploy', { id: this.id })
+        ._invoke('cancelDeploy', { id: this.chunkId ?? this.id })
         .thenCall((result: any) => {
           // this does not return CancelDeployResult as documented in the API.
           // a null result seems to indicate the request was successful
@@ -271,18 +351,201 @@ export class MetadataApiDeploy extends MetadataTransfer<MetadataApiDeployStatus,
   }
 
   protected async pre(): Promise<AsyncResult> {
+    if (this.options.mdapiPath || this.options.zipPath || this.options.zipBuffer) {
+      return this.deployPackage();
+    }
+    if (this.options.chunkLimits) {
+      const limits = { ...MetadataApiDeploy.DEFAULT_CHUNK_LIMITS, ...this.options.chunkLimits };
+      this.chunks = this.components.chunk(limits);
+      this.chunkStatuses = [];
+      this.chunkId = undefined;
+      this.chunkDeploy = undefined;
+      return this.deployComponents(this.chunks.shift() ?? this.components);
+    }
+    return this.deployComponents(this.components);
+  }
+
+  protected async checkTransferStatus(): Promise<MetadataApiDeployStatus> {
+    const status = await this.checkStatus();
+    return this.chunks && status.done ? this.nextChunk(status) : status;
+  }
+
+  protected async post(result: MetadataApiDeployStatus): Promise<DeployResult> {
+    return new DeployResult(result, this.components);
+  }
+
+  private async deployComponents(components: ComponentSet): Promise<AsyncResult> {
     const converter = new MetadataConverter();
-    const { zipBuffer } = await converter.convert(
-      Array.from(this.components.getSourceComponents()),
-      'metadata',
-      { type: 'zip' }
-    );
+    const { zipBuffer } = await converter.convert(components, 'metadata', { type: 'zip' });
     const connection = await this.getConnection();
-    await this.maybeSaveTempDirectory('metadata');
+    await this.maybeSaveTempDirectory('metadata', components);
     return connection.deploy(zipBuffer, this.options.apiOptions);
   }
 
-  protected async post(result: MetadataApiDeployStatus): Promise<DeployResult> {
-    return new DeployResult(result, this.components);
+  /**
+   * Deploy a metadata format directory or zip as-is, reading the members of the operation
+   * from its manifests. Source files aren't resolved, since they're in metadata format.
+   */
+  private async deployPackage(): Promise<AsyncResult> {
+    const { mdapiPath, zipPath, chunkLimits } = this.options;
+    if (chunkLimits) {
+      throw new DeployError('error_chunked_package_deploy');
+    }
+    let zipBuffer: Buffer;
+    let tree: TreeContainer;
+    let packagePath: SourcePath;
+    if (mdapiPath) {
+      tree = new NodeFSTreeContainer();
+      packagePath = mdapiPath;
+      zipBuffer = await this.zipDirectory(mdapiPath);
+    } else {
+      zipBuffer = this.options.zipBuffer ?? (await promises.readFile(zipPath));
+      tree = await ZipTreeContainer.create(zipBuffer);
+      packagePath = this.findPackagePath(tree, '.');
+    }
+    if (!packagePath || !tree.exists(join(packagePath, MetadataConverter.PACKAGE_XML_FILE))) {
+      throw new DeployError('error_missing_package_xml', mdapiPath ?? zipPath ?? 'zipBuffer');
+    }
+
+    const manifestPath = (fileName: string): SourcePath | undefined => {
+      const fsPath = join(packagePath, fileName);
+      return tree.exists(fsPath) ? fsPath : undefined;
+    };
+    this.components = await ComponentSet.fromManifest({
+      manifestPath: manifestPath(MetadataConverter.PACKAGE_XML_FILE),
+      destructivePre: manifestPath(MetadataConverter.DESTRUCTIVE_CHANGES_PRE_XML_FILE),
+      destructivePost: manifestPath(MetadataConverter.DESTRUCTIVE_CHANGES_POST_XML_FILE),
+      tree,
+    });
+
+    const connection = await this.getConnection();
+    return connection.deploy(zipBuffer, this.options.apiOptions);
+  }
+
+  /**
+   * Find the directory of the package.xml in a zip, which is either the root of the zip
+   * or a directory that contains the whole package.
+   */
+  private findPackagePath(tree: TreeContainer, dirPath: SourcePath): SourcePath | undefined {
+    const entries = tree.readDirectory(dirPath);
+    if (entries.includes(MetadataConverter.PACKAGE_XML_FILE)) {
+      return dirPath;
+    }
+    const directories = entries.filter((entry) => tree.isDirectory(join(dirPath, entry)));
+    if (directories.length === 1) {
+      return this.findPackagePath(tree, join(dirPath, directories[0]));
+    }
+  }
+
+  private async zipDirectory(dirPath: SourcePath): Promise<Buffer> {
+    const zip = createArchive('zip', { zlib: { level: 3 } });
+    const buffers: Buffer[] = [];
+    zip.on('data', (chunk: Buffer) => buffers.push(chunk));
+    const ended = new Promise((resolve, reject) => {
+      zip.on('end', resolve);
+      zip.on('error', reject);
+    });
+    zip.directory(dirPath, false);
+    await Promise.all([zip.finalize(), ended]);
+    return Buffer.concat(buffers);
+  }
+
+  /**
+   * Start deploying the next chunk once a chunk is done. The operation stays in progress
+   * until every chunk is deployed, or a chunk fails or is canceled. Each chunk is started
+   * once, even if the status of the previous chunk is checked again.
+   */
+  private async nextChunk(status: MetadataApiDeployStatus): Promise<MetadataApiDeployStatus> {
+    const currentId = this.chunkId ?? this.id;
+    if (status.id === currentId && !this.chunkStatuses.some((s) => s.id === status.id)) {
+      this.chunkStatuses.push(status);
+      const chunkStopped =
+        status.status === RequestStatus.Failed || status.status === RequestStatus.Canceled;
+      this.chunkDeploy =
+        this.chunks.length > 0 && !chunkStopped ? this.deployNextChunk() : undefined;
+    }
+    if (this.chunkDeploy) {
+      await this.chunkDeploy;
+      return { ...status, status: RequestStatus.InProgress, done: false };
+    }
+    return this.combineChunkStatuses();
+  }
+
+  private async deployNextChunk(): Promise<void> {
+    const { id } = await this.deployComponents(this.chunks.shift());
+    this.chunkId = id;
+  }
+
+  private combineChunkStatuses(): MetadataApiDeployStatus {
+    const statuses = this.chunkStatuses;
+    const last = statuses[statuses.length - 1];
+    const deployedAll = this.chunks.length === 0;
+
+    let status: RequestStatus;
+    if (deployedAll && statuses.every((s) => s.status === RequestStatus.Succeeded)) {
+      status = RequestStatus.Succeeded;
+    } else if (last.status === RequestStatus.Canceled) {
+      status = RequestStatus.Canceled;
+    } else if (statuses.some((s) => s.status !== RequestStatus.Failed)) {
+      status = RequestStatus.SucceededPartial;
+    } else {
+      status = RequestStatus.Failed;
+    }
+
+    const sum = (key: keyof MetadataApiDeployStatus): number =>
+      statuses.reduce((total, s) => total + (Number(s[key]) || 0), 0);
+    const messages = (key: 'componentSuccesses' | 'componentFailures'): DeployMessage[] =>
+      statuses.reduce(
+        (all, s) => all.concat(normalizeToArray(s.details?.[key])),
+        [] as DeployMessage[]
+      );
+    const details: DeployDetails = {
+      ...last.details,
+      componentSuccesses: messages('componentSuccesses'),
+      componentFailures: messages('componentFailures'),
+    };
+    const runTestResult = this.combineTestResults(
+      statuses.map((s) => s.details?.runTestResult).filter(Boolean)
+    );
+    if (runTestResult) {
+      details.runTestResult = runTestResult;
+    }
+
+    return {
+      ...last,
+      status,
+      success: deployedAll && statuses.every((s) => String(s.success) === 'true'),
+      done: true,
+      numberComponentErrors: sum('numberComponentErrors'),
+      numberComponentsDeployed: sum('numberComponentsDeployed'),
+      numberComponentsTotal: sum('numberComponentsTotal'),
+      numberTestErrors: sum('numberTestErrors'),
+      numberTestsCompleted: sum('numberTestsCompleted'),
+      numberTestsTotal: sum('numberTestsTotal'),
+      details,
+    };
+  }
+
+  private combineTestResults(results: RunTestsResult[]): RunTestsResult | undefined {
+    if (results.length === 0) {
+      return undefined;
+    }
+    const sum = (key: 'numFailures' | 'numTestsRun' | 'totalTime'): string =>
+      String(results.reduce((total, r) => total + (Number(r[key]) || 0), 0));
+    const all = <T>(items: (T | T[])[]): T[] =>
+      items.reduce<T[]>((combined, item) => combined.concat(normalizeToArray(item)), []);
+
+    return {
+      ...results[results.length - 1],
+      numFailures: sum('numFailures'),
+      numTestsRun: sum('numTestsRun'),
+      totalTime: sum('totalTime'),
+      successes: all(results.map((r) => r.successes)),
+      failures: all(results.map((r) => r.failures)),
+      codeCoverage: all(results.map((r) => r.codeCoverage)),
+      codeCoverageWarnings: all(results.map((r) => r.codeCoverageWarnings)),
+      flowCoverage: all(results.map((r) => r.flowCoverage)),
+      flowCoverageWarnings: all(results.map((r) => r.flowCoverageWarnings)),
+    };
   }
 }
@@ -6,7 +6,7 @@
  */
 import { ConvertOutputConfig, MetadataConverter } from '../convert';
 import { ComponentSet } from '../collections';
-import { ZipTreeContainer } from '../resolve';
+import { SfdxProject, ZipTreeContainer } from '../resolve';
 import {
   AsyncResult,
   ComponentStatus,
@@ -183,7 +183,7 @@ export class MetadataApiRetrieve extends MetadataTransfer<
       ? {
           type: 'merge',
           mergeWith: this.components.getSourceComponents(),
-          defaultDirectory: output,
+          defaultDirectory: this.getDefaultDirectory(output),
         }
       : {
           type: 'directory',
@@ -201,4 +201,16 @@ export class MetadataApiRetrieve extends MetadataTransfer<
 
     return new ComponentSet(convertResult.converted, this.options.registry);
   }
+
+  /**
+   * Components without a component to merge with are retrieved to the default package
+   * directory if the output is a project directory rather than one of its package directories.
+   */
+  private getDefaultDirectory(output: string): string {
+    const project = SfdxProject.find(output);
+    if (project && !project.getPackageDirectory(output)) {
+      return project.getDefaultPackage().path;
+    }
+    return output;
+  }
 }
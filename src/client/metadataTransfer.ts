@@ -28,7 +28,7 @@ export abstract class MetadataTransfer<
   protected components: ComponentSet;
   protected logger: Logger;
   protected canceled = false;
-  private _id?: string;
+  protected _id?: string;
   private event = new EventEmitter();
   private usernameOrConnection: string | Connection;
   private apiVersion: string;
@@ -155,7 +155,7 @@ export abstract class MetadataTransfer<
 
           fs.writeFileSync(join(mdapiTempDir, 'package.xml'), source.getPackageXml());
         } else {
-          await converter.convert(source.getSourceComponents().toArray(), target, {
+          await converter.convert(source, target, {
             type: 'directory',
             outputDirectory: mdapiTempDir,
           });
@@ -166,6 +166,14 @@ export abstract class MetadataTransfer<
     }
   }
 
+  /**
+   * Check the status of the transfer while polling. Defaults to {@link checkStatus}, override
+   * it to continue transfers that take more than one request.
+   */
+  protected checkTransferStatus(): Promise<Status> {
+    return this.checkStatus();
+  }
+
   protected async getConnection(): Promise<Connection> {
     if (typeof this.usernameOrConnection === 'string') {
       this.usernameOrConnection = await Connection.create({
@@ -193,7 +201,7 @@ export abstract class MetadataTransfer<
       completed = true;
       this.canceled = false;
     } else {
-      mdapiStatus = await this.checkStatus();
+      mdapiStatus = await this.checkTransferStatus();
       completed = mdapiStatus?.done;
       if (!completed) {
         this.event.emit('update', mdapiStatus);
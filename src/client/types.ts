@@ -153,9 +153,88 @@ export interface MetadataApiDeployStatus extends MetadataRequestStatus {
 export type DeployDetails = {
   componentFailures?: DeployMessage | DeployMessage[];
   componentSuccesses?: DeployMessage | DeployMessage[];
-  // TODO: Add types for RetrieveResult and RunTestsResult
+  // TODO: Add types for RetrieveResult
   // retrieveResult?:
-  // runTestResult?:
+  runTestResult?: RunTestsResult;
+};
+
+/**
+ * Results of the Apex tests that ran during a deploy
+ */
+export type RunTestsResult = {
+  apexLogId?: string;
+  codeCoverage?: CodeCoverage | CodeCoverage[];
+  codeCoverageWarnings?: CodeCoverageWarning | CodeCoverageWarning[];
+  failures?: RunTestFailure | RunTestFailure[];
+  flowCoverage?: FlowCoverage | FlowCoverage[];
+  flowCoverageWarnings?: FlowCoverageWarning | FlowCoverageWarning[];
+  numFailures: string;
+  numTestsRun: string;
+  successes?: RunTestSuccess | RunTestSuccess[];
+  totalTime: string;
+};
+
+export type RunTestSuccess = {
+  id: string;
+  methodName: string;
+  name: string;
+  namespace?: string;
+  seeAllData?: BooleanString;
+  time: string;
+};
+
+export type RunTestFailure = {
+  id: string;
+  message: string;
+  methodName: string;
+  name: string;
+  namespace?: string;
+  packageName?: string;
+  seeAllData?: BooleanString;
+  stackTrace?: string;
+  time: string;
+  type: string;
+};
+
+export type CodeCoverage = {
+  id: string;
+  locationsNotCovered?: CodeLocation | CodeLocation[];
+  name: string;
+  namespace?: string;
+  numLocations: string;
+  numLocationsNotCovered: string;
+  type: string;
+};
+
+export type CodeLocation = {
+  column: string;
+  line: string;
+  numExecutions: string;
+  time: string;
+};
+
+export type CodeCoverageWarning = {
+  id: string;
+  message: string;
+  name?: string;
+  namespace?: string;
+};
+
+export type FlowCoverage = {
+  elementsNotCovered?: string | string[];
+  flowId: string;
+  flowName: string;
+  flowNamespace?: string;
+  numElements: string;
+  numElementsNotCovered: string;
+  processType: string;
+};
+
+export type FlowCoverageWarning = {
+  flowId?: string;
+  flowName?: string;
+  flowNamespace?: string;
+  message: string;
 };
 
 type BooleanString = 'true' | 'false' | true | false;
@@ -235,7 +314,8 @@ export interface MetadataApiRetrieveStatus {
 export interface RetrieveOptions {
   /**
    * The directory to retrieve components to. If `merge: true`, components are only
-   * retrieved to `output` if there wasn't a component to merge with.
+   * retrieved to `output` if there wasn't a component to merge with. If `output` is in a project
+   * but not in one of its package directories, they are retrieved to the default package directory.
    */
   output: SourcePath;
   /**
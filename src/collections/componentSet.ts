@@ -5,34 +5,64 @@
  * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
  */
 import {
+  FileProperties,
   MetadataApiDeploy,
   MetadataApiDeployOptions,
   MetadataApiRetrieve,
   MetadataApiRetrieveOptions,
 } from '../client';
-import { XML_DECL, XML_NS_KEY, XML_NS_URL } from '../common';
+import { UNFILED_PUBLIC_FOLDER, XML_DECL, XML_NS_KEY, XML_NS_URL } from '../common';
 import { ComponentSetError } from '../errors';
+import { nls } from '../i18n';
 import {
   MetadataResolver,
   ManifestResolver,
+  GitDiffResolver,
   SourceComponent,
   TreeContainer,
   MetadataComponent,
   ComponentLike,
+  NodeFSTreeContainer,
+  ForceIgnore,
+  SfdxProject,
+  ResolutionCache,
+  ResolutionProblem,
 } from '../resolve';
 import {
   PackageTypeMembers,
   FromManifestOptions,
   PackageManifestObject,
   FromSourceOptions,
+  FromSourceAsyncOptions,
+  DestructiveChangesType,
+  FromJsonOptions,
+  FromGitDiffOptions,
+  ChunkLimits,
+  SerializedComponent,
+  SerializedComponentSet,
+  UnsupportedTypeBehavior,
 } from './types';
 import { LazyCollection } from './lazyCollection';
+import { DependencyGraph } from './dependencyGraph';
+import { SourceIndex } from './sourceIndex';
 import { j2xParser } from 'fast-xml-parser';
-import { RegistryAccess } from '../registry';
+import { MetadataType, RegistryAccess } from '../registry';
+import { Connection, Logger } from '@salesforce/core';
+import { dirname } from 'path';
+import { normalizeToArray } from '../utils';
 
-export type DeploySetOptions = Omit<MetadataApiDeployOptions, 'components'>;
+export type DeploySetOptions = Omit<
+  MetadataApiDeployOptions,
+  'components' | 'mdapiPath' | 'zipPath' | 'zipBuffer'
+>;
 export type RetrieveSetOptions = Omit<MetadataApiRetrieveOptions, 'components'>;
 
+type ListMetadataQuery = {
+  type: MetadataType;
+  folder?: string;
+  deletionType?: DestructiveChangesType;
+};
+
 /**
  * A collection containing no duplicate metadata members (`fullName` and `type` pairs). `ComponentSets`
  * are a convinient way of constructing a unique collection of components to perform operations such as
@@ -46,13 +76,29 @@ export type RetrieveSetOptions = Omit<MetadataApiRetrieveOptions, 'components'>;
 export class ComponentSet extends LazyCollection<MetadataComponent> {
   public static readonly WILDCARD = '*';
   private static readonly KEY_DELIMITER = '#';
+  private static readonly MAX_LIST_METADATA_QUERIES = 3;
+  /**
+   * API version of the set. Members of types that aren't available in this version are
+   * treated according to `unsupportedTypes`.
+   */
   public apiVersion: string;
   public fullName?: string;
+  /**
+   * How members of types that aren't available in the API version of the set are treated
+   * when resolving or building a manifest. Warnings are logged, and the members can be
+   * reported with {@link ComponentSet.getUnsupportedComponents}.
+   */
+  public unsupportedTypes: UnsupportedTypeBehavior = 'warn';
   private registry: RegistryAccess;
   private components = new Map<string, Map<string, SourceComponent>>();
+  private destructiveChanges = new Map<string, DestructiveChangesType>();
+  private resolutionProblems: ResolutionProblem[] = [];
+  private warnedUnsupported = new Set<string>();
+  private logger: Logger;
 
   public constructor(components: Iterable<ComponentLike> = [], registry = new RegistryAccess()) {
     super();
+    this.logger = Logger.childFromRoot(this.constructor.name);
     this.registry = registry;
     this.apiVersion = this.registry.apiVersion;
     for (const component of components) {
@@ -88,25 +134,93 @@ export class ComponentSet extends LazyCollection<MetadataComponent> {
     let registry: RegistryAccess;
     let tree: TreeContainer;
     let inclusiveFilter: ComponentSet;
+    let project: SfdxProject;
+    let cache: ResolutionCache;
+    let lenient = false;
+    let unsupportedTypes: UnsupportedTypeBehavior;
 
     if (Array.isArray(input)) {
       fsPaths = input;
     } else if (typeof input === 'object') {
-      fsPaths = input.fsPaths;
+      project = input.project;
+      fsPaths = input.fsPaths ?? project?.packageDirectories.map((p) => p.path) ?? [];
       registry = input.registry ?? registry;
       tree = input.tree ?? tree;
       inclusiveFilter = input.include;
+      cache = input.cache;
+      lenient = input.lenient ?? false;
+      unsupportedTypes = input.unsupportedTypes;
     } else {
       fsPaths = [input];
     }
 
-    const resolver = new MetadataResolver(registry, tree);
+    registry = registry ?? RegistryAccess.fromProject(project ?? fsPaths[0], tree);
+    const resolver = new MetadataResolver(registry, tree, project, cache);
     const set = new ComponentSet([], registry);
+    set.unsupportedTypes = unsupportedTypes ?? set.unsupportedTypes;
+    if (project?.sourceApiVersion) {
+      set.apiVersion = project.sourceApiVersion;
+    }
     for (const fsPath of fsPaths) {
-      for (const component of resolver.getComponentsFromPath(fsPath, inclusiveFilter)) {
+      let components: SourceComponent[];
+      if (lenient) {
+        const result = resolver.getComponentsFromPathLenient(fsPath, inclusiveFilter);
+        components = result.components;
+        set.resolutionProblems.push(...result.problems);
+      } else {
+        components = resolver.getComponentsFromPath(fsPath, inclusiveFilter);
+      }
+      for (const component of components) {
         set.add(component);
       }
     }
+    set.checkUnsupportedTypes();
+
+    return set;
+  }
+
+  /**
+   * Resolve metadata components from file or directory paths without blocking on directory
+   * reads, see {@link MetadataResolver.getComponentsFromPathAsync}. The file paths are resolved
+   * one after another, and the directories of each path concurrently.
+   *
+   * @param input File or directory path(s), or options of the resolve
+   * @returns Promise of a ComponentSet of source resolved components
+   */
+  public static async fromSourceAsync(
+    input: string | string[] | FromSourceAsyncOptions
+  ): Promise<ComponentSet> {
+    let fsPaths = [];
+    let options: FromSourceAsyncOptions = {};
+
+    if (Array.isArray(input)) {
+      fsPaths = input;
+    } else if (typeof input === 'object') {
+      options = input;
+      fsPaths = input.fsPaths ?? input.project?.packageDirectories.map((p) => p.path) ?? [];
+    } else {
+      fsPaths = [input];
+    }
+
+    const { tree, project, include, concurrency, cancellationToken } = options;
+    const registry = options.registry ?? RegistryAccess.fromProject(project ?? fsPaths[0], tree);
+    const resolver = new MetadataResolver(registry, tree, project);
+    const set = new ComponentSet([], registry);
+    set.unsupportedTypes = options.unsupportedTypes ?? set.unsupportedTypes;
+    if (project?.sourceApiVersion) {
+      set.apiVersion = project.sourceApiVersion;
+    }
+    for (const fsPath of fsPaths) {
+      const components = await resolver.getComponentsFromPathAsync(fsPath, {
+        inclusiveFilter: include,
+        concurrency,
+        cancellationToken,
+      });
+      for (const component of components) {
+        set.add(component);
+      }
+    }
+    set.checkUnsupportedTypes();
 
     return set;
   }
@@ -137,22 +251,64 @@ export class ComponentSet extends LazyCollection<MetadataComponent> {
     const manifestPath = typeof input === 'string' ? input : input.manifestPath;
     const options = (typeof input === 'object' ? input : {}) as Partial<FromManifestOptions>;
 
-    const manifestResolver = new ManifestResolver(options.tree, options.registry);
+    const registry =
+      options.registry ??
+      RegistryAccess.fromProject(
+        options.resolveSourcePaths?.[0] ?? dirname(manifestPath),
+        options.tree
+      );
+    const manifestResolver = new ManifestResolver(options.tree, registry);
     const manifest = await manifestResolver.resolve(manifestPath);
     const resolveIncludeSet = options.resolveSourcePaths
-      ? new ComponentSet([], options.registry)
+      ? new ComponentSet([], registry)
       : undefined;
-    const result = new ComponentSet([], options.registry);
+    const result = new ComponentSet([], registry);
     result.apiVersion = manifest.apiVersion;
     result.fullName = manifest.fullName;
+    result.unsupportedTypes = options.unsupportedTypes ?? result.unsupportedTypes;
+
+    // track which manifest each member came from to catch members that are both added and deleted
+    const memberOrigins = new Map<string, string>();
+    const addComponent = (
+      component: MetadataComponent,
+      origin: string,
+      deletionType?: DestructiveChangesType
+    ): void => {
+      const originKey = `${component.type.name}${ComponentSet.KEY_DELIMITER}${component.fullName}`;
+      const previousOrigin = memberOrigins.get(originKey);
+      if (previousOrigin && previousOrigin !== origin) {
+        throw new ComponentSetError('error_conflicting_manifest_member', [
+          component.fullName,
+          component.type.name,
+          previousOrigin,
+          origin,
+        ]);
+      }
+      memberOrigins.set(originKey, origin);
 
-    for (const component of manifest.components) {
       if (resolveIncludeSet) {
-        resolveIncludeSet.add(component);
+        resolveIncludeSet.add(component, deletionType);
       }
       const memberIsWildcard = component.fullName === ComponentSet.WILDCARD;
       if (!memberIsWildcard || options.forceAddWildcards || !options.resolveSourcePaths) {
-        result.add(component);
+        result.add(component, deletionType);
+      }
+    };
+
+    for (const component of manifest.components) {
+      addComponent(component, manifestPath);
+    }
+
+    const destructiveManifests: [string, DestructiveChangesType][] = [
+      [options.destructivePre, DestructiveChangesType.Pre],
+      [options.destructivePost, DestructiveChangesType.Post],
+    ];
+    for (const [destructivePath, deletionType] of destructiveManifests) {
+      if (destructivePath) {
+        const destructiveManifest = await manifestResolver.resolve(destructivePath);
+        for (const component of destructiveManifest.components) {
+          addComponent(component, destructivePath, deletionType);
+        }
       }
     }
 
@@ -161,20 +317,94 @@ export class ComponentSet extends LazyCollection<MetadataComponent> {
         fsPaths: options.resolveSourcePaths,
         tree: options.tree,
         include: resolveIncludeSet,
-        registry: options.registry,
+        registry,
       });
       for (const component of components) {
-        result.add(component);
+        result.add(component, resolveIncludeSet.getDestructiveChangesType(component));
       }
     }
+    result.checkUnsupportedTypes();
+
+    return result;
+  }
+
+  /**
+   * Resolve the components that changed between two revisions of a git repository.
+   *
+   * Components owning added or modified files are added to the set, e.g. a change to one
+   * file of a bundle adds the whole bundle, while a change to a decomposed child file only
+   * adds the child. Components whose files were all deleted are added as members marked for
+   * deletion. Files that aren't metadata are ignored.
+   *
+   * @param options
+   * @returns Promise of a ComponentSet containing the changed and deleted components
+   */
+  public static async fromGitDiff(options: FromGitDiffOptions): Promise<ComponentSet> {
+    const registry = options.registry ?? RegistryAccess.fromProject(options.repoPath);
+    const resolver = new GitDiffResolver(options.repoPath, registry, options.tree);
+    const { changed, deleted } = await resolver.resolve(options.from, options.to, options.fsPaths);
+
+    const result = new ComponentSet(changed, registry);
+    for (const component of deleted) {
+      result.add(component, options.destructiveChangesType ?? DestructiveChangesType.Post);
+    }
+    return result;
+  }
+
+  /**
+   * Rehydrate a set from its JSON representation, such as one created with {@link ComponentSet.toJSON}.
+   * Source-backed components are bound to the given {@link TreeContainer} without resolving
+   * their files again.
+   *
+   * @param data JSON representation of a set
+   * @param options
+   * @returns ComponentSet with the serialized members and source-backed components
+   */
+  public static fromJSON(
+    data: SerializedComponentSet,
+    options: FromJsonOptions = {}
+  ): ComponentSet {
+    const registry = options.registry ?? new RegistryAccess();
+    const tree = options.tree ?? new NodeFSTreeContainer();
+    const forceIgnore = options.forceIgnore ?? new ForceIgnore();
+    const result = new ComponentSet([], registry);
+    result.apiVersion = data.apiVersion;
+    result.fullName = data.fullName;
+
+    // reuse the same instance for components that are referenced multiple times, e.g. a parent of children
+    const sourceComponents = new Map<string, SourceComponent>();
+    const deserialize = (component: SerializedComponent): ComponentLike => {
+      const { name, xml, content } = component;
+      const parent = component.parent
+        ? (deserialize(component.parent) as SourceComponent)
+        : undefined;
+      const type = parent
+        ? parent.type.children.types[component.type]
+        : registry.getTypeByName(component.type);
+      if (!xml && !content) {
+        return { fullName: component.fullName, type };
+      }
+      const key = [type.id, component.fullName, xml, content].join(ComponentSet.KEY_DELIMITER);
+      if (!sourceComponents.has(key)) {
+        sourceComponents.set(
+          key,
+          new SourceComponent({ name, type, xml, content, parent }, tree, forceIgnore)
+        );
+      }
+      return sourceComponents.get(key);
+    };
+
+    for (const component of data.components) {
+      result.add(deserialize(component), component.destructiveChangesType);
+    }
 
     return result;
   }
 
   /**
    * Constructs a deploy operation using the components in the set and starts
-   * the deployment. There must be at least one source-backed component in
-   * the set to create an operation.
+   * the deployment. There must be at least one source-backed component or one
+   * member marked for deletion in the set to create an operation.
    *
    * @param options
    * @returns Metadata API deploy operation
@@ -182,7 +412,7 @@ export class ComponentSet extends LazyCollection<MetadataComponent> {
   public async deploy(options: DeploySetOptions): Promise<MetadataApiDeploy> {
     const toDeploy = Array.from(this.getSourceComponents());
 
-    if (toDeploy.length === 0) {
+    if (toDeploy.length === 0 && this.destructiveChanges.size === 0) {
       throw new ComponentSetError('error_no_source_to_deploy');
     }
 
@@ -219,13 +449,29 @@ export class ComponentSet extends LazyCollection<MetadataComponent> {
   /**
    * Get an object representation of a package manifest based on the set components.
    *
+   * Members marked for deletion are excluded, unless a destructive changes type is given,
+   * in which case only the members marked for that type of deletion are included.
+   *
+   * @param destructiveType Type of destructive changes manifest to represent
    * @returns Object representation of a package manifest
    */
-  public getObject(): PackageManifestObject {
+  public getObject(destructiveType?: DestructiveChangesType): PackageManifestObject {
+    if (this.unsupportedTypes === 'warn') {
+      this.warnUnsupportedTypes();
+    }
     const typeMap = new Map<string, string[]>();
     for (const key of this.components.keys()) {
+      if (this.destructiveChanges.get(key) !== destructiveType) {
+        continue;
+      }
       const [typeId, fullName] = key.split(ComponentSet.KEY_DELIMITER);
       let type = this.registry.getTypeByName(typeId);
+      if (
+        this.unsupportedTypes === 'exclude' &&
+        !this.registry.isSupported(type, this.apiVersion)
+      ) {
+        continue;
+      }
 
       if (type.folderContentType) {
         type = this.registry.getTypeByName(type.folderContentType);
@@ -256,18 +502,131 @@ export class ComponentSet extends LazyCollection<MetadataComponent> {
    * Create a manifest in xml format (package.xml) based on the set components.
    *
    * @param indentation Number of spaces to indent lines by.
+   * @param destructiveType Create a destructive changes manifest of the given type instead.
    */
-  public getPackageXml(indentation = 4): string {
+  public getPackageXml(indentation = 4, destructiveType?: DestructiveChangesType): string {
     const j2x = new j2xParser({
       format: true,
       indentBy: new Array(indentation + 1).join(' '),
       ignoreAttributes: false,
     });
-    const toParse = this.getObject();
+    const toParse = this.getObject(destructiveType);
     toParse.Package[XML_NS_KEY] = XML_NS_URL;
     return XML_DECL.concat(j2x.parse(toParse));
   }
 
+  /**
+   * Replace the wildcard members of the set with the members of their types that exist in an org.
+   *
+   * Members are listed with the Metadata API `listMetadata` call. For wildcards of types that
+   * are stored in folders, the folders are listed first and then the members in each folder,
+   * including the `unfiled$public` folder that isn't listed as a folder itself. Expanded members
+   * keep the deletion mark of the wildcard they replace. The set is only changed once every
+   * member was listed, so it keeps its wildcards if a call fails.
+   *
+   * @param connection Connection to the org to list members from
+   * @returns File properties of the members that were added to the set
+   */
+  public async expandWildcards(connection: Connection): Promise<FileProperties[]> {
+    const queries: ListMetadataQuery[] = [];
+    const wildcardKeys: string[] = [];
+    for (const key of this.components.keys()) {
+      const [typeId, fullName] = key.split(ComponentSet.KEY_DELIMITER);
+      if (fullName === ComponentSet.WILDCARD) {
+        const type = this.registry.getTypeByName(typeId);
+        wildcardKeys.push(key);
+        queries.push({
+          // list the folders first for types that are stored in them
+          type: type.folderType ? this.registry.getTypeByName(type.folderType) : type,
+          deletionType: this.destructiveChanges.get(key),
+        });
+      }
+    }
+
+    const folderQueries: ListMetadataQuery[] = [];
+    for (const { type, deletionType } of queries) {
+      if (type.folderContentType) {
+        folderQueries.push({
+          type: this.registry.getTypeByName(type.folderContentType),
+          folder: UNFILED_PUBLIC_FOLDER,
+          deletionType,
+        });
+      }
+    }
+
+    const listedFolders = await this.listMetadata(connection, queries);
+    for (const [properties, query] of listedFolders) {
+      const { folderContentType } = query.type;
+      if (folderContentType) {
+        folderQueries.push({
+          type: this.registry.getTypeByName(folderContentType),
+          folder: properties.fullName,
+          deletionType: query.deletionType,
+        });
+      }
+    }
+    const listedMembers = await this.listMetadata(connection, folderQueries);
+
+    for (const key of wildcardKeys) {
+      this.components.delete(key);
+      this.destructiveChanges.delete(key);
+    }
+
+    const listed: FileProperties[] = [];
+    for (const [properties, query] of listedFolders.concat(listedMembers)) {
+      this.add({ fullName: properties.fullName, type: query.type }, query.deletionType);
+      listed.push(properties);
+    }
+    return listed;
+  }
+
+  /**
+   * Get a JSON representation of the set that can be rehydrated with {@link ComponentSet.fromJSON}.
+   *
+   * @returns JSON representation of the set
+   */
+  public toJSON(): SerializedComponentSet {
+    const components: SerializedComponent[] = [];
+    for (const component of this) {
+      const serialized = this.serializeComponent(component);
+      const destructiveChangesType = this.getDestructiveChangesType(component);
+      if (destructiveChangesType) {
+        serialized.destructiveChangesType = destructiveChangesType;
+      }
+      components.push(serialized);
+    }
+
+    const result: SerializedComponentSet = { apiVersion: this.apiVersion, components };
+    if (this.fullName) {
+      result.fullName = this.fullName;
+    }
+    return result;
+  }
+
+  /**
+   * Paths that couldn't be resolved when the set was created with the `lenient` option
+   * of {@link ComponentSet.fromSource}.
+   */
+  public getResolutionProblems(): ResolutionProblem[] {
+    return this.resolutionProblems;
+  }
+
+  /**
+   * Get the members of the set whose types aren't available in the API version of the set,
+   * see {@link RegistryAccess.isSupported}.
+   *
+   * @returns Components of unsupported types
+   */
+  public getUnsupportedComponents(): MetadataComponent[] {
+    const unsupported: MetadataComponent[] = [];
+    for (const component of this) {
+      if (!this.registry.isSupported(component.type, this.apiVersion)) {
+        unsupported.push(component);
+      }
+    }
+    return unsupported;
+  }
+
   /**
    * Get only the source-backed metadata components in the set.
    *
@@ -290,7 +649,14 @@ export class ComponentSet extends LazyCollection<MetadataComponent> {
     >;
   }
 
-  public add(component: ComponentLike): void {
+  /**
+   * Add a component to the set.
+   *
+   * @param component Component to add
+   * @param deletionType Mark the component's member for deletion, either before or after
+   * the additions of a deploy.
+   */
+  public add(component: ComponentLike, deletionType?: DestructiveChangesType): void {
     const key = this.simpleKey(component);
     if (!this.components.has(key)) {
       this.components.set(key, new Map<string, SourceComponent>());
@@ -298,6 +664,29 @@ export class ComponentSet extends LazyCollection<MetadataComponent> {
     if (component instanceof SourceComponent) {
       this.components.get(key).set(this.sourceKey(component), component);
     }
+    if (deletionType) {
+      this.destructiveChanges.set(key, deletionType);
+    }
+  }
+
+  /**
+   * Get the type of destructive change a component's member is marked for.
+   *
+   * @param component Component to get the destructive changes type of
+   * @returns The destructive changes type, or `undefined` if the member is not marked for deletion
+   */
+  public getDestructiveChangesType(component: ComponentLike): DestructiveChangesType | undefined {
+    return this.destructiveChanges.get(this.simpleKey(component));
+  }
+
+  /**
+   * Get the types of destructive changes that members of the set are marked for.
+   *
+   * @returns Destructive changes types present in the set
+   */
+  public getTypesOfDestructiveChanges(): DestructiveChangesType[] {
+    const types = new Set(this.destructiveChanges.values());
+    return Object.values(DestructiveChangesType).filter((type) => types.has(type));
   }
 
   /**
@@ -350,6 +739,191 @@ export class ComponentSet extends LazyCollection<MetadataComponent> {
     return false;
   }
 
+  /**
+   * Create a new set containing the members of this set and the given set.
+   *
+   * @param other Set to combine with
+   * @returns A new set with the members of both sets
+   */
+  public union(other: ComponentSet): ComponentSet {
+    const result = this.createEmpty();
+    for (const component of this) {
+      result.add(component, this.getDestructiveChangesType(component));
+    }
+    for (const component of other) {
+      result.add(component, other.getDestructiveChangesType(component));
+    }
+    return result;
+  }
+
+  /**
+   * Create a new set containing the members present in both this set and the given set.
+   * Membership is evaluated with {@link ComponentSet.has}, so a wildcard or a parent in one
+   * set matches the corresponding concrete members or children in the other.
+   *
+   * @param other Set to intersect with
+   * @returns A new set with the members common to both sets
+   */
+  public intersect(other: ComponentSet): ComponentSet {
+    const result = this.createEmpty();
+    for (const component of this) {
+      if (other.has(component)) {
+        result.add(component, this.getDestructiveChangesType(component));
+      }
+    }
+    for (const component of other) {
+      if (this.has(component)) {
+        result.add(component, other.getDestructiveChangesType(component));
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Create a new set containing the members of this set that are not present in the given set.
+   * Membership is evaluated with {@link ComponentSet.has}. A wildcard member of this set is only
+   * removed by a wildcard of the same type in the given set, since the concrete members it
+   * stands for are unknown.
+   *
+   * @param other Set of members to remove
+   * @returns A new set with the members only present in this set
+   */
+  public subtract(other: ComponentSet): ComponentSet {
+    const result = this.createEmpty();
+    for (const component of this) {
+      if (!other.has(component)) {
+        result.add(component, this.getDestructiveChangesType(component));
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Tests whether every member of this set is present in the given set, as evaluated
+   * by {@link ComponentSet.has}.
+   *
+   * @param other Set to test against
+   * @returns `true` if this set is a subset of the given set
+   */
+  public isSubsetOf(other: ComponentSet): boolean {
+    for (const component of this) {
+      if (!other.has(component)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Analyze the dependencies between the source-backed components of the set, e.g. to find
+   * the components a member needs in order to be deployed.
+   *
+   * @returns Graph of the dependencies between the source-backed components and their children
+   */
+  public getDependencyGraph(): DependencyGraph {
+    return new DependencyGraph(this.getSourceComponents());
+  }
+
+  /**
+   * Index the files of the source-backed components of the set, to look up the component
+   * a file belongs to. Keep the index up to date with {@link SourceIndex.add} and
+   * {@link SourceIndex.remove} as files change.
+   *
+   * @returns Index of the files of the source-backed components and their children
+   */
+  public getSourceIndex(): SourceIndex {
+    return new SourceIndex(this.getSourceComponents());
+  }
+
+  /**
+   * Split the set into ordered chunks that stay under the given limits, e.g. to deploy a set
+   * that exceeds the limits of a single Metadata API request. File and byte limits are measured
+   * against the source files of the components in a chunk.
+   *
+   * Source-backed children are kept in the same chunk as their parent. A parent with its children
+   * that exceeds the limits on its own is placed in a chunk by itself. Members marked for deletion
+   * before a deploy are added to the first chunk, and those marked for deletion after a deploy
+   * to the last chunk.
+   *
+   * @param limits Maximum size of a chunk
+   * @returns Ordered sets that together contain the members of this set
+   */
+  public chunk(limits: ChunkLimits): ComponentSet[] {
+    const { maxFiles = Infinity, maxBytes = Infinity, maxComponents = Infinity } = limits;
+    const countFiles = maxFiles < Infinity || maxBytes < Infinity;
+    const groups = new Map<
+      string,
+      { components: MetadataComponent[]; files: Map<string, number> }
+    >();
+    const deletions: [MetadataComponent, DestructiveChangesType][] = [];
+
+    for (const component of this) {
+      const deletionType = this.getDestructiveChangesType(component);
+      if (deletionType) {
+        deletions.push([component, deletionType]);
+        continue;
+      }
+      const owner =
+        component instanceof SourceComponent && component.parent ? component.parent : component;
+      const key = this.simpleKey(owner);
+      if (!groups.has(key)) {
+        groups.set(key, { components: [], files: new Map() });
+      }
+      const group = groups.get(key);
+      group.components.push(component);
+      if (countFiles && component instanceof SourceComponent) {
+        for (const fsPath of [...component.walkContent(), component.xml]) {
+          if (fsPath && !group.files.has(fsPath)) {
+            // only measure files when their size matters
+            const bytes = maxBytes < Infinity ? component.tree.getFileSize(fsPath) : 0;
+            group.files.set(fsPath, bytes);
+          }
+        }
+      }
+    }
+
+    const chunks: ComponentSet[] = [];
+    let chunk: ComponentSet;
+    let fileCount = 0;
+    let byteCount = 0;
+    let componentCount = 0;
+    for (const { components, files } of groups.values()) {
+      let groupBytes = 0;
+      for (const bytes of files.values()) {
+        groupBytes += bytes;
+      }
+      if (
+        !chunk ||
+        fileCount + files.size > maxFiles ||
+        byteCount + groupBytes > maxBytes ||
+        componentCount + components.length > maxComponents
+      ) {
+        chunk = this.createEmpty();
+        chunks.push(chunk);
+        fileCount = 0;
+        byteCount = 0;
+        componentCount = 0;
+      }
+      for (const component of components) {
+        chunk.add(component);
+      }
+      fileCount += files.size;
+      byteCount += groupBytes;
+      componentCount += components.length;
+    }
+
+    if (deletions.length > 0 && chunks.length === 0) {
+      chunks.push(this.createEmpty());
+    }
+    for (const [component, deletionType] of deletions) {
+      const target =
+        deletionType === DestructiveChangesType.Pre ? chunks[0] : chunks[chunks.length - 1];
+      target.add(component, deletionType);
+    }
+
+    return chunks;
+  }
+
   public *[Symbol.iterator](): Iterator<MetadataComponent> {
     for (const [key, sourceComponents] of this.components.entries()) {
       if (sourceComponents.size === 0) {
@@ -381,6 +955,101 @@ export class ComponentSet extends LazyCollection<MetadataComponent> {
     return size;
   }
 
+  /**
+   * Run listMetadata queries in batches of the maximum number of queries allowed per call
+   * and pair each listed member with the query that produced it.
+   */
+  private async listMetadata(
+    connection: Connection,
+    queries: ListMetadataQuery[]
+  ): Promise<[FileProperties, ListMetadataQuery][]> {
+    const results: [FileProperties, ListMetadataQuery][] = [];
+    for (let i = 0; i < queries.length; i += ComponentSet.MAX_LIST_METADATA_QUERIES) {
+      const batch = queries.slice(i, i + ComponentSet.MAX_LIST_METADATA_QUERIES);
+      const response = await connection.metadata.list(
+        batch.map(({ type, folder }) =>
+          folder ? { type: type.name, folder } : { type: type.name }
+        ),
+        this.apiVersion
+      );
+      for (const properties of normalizeToArray(response) as FileProperties[]) {
+        const query = batch.find(
+          ({ type, folder }) =>
+            type.name.toLowerCase() === properties.type?.toLowerCase() &&
+            (!folder || properties.fullName.startsWith(`${folder}/`))
+        );
+        if (query) {
+          results.push([properties, query]);
+        } else if (batch.length === 1) {
+          results.push([properties, batch[0]]);
+        } else {
+          // the listed type name differs from the queried ones, so fall back to the registry
+          results.push([properties, { type: this.registry.getTypeByName(properties.type) }]);
+        }
+      }
+    }
+    return results;
+  }
+
+  private serializeComponent(component: MetadataComponent): SerializedComponent {
+    const serialized: SerializedComponent = {
+      fullName: component.fullName,
+      type: component.type.id,
+    };
+    if (component instanceof SourceComponent) {
+      const { name, xml, content, parent } = component;
+      Object.assign(serialized, { name }, xml && { xml }, content && { content });
+      if (parent) {
+        serialized.parent = this.serializeComponent(parent);
+      }
+    }
+    return serialized;
+  }
+
+  private createEmpty(): ComponentSet {
+    const set = new ComponentSet([], this.registry);
+    set.apiVersion = this.apiVersion;
+    set.fullName = this.fullName;
+    set.unsupportedTypes = this.unsupportedTypes;
+    return set;
+  }
+
+  /**
+   * Remove the members of types that aren't available in the API version of the set, or
+   * warn about them, depending on `unsupportedTypes`.
+   */
+  private checkUnsupportedTypes(): void {
+    if (this.unsupportedTypes === 'warn') {
+      this.warnUnsupportedTypes();
+      return;
+    }
+    for (const component of this.getUnsupportedComponents()) {
+      const key = this.simpleKey(component);
+      this.components.delete(key);
+      this.destructiveChanges.delete(key);
+    }
+  }
+
+  /**
+   * Log a warning about the members of unsupported types that weren't reported for the
+   * current API version of the set yet.
+   */
+  private warnUnsupportedTypes(): void {
+    const unreported = new Set<string>();
+    for (const component of this.getUnsupportedComponents()) {
+      const key = `${this.apiVersion}${ComponentSet.KEY_DELIMITER}${this.simpleKey(component)}`;
+      if (!this.warnedUnsupported.has(key)) {
+        this.warnedUnsupported.add(key);
+        unreported.add(`${component.type.name}:${component.fullName}`);
+      }
+    }
+    if (unreported.size > 0) {
+      this.logger.warn(
+        nls.localize('warn_unsupported_types', [this.apiVersion, Array.from(unreported).join(', ')])
+      );
+    }
+  }
+
   private sourceKey(component: SourceComponent): string {
     const { fullName, type, xml, content } = component;
     return `${type.name}${fullName}${xml ?? ''}${content ?? ''}`;
@@ -0,0 +1,311 @@
+/*
+ * Copyright (c) 2021, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { extname } from 'path';
+import { ComponentLike, SourceComponent } from '../resolve';
+import { normalizeToArray } from '../utils';
+
+/**
+ * A member referenced by the source of a component. References that don't match a component
+ * of the graph are ignored.
+ */
+interface Reference {
+  typeId: string;
+  fullName: string;
+}
+
+type ReferenceFinder = (component: SourceComponent) => Reference[];
+
+const APEX_CLASS = 'apexclass';
+const AURA_BUNDLE = 'auradefinitionbundle';
+const LWC_BUNDLE = 'lightningcomponentbundle';
+const CUSTOM_OBJECT = 'customobject';
+const CUSTOM_FIELD = 'customfield';
+
+const APEX_COMMENT = /\/\*[\s\S]*?\*\/|\/\/.*$/gm;
+const APEX_STRING = /'(?:\\.|[^'\\])*'/g;
+const APEX_IDENTIFIER = /[A-Za-z_][A-Za-z0-9_]*/g;
+// from 'c/foo', import 'c/foo' and import('c/foo')
+const LWC_IMPORT = /(?:\bfrom|\bimport\s*\(?)\s*['"]c\/([A-Za-z0-9_]+)['"]/g;
+// <c:foo> may refer to either an Aura component or a Lightning web component
+const AURA_USAGE = /<c:([A-Za-z0-9_]+)/g;
+const AURA_MARKUP_EXTENSIONS = ['.app', '.cmp', '.evt', '.intf', '.design', '.tokens'];
+
+function readFile(component: SourceComponent, fsPath: string): string {
+  return component.tree.readFileSync(fsPath).toString();
+}
+
+function matchAll(contents: string, pattern: RegExp): string[] {
+  const matches: string[] = [];
+  let match: RegExpExecArray;
+  pattern.lastIndex = 0;
+  while ((match = pattern.exec(contents))) {
+    matches.push(match[1] ?? match[0]);
+  }
+  return matches;
+}
+
+/**
+ * Collect the string values of every element with the given name in parsed xml.
+ */
+function collectValues(value: unknown, key: string, values: string[] = []): string[] {
+  if (Array.isArray(value)) {
+    value.forEach((element) => collectValues(element, key, values));
+  } else if (value && typeof value === 'object') {
+    for (const [elementName, element] of Object.entries(value)) {
+      if (elementName === key) {
+        values.push(...normalizeToArray(element).filter((e): e is string => typeof e === 'string'));
+      } else {
+        collectValues(element, key, values);
+      }
+    }
+  }
+  return values;
+}
+
+function findApexReferences(component: SourceComponent): Reference[] {
+  const references: Reference[] = [];
+  for (const fsPath of component.walkContent()) {
+    const code = readFile(component, fsPath).replace(APEX_COMMENT, '').replace(APEX_STRING, '');
+    // apex is case insensitive, so identifiers are matched against class names by the graph
+    for (const identifier of matchAll(code, APEX_IDENTIFIER)) {
+      references.push({ typeId: APEX_CLASS, fullName: identifier });
+    }
+  }
+  return references;
+}
+
+function findLwcReferences(component: SourceComponent): Reference[] {
+  return component
+    .walkContent()
+    .filter((fsPath) => extname(fsPath) === '.js')
+    .reduce((references, fsPath) => {
+      for (const name of matchAll(readFile(component, fsPath), LWC_IMPORT)) {
+        references.push({ typeId: LWC_BUNDLE, fullName: name });
+      }
+      return references;
+    }, [] as Reference[]);
+}
+
+function findAuraReferences(component: SourceComponent): Reference[] {
+  return component
+    .walkContent()
+    .filter((fsPath) => AURA_MARKUP_EXTENSIONS.includes(extname(fsPath)))
+    .reduce((references, fsPath) => {
+      for (const name of matchAll(readFile(component, fsPath), AURA_USAGE)) {
+        references.push({ typeId: AURA_BUNDLE, fullName: name });
+        references.push({ typeId: LWC_BUNDLE, fullName: name });
+      }
+      return references;
+    }, [] as Reference[]);
+}
+
+function findLayoutReferences(component: SourceComponent): Reference[] {
+  // layouts are named <object>-<layout name> and refer to the fields of that object
+  const objectName = component.fullName.split('-')[0];
+  return collectValues(component.parseXmlSync(), 'field').map((field) => ({
+    typeId: CUSTOM_FIELD,
+    fullName: `${objectName}.${field}`,
+  }));
+}
+
+function findFlexiPageReferences(component: SourceComponent): Reference[] {
+  const xml = component.parseXmlSync();
+  const [objectName] = collectValues(xml, 'sobjectType');
+  return collectValues(xml, 'fieldItem')
+    .map((field) => (objectName ? field.replace(/^Record\./, `${objectName}.`) : field))
+    .filter((field) => field.includes('.'))
+    .map((field) => ({ typeId: CUSTOM_FIELD, fullName: field }));
+}
+
+function findPermissionSetReferences(component: SourceComponent): Reference[] {
+  const xml = component.parseXmlSync();
+  return [
+    ...collectValues(xml, 'object').map((name) => ({ typeId: CUSTOM_OBJECT, fullName: name })),
+    ...collectValues(xml, 'field').map((name) => ({ typeId: CUSTOM_FIELD, fullName: name })),
+  ];
+}
+
+const REFERENCE_FINDERS: { [typeId: string]: ReferenceFinder } = {
+  apexclass: findApexReferences,
+  apextrigger: findApexReferences,
+  lightningcomponentbundle: findLwcReferences,
+  auradefinitionbundle: findAuraReferences,
+  layout: findLayoutReferences,
+  flexipage: findFlexiPageReferences,
+  permissionset: findPermissionSetReferences,
+};
+
+/**
+ * The dependencies between a collection of source components, found by analyzing their source.
+ *
+ * Dependencies are found for:
+ * - Apex classes and triggers referencing Apex classes
+ * - Lightning web components importing other `c/` modules
+ * - Aura components using `<c:...>` components
+ * - Fields referenced by layouts and flexipages
+ * - Objects and fields granted by permission sets
+ *
+ * Child components, such as custom fields, also depend on their parent. Only dependencies
+ * between components of the graph are tracked.
+ */
+export class DependencyGraph {
+  private static readonly KEY_DELIMITER = '#';
+  private nodes = new Map<string, SourceComponent>();
+  private dependencies = new Map<string, Set<string>>();
+  private dependents = new Map<string, Set<string>>();
+  private apexClasses = new Map<string, string>();
+
+  constructor(components: Iterable<SourceComponent>) {
+    for (const component of components) {
+      this.addNode(component);
+      component.getChildren().forEach((child) => this.addNode(child));
+    }
+
+    for (const [key, component] of this.nodes.entries()) {
+      if (component.parent) {
+        this.addEdge(key, this.key(component.parent));
+      }
+      const findReferences = REFERENCE_FINDERS[component.type.id];
+      if (findReferences) {
+        for (const reference of findReferences(component)) {
+          const dependencyKey = this.resolveReference(reference);
+          if (dependencyKey && dependencyKey !== key) {
+            this.addEdge(key, dependencyKey);
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * The number of components in the graph
+   */
+  get size(): number {
+    return this.nodes.size;
+  }
+
+  public getComponents(): SourceComponent[] {
+    return Array.from(this.nodes.values());
+  }
+
+  /**
+   * Get the components that the given component depends on.
+   *
+   * @param component Component of the graph
+   * @param transitive Also include the dependencies of the dependencies
+   */
+  public getDependencies(component: ComponentLike, transitive = false): SourceComponent[] {
+    return this.traverse(this.dependencies, this.key(component), transitive);
+  }
+
+  /**
+   * Get the components that depend on the given component.
+   *
+   * @param component Component of the graph
+   * @param transitive Also include the dependents of the dependents
+   */
+  public getDependents(component: ComponentLike, transitive = false): SourceComponent[] {
+    return this.traverse(this.dependents, this.key(component), transitive);
+  }
+
+  /**
+   * Order the components so that each component comes after the components it depends on.
+   * Components that depend on each other in a cycle can't be ordered, so they are placed
+   * last in the order they were added to the graph.
+   */
+  public sort(): SourceComponent[] {
+    const remaining = new Map<string, number>();
+    const ready: string[] = [];
+    for (const key of this.nodes.keys()) {
+      const count = this.dependencies.get(key)?.size ?? 0;
+      remaining.set(key, count);
+      if (count === 0) {
+        ready.push(key);
+      }
+    }
+
+    const sorted: string[] = [];
+    while (ready.length > 0) {
+      const key = ready.shift();
+      sorted.push(key);
+      remaining.delete(key);
+      for (const dependent of this.dependents.get(key) ?? []) {
+        const count = remaining.get(dependent) - 1;
+        remaining.set(dependent, count);
+        if (count === 0) {
+          ready.push(dependent);
+        }
+      }
+    }
+    sorted.push(...remaining.keys());
+
+    return sorted.map((key) => this.nodes.get(key));
+  }
+
+  private addNode(component: SourceComponent): void {
+    const key = this.key(component);
+    this.nodes.set(key, component);
+    if (component.type.id === APEX_CLASS) {
+      this.apexClasses.set(component.fullName.toLowerCase(), key);
+    }
+  }
+
+  private addEdge(from: string, to: string): void {
+    if (!this.nodes.has(to)) {
+      return;
+    }
+    if (!this.dependencies.has(from)) {
+      this.dependencies.set(from, new Set());
+    }
+    if (!this.dependents.has(to)) {
+      this.dependents.set(to, new Set());
+    }
+    this.dependencies.get(from).add(to);
+    this.dependents.get(to).add(from);
+  }
+
+  private resolveReference({ typeId, fullName }: Reference): string | undefined {
+    if (typeId === APEX_CLASS) {
+      return this.apexClasses.get(fullName.toLowerCase());
+    }
+    const key = this.key({ fullName, type: typeId });
+    if (this.nodes.has(key)) {
+      return key;
+    }
+    // fall back to the object if its fields are not separate components
+    if (typeId === CUSTOM_FIELD) {
+      const objectKey = this.key({ fullName: fullName.split('.')[0], type: CUSTOM_OBJECT });
+      return this.nodes.has(objectKey) ? objectKey : undefined;
+    }
+  }
+
+  private traverse(
+    edges: Map<string, Set<string>>,
+    start: string,
+    transitive: boolean
+  ): SourceComponent[] {
+    const visited = new Set<string>();
+    const queue = [start];
+    while (queue.length > 0) {
+      for (const next of edges.get(queue.shift()) ?? []) {
+        if (next !== start && !visited.has(next)) {
+          visited.add(next);
+          if (transitive) {
+            queue.push(next);
+          }
+        }
+      }
+    }
+    return Array.from(visited).map((key) => this.nodes.get(key));
+  }
+
+  private key(component: ComponentLike): string {
+    const typeId =
+      typeof component.type === 'string' ? component.type.toLowerCase().trim() : component.type.id;
+    return `${typeId}${DependencyGraph.KEY_DELIMITER}${component.fullName}`;
+  }
+}
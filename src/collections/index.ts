@@ -5,5 +5,18 @@
  * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
  */
 export { LazyCollection } from './lazyCollection';
+export { DependencyGraph } from './dependencyGraph';
+export { SourceIndex } from './sourceIndex';
 export { ComponentSet, DeploySetOptions, RetrieveSetOptions } from './componentSet';
-export { FromSourceOptions, FromManifestOptions } from './types';
+export {
+  FromSourceOptions,
+  FromSourceAsyncOptions,
+  FromManifestOptions,
+  FromJsonOptions,
+  FromGitDiffOptions,
+  ChunkLimits,
+  DestructiveChangesType,
+  SerializedComponent,
+  SerializedComponentSet,
+  UnsupportedTypeBehavior,
+} from './types';
@@ -0,0 +1,134 @@
+/*
+ * Copyright (c) 2021, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { dirname } from 'path';
+import { SourcePath } from '../common';
+import { ComponentLike, SourceComponent } from '../resolve';
+
+/**
+ * An index of the files of source components, to look up the component a file belongs to
+ * without resolving it again.
+ *
+ * The metadata xml, content and every file under the content of a component are indexed, as
+ * well as the files of its children. A file of a child, such as the metadata xml of a custom
+ * field, belongs to the child rather than to its parent. Files that aren't indexed belong to
+ * the component whose content directory contains them, e.g. a new file of a bundle.
+ */
+export class SourceIndex {
+  private static readonly KEY_DELIMITER = '#';
+  private components = new Map<string, SourceComponent>();
+  private paths = new Map<string, SourcePath[]>();
+  private children = new Map<string, string[]>();
+  private owners = new Map<SourcePath, string>();
+
+  constructor(components: Iterable<SourceComponent> = []) {
+    for (const component of components) {
+      this.add(component);
+    }
+  }
+
+  /**
+   * The number of indexed files
+   */
+  get size(): number {
+    return this.owners.size;
+  }
+
+  /**
+   * Index the files of a component and its children. The files of a component that was
+   * already added are replaced, so a changed component can be added again to update them.
+   *
+   * @param component Component to index
+   */
+  public add(component: SourceComponent): void {
+    this.remove(component);
+
+    const key = this.key(component);
+    this.addPaths(key, component, [component.xml, component.content, ...component.walkContent()]);
+
+    const childKeys: string[] = [];
+    for (const child of component.getChildren()) {
+      const childKey = this.key(child);
+      // children of non-decomposed types share the metadata xml of their parent
+      const childPaths = [child.xml, ...child.walkContent()].filter(
+        (fsPath) => fsPath !== component.xml
+      );
+      this.addPaths(childKey, child, childPaths);
+      childKeys.push(childKey);
+    }
+    this.children.set(key, childKeys);
+  }
+
+  /**
+   * Remove the files of a component and its children from the index.
+   *
+   * @param component Component to remove
+   */
+  public remove(component: ComponentLike): void {
+    const key = this.key(component);
+    for (const childKey of this.children.get(key) ?? []) {
+      this.removePaths(childKey);
+    }
+    this.children.delete(key);
+    this.removePaths(key);
+  }
+
+  /**
+   * Get the component a file belongs to.
+   *
+   * @param fsPath Path to a file or directory
+   * @returns The component, or `undefined` if the file isn't part of an indexed component
+   */
+  public getComponent(fsPath: SourcePath): SourceComponent | undefined {
+    let current = fsPath;
+    while (current) {
+      const key = this.owners.get(current);
+      if (key) {
+        return this.components.get(key);
+      }
+      const parent = dirname(current);
+      current = parent !== current ? parent : undefined;
+    }
+  }
+
+  /**
+   * Get the indexed files of a component.
+   *
+   * @param component Component or child component of the index
+   */
+  public getPaths(component: ComponentLike): SourcePath[] {
+    const key = this.key(component);
+    return (this.paths.get(key) ?? []).filter((fsPath) => this.owners.get(fsPath) === key);
+  }
+
+  private addPaths(key: string, component: SourceComponent, fsPaths: SourcePath[]): void {
+    const indexed: SourcePath[] = [];
+    for (const fsPath of fsPaths) {
+      if (fsPath && !indexed.includes(fsPath)) {
+        this.owners.set(fsPath, key);
+        indexed.push(fsPath);
+      }
+    }
+    this.components.set(key, component);
+    this.paths.set(key, indexed);
+  }
+
+  private removePaths(key: string): void {
+    for (const fsPath of this.paths.get(key) ?? []) {
+      if (this.owners.get(fsPath) === key) {
+        this.owners.delete(fsPath);
+      }
+    }
+    this.paths.delete(key);
+    this.components.delete(key);
+  }
+
+  private key(component: ComponentLike): string {
+    const typeId =
+      typeof component.type === 'string' ? component.type.toLowerCase().trim() : component.type.id;
+    return `${typeId}${SourceIndex.KEY_DELIMITER}${component.fullName}`;
+  }
+}
@@ -4,9 +4,22 @@
  * Licensed under the BSD 3-Clause license.
  * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
  */
-import { OptionalTreeRegistryOptions, XML_NS_KEY } from '../common';
+import { OptionalTreeRegistryOptions, SourcePath, XML_NS_KEY } from '../common';
+import { CancellationToken, ForceIgnore, ResolutionCache, SfdxProject } from '../resolve';
 import { ComponentSet } from './componentSet';
 
+/**
+ * The type of destructive change a member of a `ComponentSet` is marked for.
+ *
+ * `pre` - Delete the member before the additions in the package are deployed.
+ *
+ * `post` - Delete the member after the additions in the package are deployed.
+ */
+export enum DestructiveChangesType {
+  Pre = 'pre',
+  Post = 'post',
+}
+
 export interface PackageTypeMembers {
   name: string;
   members: string[];
@@ -21,15 +34,63 @@ export interface PackageManifestObject {
   };
 }
 
+/**
+ * How a `ComponentSet` treats members of types that aren't available in its API version.
+ *
+ * `warn` - Keep the members and emit a warning naming them.
+ *
+ * `exclude` - Leave the members out.
+ */
+export type UnsupportedTypeBehavior = 'warn' | 'exclude';
+
 export interface FromSourceOptions extends OptionalTreeRegistryOptions {
   /**
-   * File paths or directory paths to resolve components against
+   * File paths or directory paths to resolve components against. Defaults to the
+   * package directories of `project`.
    */
-  fsPaths: string[];
+  fsPaths?: string[];
   /**
    * Only resolve components contained in the given set
    */
   include?: ComponentSet;
+  /**
+   * Only resolve components in the package directories of the project, and use its
+   * `sourceApiVersion` as the API version of the set
+   */
+  project?: SfdxProject;
+  /**
+   * Reuse the components of directories that didn't change since an earlier resolve
+   * with the same cache
+   */
+  cache?: ResolutionCache;
+  /**
+   * Skip the paths that can't be resolved instead of throwing an error. The problems of the
+   * skipped paths are available from {@link ComponentSet.getResolutionProblems}.
+   */
+  lenient?: boolean;
+  /**
+   * How to treat components of types that aren't available in the API version of the set.
+   * Defaults to `warn`.
+   */
+  unsupportedTypes?: UnsupportedTypeBehavior;
+}
+
+export interface FromSourceAsyncOptions extends Omit<FromSourceOptions, 'cache' | 'lenient'> {
+  /**
+   * Maximum number of directories to read at the same time
+   */
+  concurrency?: number;
+  /**
+   * Stop resolving when cancellation is requested
+   */
+  cancellationToken?: CancellationToken;
+}
+
+export interface FromJsonOptions extends OptionalTreeRegistryOptions {
+  /**
+   * Ignore rules the rehydrated source-backed components walk their content with
+   */
+  forceIgnore?: ForceIgnore;
 }
 
 export interface FromManifestOptions extends OptionalTreeRegistryOptions {
@@ -53,4 +114,89 @@ export interface FromManifestOptions extends OptionalTreeRegistryOptions {
    * conditions.
    */
   forceAddWildcards?: boolean;
+  /**
+   * How to treat components of types that aren't available in the API version of the set.
+   * Defaults to `warn`.
+   */
+  unsupportedTypes?: UnsupportedTypeBehavior;
+  /**
+   * Path to a destructive changes manifest in XML format. Its members are added to the set
+   * and marked for deletion before the additions of a deploy.
+   */
+  destructivePre?: string;
+  /**
+   * Path to a destructive changes manifest in XML format. Its members are added to the set
+   * and marked for deletion after the additions of a deploy.
+   */
+  destructivePost?: string;
+}
+
+export interface FromGitDiffOptions extends OptionalTreeRegistryOptions {
+  /**
+   * Revision to compare from, e.g. a commit, branch or tag
+   */
+  from: string;
+  /**
+   * Revision to compare to. Defaults to the working tree, including untracked files.
+   *
+   * Changed files are resolved against the files of this revision, unless `tree` is given.
+   */
+  to?: string;
+  /**
+   * Only consider changes to files under these paths, such as package directories
+   */
+  fsPaths?: string[];
+  /**
+   * Path inside of the git repository. Defaults to the current working directory.
+   */
+  repoPath?: string;
+  /**
+   * When deleted components are deleted during a deploy. Defaults to `post`.
+   */
+  destructiveChangesType?: DestructiveChangesType;
+}
+
+/**
+ * Limits of a chunk of a `ComponentSet`, see {@link ComponentSet.chunk}. A limit
+ * that isn't set is unbounded.
+ */
+export interface ChunkLimits {
+  /**
+   * Maximum number of source files in a chunk
+   */
+  maxFiles?: number;
+  /**
+   * Maximum total size in bytes of the source files in a chunk
+   */
+  maxBytes?: number;
+  /**
+   * Maximum number of components in a chunk
+   */
+  maxComponents?: number;
+}
+
+/**
+ * JSON representation of a member of a `ComponentSet`. Source-backed components
+ * additionally carry their name, file paths and parent.
+ */
+export interface SerializedComponent {
+  fullName: string;
+  /**
+   * Id of the metadata type
+   */
+  type: string;
+  name?: string;
+  xml?: SourcePath;
+  content?: SourcePath;
+  parent?: SerializedComponent;
+  destructiveChangesType?: DestructiveChangesType;
+}
+
+/**
+ * JSON representation of a `ComponentSet`, see {@link ComponentSet.toJSON}.
+ */
+export interface SerializedComponentSet {
+  apiVersion: string;
+  fullName?: string;
+  components: SerializedComponent[];
 }
@@ -11,3 +11,4 @@ export const META_XML_SUFFIX = '-meta.xml';
 export const XML_DECL = '<?xml version="1.0" encoding="UTF-8"?>\n';
 export const XML_NS_URL = 'http://soap.sforce.com/2006/04/metadata';
 export const XML_NS_KEY = '@_xmlns';
+export const UNFILED_PUBLIC_FOLDER = 'unfiled$public';
@@ -11,4 +11,5 @@ export {
   XML_DECL,
   XML_NS_URL,
   XML_NS_KEY,
+  UNFILED_PUBLIC_FOLDER,
 } from './constants';
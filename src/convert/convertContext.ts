@@ -5,10 +5,10 @@
  * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
  */
 import { WriteInfo, WriterFormat } from './types';
-import { MetadataComponent, SourceComponent } from '../resolve';
-import { basename, dirname, join, resolve, sep } from 'path';
+import { MetadataComponent, SfdxProject, SourceComponent } from '../resolve';
+import { dirname, join } from 'path';
 import { JsToXml } from './streams';
-import { META_XML_SUFFIX, XML_NS_KEY, XML_NS_URL } from '../common';
+import { META_XML_SUFFIX, SourcePath, XML_NS_KEY, XML_NS_URL } from '../common';
 import { getString, JsonArray, JsonMap } from '@salesforce/ts-types';
 import { ComponentSet } from '../collections';
 import { RecompositionStrategy } from '../registry/types';
@@ -243,29 +243,14 @@ class NonDecompositionFinalizer extends ConvertTransactionFinalizer<NonDecomposi
     const filterSet = new ComponentSet(parents);
 
     const { tree } = parents[0];
-    const projectDir = resolve(dirname(defaultDirectory));
-    const parentDirs = Object.keys(this.state.claimed).map((k) => {
-      const parts = k.split(sep);
-      const partIndex = parts.findIndex((p) => basename(projectDir) === p);
-      return parts[partIndex + 1];
-    });
-
-    const fsPaths = tree
-      .readDirectory(projectDir)
-      .map((p) => join(projectDir, p))
-      .filter((p) => {
-        const dirName = basename(p);
-        // Only return directories that are likely to be a project directory
-        return (
-          tree.isDirectory(p) &&
-          !dirName.startsWith('.') &&
-          dirName !== 'config' &&
-          dirName !== 'node_modules' &&
-          !parentDirs.includes(dirName)
-        );
-      });
-
-    const unprocessedComponents = ComponentSet.fromSource({ fsPaths, include: filterSet })
+    // components with the same name can be in any of the package directories of the project
+    const project = SfdxProject.find(defaultDirectory, tree);
+    const fsPaths = (project
+      ? project.packageDirectories.map((directory) => directory.path)
+      : [defaultDirectory]
+    ).filter((fsPath) => tree.exists(fsPath));
+
+    const unprocessedComponents = ComponentSet.fromSource({ fsPaths, include: filterSet, tree })
       .getSourceComponents()
       .filter((component) => !this.state.claimed[component.xml]);
     return unprocessedComponents.toArray();
@@ -341,6 +326,15 @@ export class ConvertContext {
   public readonly decomposition = new DecompositionFinalizer();
   public readonly recomposition = new RecompositionFinalizer();
   public readonly nonDecomposition = new NonDecompositionFinalizer();
+  private projects = new Map<SourcePath, SfdxProject | undefined>();
+
+  /**
+   * The project of a converted component. Projects are only searched for once per convert.
+   */
+  public getProject(component: SourceComponent): SfdxProject | undefined {
+    const fsPath = component.xml ?? component.content;
+    return fsPath ? SfdxProject.find(dirname(fsPath), component.tree, this.projects) : undefined;
+  }
 
   public async *executeFinalizers(defaultDirectory?: string): AsyncIterable<WriterFormat[]> {
     for (const member of Object.values(this)) {
@@ -21,38 +21,62 @@ import {
   StandardWriter,
   pipeline,
   ZipWriter,
+  TreeWriter,
   ComponentWriter,
 } from './streams';
 import { ConversionError, LibraryError } from '../errors';
 import { SourcePath } from '../common';
-import { ComponentSet } from '../collections';
+import { ComponentSet, DestructiveChangesType } from '../collections';
 import { RegistryAccess } from '../registry';
 
 export class MetadataConverter {
   public static readonly PACKAGE_XML_FILE = 'package.xml';
+  public static readonly DESTRUCTIVE_CHANGES_PRE_XML_FILE = 'destructiveChangesPre.xml';
+  public static readonly DESTRUCTIVE_CHANGES_POST_XML_FILE = 'destructiveChangesPost.xml';
   public static readonly DEFAULT_PACKAGE_PREFIX = 'metadataPackage';
 
   private registry: RegistryAccess;
 
-  constructor(registry = new RegistryAccess()) {
-    this.registry = registry;
+  /**
+   * @param registry Custom registry data. Defaults to the registry of the project in the
+   * current working directory, see {@link RegistryAccess.fromProject}.
+   */
+  constructor(registry?: RegistryAccess) {
+    this.registry = registry ?? RegistryAccess.fromProject();
   }
 
   /**
    * Convert metadata components to another SFDX file format.
    *
-   * @param components Components to convert
+   * When given a `ComponentSet` with members marked for deletion, those members are not
+   * converted. Instead, destructive changes manifests are written alongside the package.xml
+   * for metadata format conversions.
+   *
+   * @param comps Components to convert
    * @param targetFormat Format to convert the component files to
    * @param output Configuration for outputting the converted files
    */
   public async convert(
-    components: Iterable<SourceComponent>,
+    comps: Iterable<SourceComponent> | ComponentSet,
     targetFormat: SfdxFileFormat,
     output: ConvertOutputConfig
   ): Promise<ConvertResult> {
     try {
-      // it's possible the components came from a component set, so this may be redundant in some cases...
-      const cs = new ComponentSet(components, this.registry);
+      let cs: ComponentSet;
+      let components: Iterable<SourceComponent>;
+      if (comps instanceof ComponentSet) {
+        components = comps
+          .getSourceComponents()
+          .filter((component) => !comps.getDestructiveChangesType(component))
+          .toArray();
+        cs = this.getManifestSet(comps, components);
+      } else {
+        cs = new ComponentSet(comps, this.registry);
+        components = comps;
+      }
+      if (output.type !== 'merge' && output.packageName) {
+        cs.fullName = output.packageName;
+      }
       let manifestContents;
       const isSource = targetFormat === 'source';
       const tasks = [];
@@ -64,9 +88,6 @@ export class MetadataConverter {
 
       switch (output.type) {
         case 'directory':
-          if (output.packageName) {
-            cs.fullName = output.packageName;
-          }
           manifestContents = cs.getPackageXml();
           packagePath = this.getPackagePath(output);
           defaultDirectory = packagePath;
@@ -74,18 +95,52 @@ export class MetadataConverter {
           if (!isSource) {
             const manifestPath = join(packagePath, MetadataConverter.PACKAGE_XML_FILE);
             tasks.push(promises.writeFile(manifestPath, manifestContents));
+            for (const destructiveType of cs.getTypesOfDestructiveChanges()) {
+              tasks.push(
+                promises.writeFile(
+                  join(packagePath, this.getDestructiveManifestName(destructiveType)),
+                  cs.getPackageXml(4, destructiveType)
+                )
+              );
+            }
           }
           break;
         case 'zip':
-          if (output.packageName) {
-            cs.fullName = output.packageName;
-          }
           manifestContents = cs.getPackageXml();
           packagePath = this.getPackagePath(output);
           defaultDirectory = packagePath;
           writer = new ZipWriter(packagePath);
           if (!isSource) {
             (writer as ZipWriter).addToZip(manifestContents, MetadataConverter.PACKAGE_XML_FILE);
+            for (const destructiveType of cs.getTypesOfDestructiveChanges()) {
+              (writer as ZipWriter).addToZip(
+                cs.getPackageXml(4, destructiveType),
+                this.getDestructiveManifestName(destructiveType)
+              );
+            }
+          }
+          break;
+        case 'tree':
+          packagePath = output.packageName
+            ? join(output.outputDirectory ?? '.', output.packageName)
+            : normalize(output.outputDirectory ?? '.');
+          defaultDirectory = packagePath;
+          writer = new TreeWriter(packagePath, output.tree, this.registry);
+          if (!isSource) {
+            tasks.push(
+              output.tree.writeFile(
+                join(packagePath, MetadataConverter.PACKAGE_XML_FILE),
+                cs.getPackageXml()
+              )
+            );
+            for (const destructiveType of cs.getTypesOfDestructiveChanges()) {
+              tasks.push(
+                output.tree.writeFile(
+                  join(packagePath, this.getDestructiveManifestName(destructiveType)),
+                  cs.getPackageXml(4, destructiveType)
+                )
+              );
+            }
           }
           break;
         case 'merge':
@@ -114,7 +169,7 @@ export class MetadataConverter {
       if (output.type === 'zip' && !packagePath) {
         result.zipBuffer = (writer as ZipWriter).buffer;
       } else if (output.type !== 'zip') {
-        result.converted = (writer as StandardWriter).converted;
+        result.converted = (writer as TreeWriter).converted;
       }
       return result;
     } catch (e) {
@@ -122,6 +177,28 @@ export class MetadataConverter {
     }
   }
 
+  /**
+   * Get the members to write the manifests of a set for, which are the converted components
+   * and the members marked for deletion. Other members, such as wildcards, don't have files
+   * in the output. The set itself isn't changed.
+   */
+  private getManifestSet(cs: ComponentSet, components: Iterable<SourceComponent>): ComponentSet {
+    const manifestSet = cs.intersect(new ComponentSet(components, this.registry));
+    for (const member of cs) {
+      const deletionType = cs.getDestructiveChangesType(member);
+      if (deletionType) {
+        manifestSet.add(member, deletionType);
+      }
+    }
+    return manifestSet;
+  }
+
+  private getDestructiveManifestName(destructiveType: DestructiveChangesType): string {
+    return destructiveType === DestructiveChangesType.Pre
+      ? MetadataConverter.DESTRUCTIVE_CHANGES_PRE_XML_FILE
+      : MetadataConverter.DESTRUCTIVE_CHANGES_POST_XML_FILE;
+  }
+
   private getPackagePath(outputConfig: DirectoryConfig | ZipConfig): SourcePath | undefined {
     let packagePath: SourcePath;
     const { genUniqueDir = true, outputDirectory, packageName, type } = outputConfig;
@@ -9,7 +9,12 @@ import { createWriteStream } from 'fs';
 import { isAbsolute, join } from 'path';
 import { pipeline as cbPipeline, Readable, Transform, Writable } from 'stream';
 import { promisify } from 'util';
-import { SourceComponent, MetadataResolver } from '../resolve';
+import {
+  SourceComponent,
+  MetadataResolver,
+  NodeFSTreeContainer,
+  WritableTreeContainer,
+} from '../resolve';
 import { SfdxFileFormat, WriteInfo, WriterFormat } from './types';
 import { ensureFileExists } from '../utils/fileSystemHandler';
 import { SourcePath, XML_DECL } from '../common';
@@ -128,13 +133,19 @@ export abstract class ComponentWriter extends Writable {
   }
 }
 
-export class StandardWriter extends ComponentWriter {
+/**
+ * Writes the converted files into a {@link WritableTreeContainer}, such as an in-memory
+ * `VirtualTreeContainer`. The converted components are resolved from that tree.
+ */
+export class TreeWriter extends ComponentWriter {
   public converted: SourceComponent[] = [];
-  private resolver: MetadataResolver;
+  protected tree: WritableTreeContainer;
+  protected resolver: MetadataResolver;
 
-  constructor(rootDestination: SourcePath, resolver = new MetadataResolver()) {
+  constructor(rootDestination: SourcePath, tree: WritableTreeContainer, registry?: RegistryAccess) {
     super(rootDestination);
-    this.resolver = resolver;
+    this.tree = tree;
+    this.resolver = new MetadataResolver(registry, tree);
   }
 
   public async _write(
@@ -154,8 +165,7 @@ export class StandardWriter extends ComponentWriter {
           if (toResolve.length === 0 || chunk.component.type.children) {
             toResolve.push(fullDest);
           }
-          ensureFileExists(fullDest);
-          return pipeline(info.source, createWriteStream(fullDest));
+          return this.writeFile(fullDest, info.source);
         });
 
         // it is a reasonable expectation that when a conversion call exits, the files of
@@ -172,6 +182,30 @@ export class StandardWriter extends ComponentWriter {
     }
     callback(err);
   }
+
+  protected async writeFile(fsPath: SourcePath, source: Readable): Promise<void> {
+    const chunks: Buffer[] = [];
+    for await (const data of source) {
+      chunks.push(Buffer.isBuffer(data) ? data : Buffer.from(data));
+    }
+    await this.tree.writeFile(fsPath, Buffer.concat(chunks));
+  }
+}
+
+/**
+ * Writes the converted files to the file system, streaming each file to its destination
+ * instead of buffering it.
+ */
+export class StandardWriter extends TreeWriter {
+  constructor(rootDestination: SourcePath, resolver = new MetadataResolver()) {
+    super(rootDestination, new NodeFSTreeContainer());
+    this.resolver = resolver;
+  }
+
+  protected writeFile(fsPath: SourcePath, source: Readable): Promise<void> {
+    ensureFileExists(fsPath);
+    return pipeline(source, createWriteStream(fsPath));
+  }
 }
 
 export class ZipWriter extends ComponentWriter {
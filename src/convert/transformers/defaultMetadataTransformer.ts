@@ -73,7 +73,11 @@ export class DefaultMetadataTransformer extends BaseMetadataTransformer {
       }
       return mergeWith.content;
     }
-    return component.getPackageRelativePath(source, targetFormat);
+    return component.getPackageRelativePath(
+      source,
+      targetFormat,
+      this.context.getProject(component)
+    );
   }
 
   // assumes component has xml
@@ -87,7 +91,11 @@ export class DefaultMetadataTransformer extends BaseMetadataTransformer {
     }
 
     const { folderContentType, suffix } = component.type;
-    let xmlDestination = component.getPackageRelativePath(component.xml, targetFormat);
+    let xmlDestination = component.getPackageRelativePath(
+      component.xml,
+      targetFormat,
+      this.context.getProject(component)
+    );
 
     // quirks:
     // - append or strip the -meta.xml suffix to the path if there's no content
@@ -9,12 +9,12 @@ import { WriteInfo } from '..';
 import { create as createArchive } from 'archiver';
 import { getExtension } from 'mime';
 import { Open } from 'unzipper';
-import { basename, dirname, join } from 'path';
+import { basename, dirname, join, relative } from 'path';
 import { baseName } from '../../utils';
 import { JsonMap } from '@salesforce/ts-types';
 import { Readable } from 'stream';
 import { LibraryError } from '../../errors';
-import { SourceComponent } from '../../resolve';
+import { NodeFSTreeContainer, SourceComponent } from '../../resolve';
 import { SourcePath } from '../../common';
 
 export class StaticResourceMetadataTransformer extends BaseMetadataTransformer {
@@ -40,7 +40,14 @@ export class StaticResourceMetadataTransformer extends BaseMetadataTransformer {
 
     if (await this.componentIsExpandedArchive(component)) {
       const zip = createArchive('zip', { zlib: { level: 3 } });
-      zip.directory(content, false);
+      if (component.tree instanceof NodeFSTreeContainer) {
+        zip.directory(content, false);
+      } else {
+        // archiver can only read directories from the file system
+        for (const fsPath of component.walkContent()) {
+          zip.append(component.tree.stream(fsPath), { name: relative(content, fsPath) });
+        }
+      }
       zip.finalize();
       contentSource = zip;
     } else {
@@ -100,7 +107,12 @@ export class StaticResourceMetadataTransformer extends BaseMetadataTransformer {
 
   private getBaseContentPath(component: SourceComponent, mergeWith?: SourceComponent): SourcePath {
     const baseContentPath =
-      mergeWith?.content || component.getPackageRelativePath(component.content, 'source');
+      mergeWith?.content ||
+      component.getPackageRelativePath(
+        component.content,
+        'source',
+        this.context.getProject(component)
+      );
     return join(dirname(baseContentPath), baseName(baseContentPath));
   }
 
@@ -6,7 +6,7 @@
  */
 import { SourcePath } from '../common/types';
 import { Readable } from 'stream';
-import { MetadataComponent, SourceComponent } from '../resolve';
+import { MetadataComponent, SourceComponent, WritableTreeContainer } from '../resolve';
 
 // --------------
 // INTERNAL
@@ -54,6 +54,20 @@ export type ZipConfig = PackageName &
     outputDirectory?: SourcePath;
   };
 
+export type TreeConfig = PackageName & {
+  type: 'tree';
+  /**
+   * Tree to write the converted package to, e.g. an empty `VirtualTreeContainer` to
+   * convert in memory.
+   */
+  tree: WritableTreeContainer;
+  /**
+   * Directory path of the tree to output the converted package to. Default is the
+   * current directory of the tree.
+   */
+  outputDirectory?: SourcePath;
+};
+
 export type MergeConfig = {
   type: 'merge';
   /**
@@ -87,7 +101,7 @@ export interface MetadataTransformer {
  */
 export type SfdxFileFormat = 'metadata' | 'source';
 
-export type ConvertOutputConfig = DirectoryConfig | ZipConfig | MergeConfig;
+export type ConvertOutputConfig = DirectoryConfig | ZipConfig | TreeConfig | MergeConfig;
 
 export type ConvertResult = {
   /**
@@ -99,7 +113,8 @@ export type ConvertResult = {
    */
   zipBuffer?: Buffer;
   /**
-   * Converted source components. Not set if archving the package.
+   * Converted source components. Not set if archving the package. Components converted
+   * to a tree are bound to that tree.
    */
   converted?: SourceComponent[];
 };
@@ -10,9 +10,15 @@ import { SourcePath } from '../common';
 import { MetadataType } from '../registry';
 
 export class LibraryError extends Error {
+  /**
+   * Key of the message in the i18n messages, identifying the kind of error
+   */
+  public readonly messageKey: string;
+
   constructor(messageKey: string, args?: string | string[]) {
     super(nls.localize(messageKey, args));
     this.name = this.constructor.name;
+    this.messageKey = messageKey;
     Error.captureStackTrace(this, this.constructor);
   }
 }
@@ -39,6 +45,34 @@ export class ExpectedSourceFilesError extends RegistryError {
   }
 }
 
+/**
+ * A type that isn't defined in the registry, with the names of similarly named types that are.
+ */
+export class MissingTypeError extends RegistryError {
+  public readonly typeName: string;
+  public readonly suggestions: string[];
+
+  /**
+   * @param typeName Name of the missing type
+   * @param suggestions Names of similarly named types
+   * @param parentTypeId Id of the type that is expected to have the missing type as a child
+   */
+  constructor(typeName: string, suggestions: string[] = [], parentTypeId?: string) {
+    super(
+      parentTypeId ? 'error_missing_child_type_definition' : 'error_missing_type_definition',
+      parentTypeId ? [parentTypeId, typeName] : typeName
+    );
+    this.typeName = typeName;
+    this.suggestions = suggestions;
+    if (suggestions.length > 0) {
+      this.message = `${this.message}. ${nls.localize(
+        'suggestion_did_you_mean',
+        suggestions.join(', ')
+      )}`;
+    }
+  }
+}
+
 export class UnexpectedForceIgnore extends RegistryError {
   constructor(messageKey: string, args?: string | string[]) {
     super(messageKey, args);
@@ -79,6 +113,24 @@ export class ComponentSetError extends LibraryError {
   }
 }
 
+export class GitError extends LibraryError {
+  constructor(messageKey: string, args?: string | string[]) {
+    super(messageKey, args);
+  }
+}
+
+export class SfdxProjectError extends LibraryError {
+  constructor(messageKey: string, args?: string | string[]) {
+    super(messageKey, args);
+  }
+}
+
+export class ResolutionCanceledError extends LibraryError {
+  constructor(fsPath: string) {
+    super('error_resolve_canceled', fsPath);
+  }
+}
+
 export class MetadataApiRetrieveError extends LibraryError {
   constructor(messageKey: string, args?: string | string[]) {
     super(messageKey, args);
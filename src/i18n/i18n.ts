@@ -40,11 +40,15 @@ export const messages = {
   error_missing_transformer: "Missing transformer '%s' for metadata type '%s'",
   error_missing_metadata_xml: "%s: Metadata xml file missing for '%s'",
   error_unsupported_content_metadata_xml: "%s: Unsupported content xml file for '%s'",
+  error_invalid_registry_overlay: '%s: Invalid registry customizations: %s',
+  error_invalid_describe_result: '%s: Invalid describeMetadata result: %s',
+  error_invalid_type_overrides: '%s: Invalid type overrides: %s',
   error_missing_type_definition: "Missing metadata type definition in registry for id '%s'",
   error_missing_child_type_definition: 'Type %s does not have a child type definition %s',
   error_no_metadata_xml_ignore: 'Metadata xml file %s is forceignored but is required for %s',
   error_no_source_ignore: '%s types require source to be present and %s is forceignored.',
   error_path_not_found: '%s: File or folder not found',
+  error_resolve_canceled: '%s: Resolving components was canceled',
   tapi_retrieve_component_limit_error:
     'This retrieve method only supports retrieving one metadata component at a time',
   error_on_manifest_creation: "Unexpected error while creating manifest for '%s'. Stack trace: %s",
@@ -54,16 +58,36 @@ export const messages = {
   error_parsing_xml: 'SourceComponent %s does not have an associated metadata xml to parse',
   error_expected_file_path: '%s: path is to a directory, expected a file',
   error_expected_directory_path: '%s: path is to a file, expected a directory',
+  error_invalid_tar_archive: 'Invalid tar archive: bad header checksum at offset %s',
+  error_invalid_zip_entry: 'Invalid zip archive: missing local file header for %s',
+  error_unsupported_zip_compression: 'Cannot read %s: unsupported zip compression method %s',
   error_no_directory_stream: '%s does not support readable streams on directories',
   error_no_source_to_deploy: 'No source backed components present in the package',
+  error_missing_package_xml: '%s: Expected a package.xml file in the metadata package',
+  error_chunked_package_deploy:
+    'A metadata package is deployed as-is and can not be split into chunks',
+  error_conflicting_manifest_member: "Member '%s' of type '%s' can't be in both %s and %s",
+  error_git_command: "Git command 'git %s' failed: %s",
+  error_invalid_project_file: '%s: Invalid project file: %s',
+  error_no_package_directories: '%s: Project file does not define any packageDirectories',
   error_no_components_to_retrieve: 'No components in the package to retrieve',
   error_invalid_package: 'The metadata pacakge was not initialized properly',
   error_static_resource_expected_archive_type:
     'A StaticResource directory must have a content type of application/zip or application/jar - found %s for %s',
   error_no_job_id:
     'The %s operation is missing a job ID. Initialize an operation with an ID, or start a new job.',
+  suggestion_could_not_infer_type:
+    'Move the file into the directory of its metadata type, rename it to use the suffix of its type, or add it to .forceignore',
+  suggestion_did_you_mean: 'Did you mean %s?',
+  suggestion_expected_source_files:
+    'Add the missing source files of the component, or remove its metadata xml file',
+  suggestion_no_metadata_xml_ignore: 'Remove the metadata xml file from .forceignore',
+  suggestion_no_source_ignore:
+    'Remove the source files from .forceignore, or ignore the whole component',
   tapi_deploy_component_limit_error:
     'This deploy method only supports deploying one metadata component at a time',
+  warn_unsupported_types:
+    'The following components are of types not available in API version %s: %s',
   warn_unresolved_source_for_components:
     'The following components will not be deployed due to unresolved source: %s',
 };
@@ -11,6 +11,9 @@ export {
   MetadataApiRetrieve,
   MetadataApiRetrieveOptions,
   RetrieveResult,
+  MetadataApiBatchRetrieve,
+  MetadataApiBatchRetrieveOptions,
+  BatchRetrieveResult,
   ToolingApi,
   ToolingDeployOptions,
   ToolingRetrieveOptions,
@@ -33,17 +36,62 @@ export {
   MetadataResolver,
   VirtualTreeContainer,
   ZipTreeContainer,
+  TarTreeContainer,
+  GitTreeContainer,
   SourceComponent,
   TreeContainer,
+  WritableTreeContainer,
   VirtualDirectory,
   ForceIgnore,
+  SfdxProject,
+  PackageDirectory,
+  ResolutionCache,
+  CancellationToken,
+  ResolveAsyncOptions,
+  ResolutionProblem,
+  LenientResolveResult,
+  ComponentWatcher,
+  ComponentWatcherOptions,
+  ComponentChangeEvent,
+  FileEvent,
+  FileEventSource,
+  NodeFSEventSource,
+  CONFORMANCE_FILES,
+  TREE_CONTAINER_CONFORMANCE_TESTS,
+  ConformanceFile,
+  ConformanceTest,
+  ConformanceFailure,
+  runConformanceTests,
 } from './resolve';
 export { SourcePath } from './common';
 export {
   ComponentSet,
+  DependencyGraph,
+  SourceIndex,
   FromManifestOptions,
   FromSourceOptions,
+  FromSourceAsyncOptions,
+  FromJsonOptions,
+  FromGitDiffOptions,
+  ChunkLimits,
   DeploySetOptions,
   RetrieveSetOptions,
+  DestructiveChangesType,
+  SerializedComponent,
+  SerializedComponentSet,
+  UnsupportedTypeBehavior,
 } from './collections';
-export { MetadataType, RegistryAccess, registry } from './registry';
+export {
+  FolderTypePair,
+  MetadataType,
+  MetadataTypeOverlay,
+  RegistryAccess,
+  RegistryOverlay,
+  RegistryProblem,
+  registry,
+  validateRegistry,
+  RegistryDiff,
+  RegistryUpdateOptions,
+  DescribeMetadataResult,
+  updateRegistry,
+} from './registry';
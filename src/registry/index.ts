@@ -6,9 +6,23 @@
  */
 export { registry } from './registry';
 export { RegistryAccess } from './registryAccess';
+export { RegistryOverlay, MetadataTypeOverlay, applyRegistryOverlay } from './registryOverlay';
+export { RegistryProblem, validateRegistry } from './registryValidator';
 export {
+  ChildTypeAddition,
+  DescribeMetadataObject,
+  DescribeMetadataResult,
+  RegistryDiff,
+  RegistryUpdateOptions,
+  SuffixChange,
+  TypeOverrides,
+  updateRegistry,
+} from './registryUpdate';
+export {
+  FolderTypePair,
   MetadataType,
   MetadataRegistry,
+  AdapterStrategy,
   DecompositionStrategy,
   TransformerStrategy,
 } from './types';
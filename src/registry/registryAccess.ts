@@ -4,25 +4,180 @@
  * Licensed under the BSD 3-Clause license.
  * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
  */
+import { join } from 'path';
 import { registry as defaultRegistry } from './registry';
-import { RegistryError } from '../errors';
-import { MetadataRegistry, MetadataType } from './types';
+import { MissingTypeError, RegistryError, SfdxProjectError } from '../errors';
+import {
+  AdapterStrategy,
+  FolderTypePair,
+  MetadataRegistry,
+  MetadataType,
+  TransformerStrategy,
+} from './types';
+import { applyRegistryOverlay, RegistryOverlay } from './registryOverlay';
+import { SourcePath } from '../common';
+import { SfdxProject } from '../resolve/sfdxProject';
+import { NodeFSTreeContainer, TreeContainer } from '../resolve/treeContainers';
+
+/**
+ * Number of edits to turn one string into another, i.e. the Levenshtein distance.
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
 
 /**
  * Container for querying metadata registry data.
+ *
+ * A registry can be scoped to an API version, see {@link RegistryAccess.forApiVersion}.
  */
 export class RegistryAccess {
+  private static projectRegistries = new Map<string, MetadataRegistry>();
   private registry: MetadataRegistry;
+  private scopedApiVersion?: string;
 
-  constructor(registry: MetadataRegistry = defaultRegistry) {
+  /**
+   * @param registry Registry data to query
+   * @param apiVersion Scope the queries to the types available in this API version
+   */
+  constructor(registry: MetadataRegistry = defaultRegistry, apiVersion?: string) {
     this.registry = registry;
+    this.scopedApiVersion = apiVersion;
+  }
+
+  /**
+   * Create a registry from the default registry with an overlay merged over it.
+   *
+   * @param overlay Types and indexes to add or change
+   * @param source Where the overlay came from, to name in validation errors
+   */
+  public static fromOverlay(overlay: RegistryOverlay, source?: string): RegistryAccess {
+    return new RegistryAccess(applyRegistryOverlay(defaultRegistry, overlay, source));
+  }
+
+  /**
+   * Create a registry from the default registry with the overlay of a JSON file merged over it.
+   * See {@link RegistryOverlay} for the format of the file.
+   *
+   * @param filePath Path to the JSON file
+   * @param tree `TreeContainer` to read the file from
+   */
+  public static fromFile(
+    filePath: SourcePath,
+    tree: TreeContainer = new NodeFSTreeContainer()
+  ): RegistryAccess {
+    return RegistryAccess.fromOverlay(RegistryAccess.readOverlay(filePath, tree), filePath);
+  }
+
+  /**
+   * Create the registry of a project. The `registryCustomizations` key of the project file
+   * is merged over the default registry. It is either an overlay, or the path of a JSON file
+   * with the overlay relative to the project. Projects without customizations, and paths
+   * without a project that can be loaded, use the default registry.
+   *
+   * This is the registry the library uses when it isn't given one, found from the project
+   * or paths of the operation.
+   *
+   * @param project Project, or a path to search upwards from for one. Defaults to the
+   * current working directory.
+   * @param tree `TreeContainer` to read the project from
+   * @throws {@link RegistryError} if the customizations of the project are invalid
+   */
+  public static fromProject(
+    project: SfdxProject | SourcePath = process.cwd(),
+    tree: TreeContainer = new NodeFSTreeContainer()
+  ): RegistryAccess {
+    let sfdxProject: SfdxProject;
+    try {
+      sfdxProject = typeof project === 'string' ? SfdxProject.resolve(project, tree) : project;
+    } catch (e) {
+      if (e instanceof SfdxProjectError) {
+        return new RegistryAccess();
+      }
+      throw e;
+    }
+    const customizations = sfdxProject?.registryCustomizations;
+    if (!customizations) {
+      return new RegistryAccess();
+    }
+
+    let overlay: RegistryOverlay;
+    let source: string;
+    if (typeof customizations === 'string') {
+      source = join(sfdxProject.path, customizations);
+      overlay = RegistryAccess.readOverlay(source, tree);
+    } else {
+      source = join(sfdxProject.path, SfdxProject.FILE_NAME);
+      overlay = customizations;
+    }
+    // merging is repeated for every resolve otherwise, so reuse the registry of an unchanged overlay
+    const key = `${source}:${JSON.stringify(overlay)}`;
+    if (!RegistryAccess.projectRegistries.has(key)) {
+      RegistryAccess.projectRegistries.set(
+        key,
+        applyRegistryOverlay(defaultRegistry, overlay, source)
+      );
+    }
+    return new RegistryAccess(RegistryAccess.projectRegistries.get(key));
+  }
+
+  private static readOverlay(filePath: SourcePath, tree: TreeContainer): RegistryOverlay {
+    try {
+      return JSON.parse(tree.readFileSync(filePath).toString());
+    } catch (e) {
+      throw new RegistryError('error_invalid_registry_overlay', [filePath, e.message]);
+    }
+  }
+
+  /**
+   * Create a registry with the same data, scoped to the types available in an API version.
+   *
+   * Types that aren't available are left out of the suffix, strict folder and predicate
+   * queries, so files of those types aren't resolved. They can still be queried by name to
+   * report them, e.g. when they are listed in a manifest.
+   *
+   * @param apiVersion API version to scope the registry to, e.g. `48.0`
+   * @returns A registry scoped to the API version
+   */
+  public forApiVersion(apiVersion: string): RegistryAccess {
+    return new RegistryAccess(this.registry, apiVersion);
+  }
+
+  /**
+   * Whether a type is available in an API version, according to its
+   * {@link MetadataType.introducedIn} and {@link MetadataType.removedIn} versions.
+   *
+   * @param type Type to check
+   * @param apiVersion Defaults to the API version of the registry
+   */
+  public isSupported(type: MetadataType, apiVersion = this.apiVersion): boolean {
+    const version = parseFloat(apiVersion);
+    if (isNaN(version)) {
+      return true;
+    }
+    if (type.introducedIn && version < parseFloat(type.introducedIn)) {
+      return false;
+    }
+    return !(type.removedIn && version >= parseFloat(type.removedIn));
   }
 
   /**
-   * Query a metadata type by its name.
+   * Query a metadata type by its name. Child types are returned as they are defined on their
+   * parent type. Types that aren't available in the API version of a scoped registry are
+   * returned as well.
    *
    * @param name - Case-insensitive name of the metadata type
    * @returns The corresponding metadata type object
+   * @throws {@link MissingTypeError} with the names of similarly named types if the type isn't defined
    */
   public getTypeByName(name: string): MetadataType {
     const lower = name.toLowerCase().trim();
@@ -32,10 +187,10 @@ export class RegistryAccess {
       if (childType) {
         return childType;
       }
-      throw new RegistryError('error_missing_child_type_definition', [parentTypeId, lower]);
+      throw new MissingTypeError(lower, [], parentTypeId);
     }
     if (!this.registry.types[lower]) {
-      throw new RegistryError('error_missing_type_definition', lower);
+      throw new MissingTypeError(lower, this.getSimilarTypeNames(lower));
     }
     return this.registry.types[lower];
   }
@@ -49,7 +204,8 @@ export class RegistryAccess {
   public getTypeBySuffix(suffix: string): MetadataType | undefined {
     if (this.registry.suffixes[suffix]) {
       const typeId = this.registry.suffixes[suffix];
-      return this.getTypeByName(typeId);
+      const type = this.getTypeByName(typeId);
+      return this.isInScope(type) ? type : undefined;
     }
   }
 
@@ -61,7 +217,9 @@ export class RegistryAccess {
    * @returns The first metadata type object that fulfills the predicate
    */
   public findType(predicate: (type: MetadataType) => boolean): MetadataType {
-    return Object.values(this.registry.types).find(predicate);
+    return Object.values(this.registry.types).find(
+      (type) => this.isInScope(type) && predicate(type)
+    );
   }
 
   /**
@@ -71,12 +229,133 @@ export class RegistryAccess {
    * @returns An array of metadata type objects that require strict parent folder names
    */
   public getStrictFolderTypes(): MetadataType[] {
-    return Object.values(this.registry.strictDirectoryNames).map(
-      (typeId) => this.registry.types[typeId]
+    return Object.values(this.registry.strictDirectoryNames)
+      .map((typeId) => this.registry.types[typeId])
+      .filter((type) => this.isInScope(type));
+  }
+
+  /**
+   * Query the metadata types of the registry.
+   *
+   * @param includeChildren - Whether to include child types, each following its parent type
+   * @returns An array of metadata type objects
+   */
+  public getTypes(includeChildren = false): MetadataType[] {
+    const types: MetadataType[] = [];
+    for (const type of Object.values(this.registry.types)) {
+      if (this.isInScope(type)) {
+        types.push(type);
+        if (includeChildren) {
+          types.push(...Object.values(type.children?.types ?? {}));
+        }
+      }
+    }
+    return types;
+  }
+
+  /**
+   * Query the types whose components are located in a directory of the given name. Several
+   * types can share a directory, such as a folder type and the type it contains.
+   *
+   * @param directoryName - Name of the directory, e.g. `objects` or `fields`
+   * @returns An array of metadata type objects, including child types
+   */
+  public getTypesByDirectoryName(directoryName: string): MetadataType[] {
+    return this.getTypes(true).filter((type) => type.directoryName === directoryName);
+  }
+
+  /**
+   * Query the parent of a child type.
+   *
+   * @param type - Child type, or its case-insensitive name
+   * @returns The parent metadata type object, or `undefined` if the type isn't a child type
+   * @throws {@link MissingTypeError} if the type isn't defined
+   */
+  public getParentType(type: MetadataType | string): MetadataType | undefined {
+    const { id } = this.getType(type);
+    const parentTypeId = this.registry.childTypes[id];
+    return parentTypeId ? this.registry.types[parentTypeId] : undefined;
+  }
+
+  /**
+   * Query the child types of a type.
+   *
+   * @param type - Parent type, or its case-insensitive name
+   * @returns An array of metadata type objects, empty if the type has no children
+   * @throws {@link MissingTypeError} if the type isn't defined
+   */
+  public getChildTypes(type: MetadataType | string): MetadataType[] {
+    return Object.values(this.getType(type).children?.types ?? {});
+  }
+
+  /**
+   * Query the folder types with the types of the components they contain.
+   * @see {@link MetadataType.folderType}
+   *
+   * @returns An array of folder and content type pairs
+   */
+  public getFolderTypePairs(): FolderTypePair[] {
+    return this.getTypes()
+      .filter((type) => this.registry.types[type.folderType])
+      .map((type) => ({ folderType: this.registry.types[type.folderType], contentType: type }));
+  }
+
+  /**
+   * Query the types that are resolved with an adapter strategy. Types without an adapter
+   * strategy use the default one.
+   *
+   * @param adapter - Adapter strategy of the types
+   * @returns An array of metadata type objects
+   */
+  public getTypesByAdapter(adapter: AdapterStrategy): MetadataType[] {
+    return this.getTypes().filter(
+      (type) => (type.strategies?.adapter ?? AdapterStrategy.Default) === adapter
+    );
+  }
+
+  /**
+   * Query the types that are converted with a transformer strategy. Types without a
+   * transformer strategy use the standard one.
+   *
+   * @param transformer - Transformer strategy of the types
+   * @returns An array of metadata type objects
+   */
+  public getTypesByTransformer(transformer: TransformerStrategy): MetadataType[] {
+    return this.getTypes().filter(
+      (type) => (type.strategies?.transformer ?? TransformerStrategy.Standard) === transformer
     );
   }
 
+  /**
+   * The API version the registry is scoped to, or else the version of the registry data.
+   */
   get apiVersion(): string {
-    return this.registry.apiVersion;
+    return this.scopedApiVersion ?? this.registry.apiVersion;
+  }
+
+  private getType(type: MetadataType | string): MetadataType {
+    return this.getTypeByName(typeof type === 'string' ? type : type.id);
+  }
+
+  /**
+   * Names of the types, including child types, that are at most a few edits away from a name,
+   * closest first.
+   */
+  private getSimilarTypeNames(name: string): string[] {
+    const maxDistance = Math.max(2, Math.floor(name.length / 4));
+    const types: MetadataType[] = [];
+    for (const type of Object.values(this.registry.types)) {
+      types.push(type, ...Object.values(type.children?.types ?? {}));
+    }
+    return types
+      .map((type): [string, number] => [type.name, editDistance(name, type.id)])
+      .filter(([, distance]) => distance <= maxDistance)
+      .sort(([, a], [, b]) => a - b)
+      .slice(0, 3)
+      .map(([typeName]) => typeName);
+  }
+
+  private isInScope(type: MetadataType): boolean {
+    return !this.scopedApiVersion || this.isSupported(type, this.scopedApiVersion);
   }
 }
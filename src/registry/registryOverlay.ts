@@ -0,0 +1,258 @@
+/*
+ * Copyright (c) 2021, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { RegistryError } from '../errors';
+import { deepMerge } from '../utils';
+import { RegistryProblem, validateRegistry } from './registryValidator';
+import { MetadataRegistry, MetadataType } from './types';
+
+/**
+ * The properties of a metadata type to add or change, including those of its child types.
+ */
+export type MetadataTypeOverlay = Partial<Omit<MetadataType, 'children'>> & {
+  children?: {
+    types?: { [typeId: string]: MetadataTypeOverlay };
+    suffixes?: { [suffix: string]: string };
+    directories?: { [directoryName: string]: string };
+  };
+};
+
+/**
+ * A partial registry that is merged over another registry to add metadata types, or to
+ * change the definitions of existing ones.
+ *
+ * Only the properties of a type that change need to be given. The suffix, strict directory
+ * and child type indexes are updated from the merged type definitions, so they only need
+ * to be given to map other keys.
+ *
+ * ```
+ * {
+ *   "types": {
+ *     "apexclass": { "suffix": "apex" },
+ *     "myconfig": { "id": "myconfig", "name": "MyConfig", "suffix": "myconfig", "directoryName": "myconfigs" }
+ *   }
+ * }
+ * ```
+ */
+export interface RegistryOverlay {
+  types?: { [typeId: string]: MetadataTypeOverlay };
+  suffixes?: { [suffix: string]: string };
+  strictDirectoryNames?: { [directoryName: string]: string };
+  childTypes?: { [childTypeId: string]: string };
+  apiVersion?: string;
+}
+
+type JsonObject = { [key: string]: unknown };
+
+const OVERLAY_KEYS = ['types', 'suffixes', 'strictDirectoryNames', 'childTypes', 'apiVersion'];
+const STRING_PROPERTIES = [
+  'id',
+  'name',
+  'directoryName',
+  'suffix',
+  'folderContentType',
+  'folderType',
+  'uniqueIdElement',
+  'introducedIn',
+  'removedIn',
+];
+const BOOLEAN_PROPERTIES = ['inFolder', 'strictDirectoryName', 'ignoreParentName'];
+const STRATEGY_KEYS = ['adapter', 'transformer', 'decomposition', 'recomposition'];
+const CHILDREN_KEYS = ['types', 'suffixes', 'directories'];
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks the shape of an overlay, collecting a message for each offending key.
+ */
+class OverlayValidator {
+  public readonly problems: string[] = [];
+
+  public validate(overlay: unknown): void {
+    if (!isObject(overlay)) {
+      this.problems.push('(root): expected an object');
+      return;
+    }
+    for (const [key, value] of Object.entries(overlay)) {
+      if (!OVERLAY_KEYS.includes(key)) {
+        this.problems.push(`${key}: unknown key, expected one of ${OVERLAY_KEYS.join(', ')}`);
+      } else if (key === 'apiVersion') {
+        if (typeof value !== 'string' || !/^\d+\.0$/.test(value)) {
+          this.problems.push(`${key}: expected a version such as "52.0"`);
+        }
+      } else if (key === 'types') {
+        this.validateTypes(value, key);
+      } else {
+        this.validateIndex(value, key);
+      }
+    }
+  }
+
+  private validateTypes(types: unknown, key: string): void {
+    if (!isObject(types)) {
+      this.problems.push(`${key}: expected an object of type definitions`);
+      return;
+    }
+    for (const [typeId, type] of Object.entries(types)) {
+      this.validateType(type, typeId, `${key}.${typeId}`);
+    }
+  }
+
+  private validateType(type: unknown, typeId: string, key: string): void {
+    if (!isObject(type)) {
+      this.problems.push(`${key}: expected a type definition object`);
+      return;
+    }
+    for (const [property, value] of Object.entries(type)) {
+      const propertyKey = `${key}.${property}`;
+      if (STRING_PROPERTIES.includes(property)) {
+        if (typeof value !== 'string') {
+          this.problems.push(`${propertyKey}: expected a string`);
+        } else if (property === 'id' && value !== typeId) {
+          this.problems.push(`${propertyKey}: expected the id to match its key '${typeId}'`);
+        }
+      } else if (BOOLEAN_PROPERTIES.includes(property)) {
+        if (typeof value !== 'boolean') {
+          this.problems.push(`${propertyKey}: expected a boolean`);
+        }
+      } else if (property === 'strategies') {
+        this.validateStrategies(value, propertyKey);
+      } else if (property === 'children') {
+        this.validateChildren(value, propertyKey);
+      } else {
+        this.problems.push(`${propertyKey}: unknown type property`);
+      }
+    }
+  }
+
+  private validateStrategies(strategies: unknown, key: string): void {
+    if (!isObject(strategies)) {
+      this.problems.push(`${key}: expected an object`);
+      return;
+    }
+    for (const [strategy, value] of Object.entries(strategies)) {
+      if (!STRATEGY_KEYS.includes(strategy)) {
+        this.problems.push(`${key}.${strategy}: unknown strategy`);
+      } else if (typeof value !== 'string') {
+        this.problems.push(`${key}.${strategy}: expected a string`);
+      }
+    }
+  }
+
+  private validateChildren(children: unknown, key: string): void {
+    if (!isObject(children)) {
+      this.problems.push(`${key}: expected an object`);
+      return;
+    }
+    for (const [childKey, value] of Object.entries(children)) {
+      if (!CHILDREN_KEYS.includes(childKey)) {
+        this.problems.push(`${key}.${childKey}: unknown key`);
+      } else if (childKey === 'types') {
+        this.validateTypes(value, `${key}.types`);
+      } else {
+        this.validateIndex(value, `${key}.${childKey}`);
+      }
+    }
+  }
+
+  private validateIndex(index: unknown, key: string): void {
+    if (!isObject(index)) {
+      this.problems.push(`${key}: expected an object of type ids`);
+      return;
+    }
+    for (const [entry, typeId] of Object.entries(index)) {
+      if (typeof typeId !== 'string') {
+        this.problems.push(`${key}.${entry}: expected a type id`);
+      }
+    }
+  }
+}
+
+function indexChildren(type: MetadataType, overlayType: MetadataTypeOverlay): void {
+  for (const [childId, child] of Object.entries(overlayType.children?.types ?? {})) {
+    const merged = type.children.types[childId];
+    merged.id = childId;
+    if (child.suffix) {
+      type.children.suffixes = type.children.suffixes ?? {};
+      type.children.suffixes[merged.suffix] = childId;
+    }
+    if (child.directoryName) {
+      type.children.directories = type.children.directories ?? {};
+      type.children.directories[merged.directoryName] = childId;
+    }
+  }
+}
+
+/**
+ * Merge an overlay over a registry. The given registry isn't changed.
+ *
+ * @param registry Registry to merge the overlay over
+ * @param overlay Types and indexes to add or change
+ * @param source Where the overlay came from, e.g. the path of its file, to name in errors
+ * @returns A new registry with the overlay merged in
+ * @throws {@link RegistryError} naming every offending key if the overlay is invalid, or if
+ * the merged registry has inconsistencies the given one doesn't, see {@link validateRegistry}
+ */
+export function applyRegistryOverlay(
+  registry: MetadataRegistry,
+  overlay: RegistryOverlay,
+  source = 'registry overlay'
+): MetadataRegistry {
+  const validator = new OverlayValidator();
+  validator.validate(overlay);
+  const { problems } = validator;
+
+  const result: MetadataRegistry = JSON.parse(JSON.stringify(registry));
+  result.suffixes = result.suffixes ?? {};
+  if (problems.length === 0) {
+    for (const [typeId, overlayType] of Object.entries(overlay.types ?? {})) {
+      const existing = result.types[typeId];
+      const previousSuffix = existing?.suffix;
+      const type = deepMerge(existing ?? ({} as MetadataType), overlayType);
+      type.id = typeId;
+      result.types[typeId] = type;
+
+      if (overlayType.suffix) {
+        if (previousSuffix && result.suffixes[previousSuffix] === typeId) {
+          delete result.suffixes[previousSuffix];
+        }
+        result.suffixes[type.suffix] = typeId;
+      }
+      if (type.strictDirectoryName && type.directoryName) {
+        result.strictDirectoryNames[type.directoryName] = typeId;
+      }
+      if (overlayType.children) {
+        indexChildren(type, overlayType);
+        for (const childId of Object.keys(overlayType.children.types ?? {})) {
+          result.childTypes[childId] = typeId;
+        }
+      }
+    }
+
+    Object.assign(result.suffixes, overlay.suffixes);
+    Object.assign(result.strictDirectoryNames, overlay.strictDirectoryNames);
+    Object.assign(result.childTypes, overlay.childTypes);
+    if (overlay.apiVersion) {
+      result.apiVersion = overlay.apiVersion;
+    }
+
+    // only report the inconsistencies the overlay introduced
+    const format = (p: RegistryProblem): string => `${p.location}: ${p.message}`;
+    const existing = new Set(validateRegistry(registry).map(format));
+    for (const problem of validateRegistry(result).map(format)) {
+      if (!existing.has(problem)) {
+        problems.push(problem);
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new RegistryError('error_invalid_registry_overlay', [source, problems.join('; ')]);
+  }
+  return result;
+}
@@ -0,0 +1,253 @@
+/*
+ * Copyright (c) 2021, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { SourcePath } from '../common';
+import { RegistryError } from '../errors';
+import { NodeFSTreeContainer, TreeContainer } from '../resolve/treeContainers';
+import { deepMerge, normalizeToArray } from '../utils';
+import { MetadataTypeOverlay } from './registryOverlay';
+import { RegistryProblem, validateRegistry } from './registryValidator';
+import { MetadataRegistry, MetadataType } from './types';
+
+/**
+ * A metadata type of a `describeMetadata()` response. Booleans may be strings, as in the
+ * JSON output of the Salesforce CLI.
+ */
+export interface DescribeMetadataObject {
+  xmlName: string;
+  suffix?: string;
+  directoryName?: string;
+  inFolder?: boolean | string;
+  metaFile?: boolean | string;
+  childXmlNames?: string | string[];
+}
+
+export interface DescribeMetadataResult {
+  metadataObjects: DescribeMetadataObject[];
+  organizationNamespace?: string;
+  partialSaveAllowed?: boolean | string;
+  testRequired?: boolean | string;
+}
+
+/**
+ * Changes to the generated definitions of types, keyed by the id of the generated type.
+ * An override with an `id` stores the type under that id instead.
+ */
+export interface TypeOverrides {
+  [typeId: string]: MetadataTypeOverlay;
+}
+
+export interface RegistryUpdateOptions {
+  /**
+   * Overrides of the generated types, or the path of a JSON file with them
+   */
+  typeOverrides?: TypeOverrides | SourcePath;
+  /**
+   * API version of the describe result, set as the version of the updated registry
+   */
+  apiVersion?: string;
+  /**
+   * `TreeContainer` to read files from. Defaults to the file system.
+   */
+  tree?: TreeContainer;
+}
+
+export interface SuffixChange {
+  typeId: string;
+  previous?: string;
+  suffix?: string;
+}
+
+export interface ChildTypeAddition {
+  parentId: string;
+  type: MetadataType;
+}
+
+/**
+ * The changes a describe result makes to a registry.
+ */
+export interface RegistryDiff {
+  addedTypes: MetadataType[];
+  suffixChanges: SuffixChange[];
+  addedChildTypes: ChildTypeAddition[];
+  /**
+   * The registry with the changes applied
+   */
+  registry: MetadataRegistry;
+  /**
+   * Inconsistencies of the updated registry, see {@link validateRegistry}
+   */
+  problems: RegistryProblem[];
+}
+
+function isTrue(value: boolean | string | undefined): boolean {
+  return value === true || value === 'true';
+}
+
+function readJson<T>(filePath: SourcePath, tree: TreeContainer, messageKey: string): T {
+  try {
+    return JSON.parse(tree.readFileSync(filePath).toString());
+  } catch (e) {
+    throw new RegistryError(messageKey, [filePath, e.message]);
+  }
+}
+
+function createChildType(name: string): MetadataType {
+  const camelCase = `${name.charAt(0).toLowerCase()}${name.slice(1)}`;
+  return {
+    id: name.toLowerCase(),
+    name,
+    directoryName: `${camelCase}s`,
+    suffix: camelCase,
+  };
+}
+
+/**
+ * Generate the types of a describe result, including a folder type for each type that is
+ * stored in folders.
+ */
+function generateTypes(describe: DescribeMetadataResult): [MetadataType, string[]][] {
+  const generated: [MetadataType, string[]][] = [];
+  for (const object of describe.metadataObjects) {
+    const { xmlName: name, suffix, directoryName } = object;
+    const typeId = name.toLowerCase();
+    const inFolder = isTrue(object.inFolder);
+    const type: MetadataType = {
+      id: typeId,
+      name,
+      suffix,
+      directoryName,
+      inFolder,
+      strictDirectoryName: !suffix,
+    };
+    if (inFolder) {
+      type.folderType = `${typeId}folder`;
+    }
+    generated.push([type, normalizeToArray(object.childXmlNames)]);
+    if (inFolder) {
+      const folderType: MetadataType = {
+        id: type.folderType,
+        name: `${name}Folder`,
+        suffix: `${typeId}Folder`,
+        directoryName,
+        inFolder: false,
+        strictDirectoryName: false,
+        folderContentType: typeId,
+      };
+      generated.push([folderType, []]);
+    }
+  }
+  return generated;
+}
+
+/**
+ * Apply a `describeMetadata()` result to a registry. The given registry isn't changed.
+ *
+ * Types of the describe result that aren't in the registry are added, and the suffixes of
+ * existing types are updated. Other properties of existing types are kept, since they may
+ * have been adjusted by hand. Child types that are missing from their parent are added with
+ * generated suffixes and directory names. Type overrides are applied last.
+ *
+ * ```
+ * const diff = updateRegistry(registry, 'describe.json', {
+ *   typeOverrides: 'typeOverride.json',
+ *   apiVersion: '52.0',
+ * });
+ * ```
+ *
+ * @param registry Registry to update
+ * @param describe Describe result, or the path of a JSON file with one
+ * @param options
+ * @returns The changes to the registry, with the updated registry
+ */
+export function updateRegistry(
+  registry: MetadataRegistry,
+  describe: DescribeMetadataResult | SourcePath,
+  options: RegistryUpdateOptions = {}
+): RegistryDiff {
+  const tree = options.tree ?? new NodeFSTreeContainer();
+  const describeResult =
+    typeof describe === 'string'
+      ? readJson<DescribeMetadataResult>(describe, tree, 'error_invalid_describe_result')
+      : describe;
+  const typeOverrides =
+    typeof options.typeOverrides === 'string'
+      ? readJson<TypeOverrides>(options.typeOverrides, tree, 'error_invalid_type_overrides')
+      : options.typeOverrides ?? {};
+  if (!Array.isArray(describeResult?.metadataObjects)) {
+    throw new RegistryError('error_invalid_describe_result', [
+      typeof describe === 'string' ? describe : 'describe result',
+      'expected a list of metadataObjects',
+    ]);
+  }
+
+  const result: MetadataRegistry = JSON.parse(JSON.stringify(registry));
+  result.suffixes = result.suffixes ?? {};
+  const diff: RegistryDiff = {
+    addedTypes: [],
+    suffixChanges: [],
+    addedChildTypes: [],
+    registry: result,
+    problems: [],
+  };
+  const overrideId = (typeId: string): string => typeOverrides[typeId]?.id ?? typeId;
+
+  for (const [generated, childNames] of generateTypes(describeResult)) {
+    const typeId = overrideId(generated.id);
+    if (generated.folderType) {
+      generated.folderType = overrideId(generated.folderType);
+    }
+    if (generated.folderContentType) {
+      generated.folderContentType = overrideId(generated.folderContentType);
+    }
+    const existing = result.types[typeId];
+    let type: MetadataType;
+    if (existing) {
+      type = { ...generated, ...existing };
+      type.suffix = generated.suffix ?? existing.suffix;
+    } else {
+      type = generated;
+    }
+    type = JSON.parse(JSON.stringify(deepMerge(type, typeOverrides[generated.id])));
+
+    if (!existing) {
+      diff.addedTypes.push(type);
+    } else if (type.suffix !== existing.suffix) {
+      diff.suffixChanges.push({ typeId, previous: existing.suffix, suffix: type.suffix });
+      if (result.suffixes[existing.suffix] === typeId) {
+        delete result.suffixes[existing.suffix];
+      }
+    }
+
+    for (const childName of childNames) {
+      const childId = childName.toLowerCase();
+      type.children = type.children ?? { types: {}, suffixes: {}, directories: {} };
+      if (!type.children.types[childId]) {
+        const child = createChildType(childName);
+        type.children.types[childId] = child;
+        type.children.suffixes[child.suffix] = childId;
+        type.children.directories = type.children.directories ?? {};
+        type.children.directories[child.directoryName] = childId;
+        diff.addedChildTypes.push({ parentId: typeId, type: child });
+      }
+      result.childTypes[childId] = typeId;
+    }
+
+    result.types[typeId] = type;
+    // a suffix shared with another type is left to it, and reported as a problem
+    if (type.suffix && !result.suffixes[type.suffix]) {
+      result.suffixes[type.suffix] = typeId;
+    } else if (!type.suffix && type.directoryName) {
+      result.strictDirectoryNames[type.directoryName] = typeId;
+    }
+  }
+
+  if (options.apiVersion) {
+    result.apiVersion = options.apiVersion;
+  }
+  diff.problems = validateRegistry(result);
+  return diff;
+}
@@ -0,0 +1,201 @@
+/*
+ * Copyright (c) 2021, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import {
+  AdapterStrategy,
+  DecompositionStrategy,
+  MetadataRegistry,
+  MetadataType,
+  RecompositionStrategy,
+  TransformerStrategy,
+} from './types';
+
+/**
+ * An inconsistency of a registry.
+ */
+export interface RegistryProblem {
+  /**
+   * Path of the offending entry in the registry, e.g. `types.customobject.children.suffixes.field`
+   */
+  location: string;
+  message: string;
+}
+
+const STRATEGIES: { [strategy: string]: string[] } = {
+  adapter: [
+    AdapterStrategy.Default,
+    AdapterStrategy.MatchingContentFile,
+    AdapterStrategy.Decomposed,
+    AdapterStrategy.Bundle,
+    AdapterStrategy.MixedContent,
+  ],
+  transformer: [
+    TransformerStrategy.Standard,
+    TransformerStrategy.Decomposed,
+    TransformerStrategy.StaticResource,
+    TransformerStrategy.NonDecomposed,
+  ],
+  decomposition: [DecompositionStrategy.TopLevel, DecompositionStrategy.FolderPerType],
+  recomposition: [RecompositionStrategy.StartEmpty],
+};
+
+class RegistryValidator {
+  public readonly problems: RegistryProblem[] = [];
+  private registry: MetadataRegistry;
+
+  constructor(registry: MetadataRegistry) {
+    this.registry = registry;
+  }
+
+  public validate(): void {
+    const { types, suffixes = {}, strictDirectoryNames = {}, childTypes = {} } = this.registry;
+
+    for (const [typeId, type] of Object.entries(types)) {
+      const location = `types.${typeId}`;
+      this.validateType(type, typeId, location);
+      // types in strict directories are resolved by their directory, so they can share a suffix
+      const suffixOwner = suffixes[type.suffix];
+      if (type.suffix && suffixOwner && suffixOwner !== typeId && !type.strictDirectoryName) {
+        this.report(
+          `${location}.suffix`,
+          `suffix '${type.suffix}' is indexed to '${suffixOwner}' in suffixes`
+        );
+      }
+      if (type.strictDirectoryName && strictDirectoryNames[type.directoryName] !== typeId) {
+        this.report(
+          `${location}.strictDirectoryName`,
+          `directory '${type.directoryName}' isn't indexed to the type in strictDirectoryNames`
+        );
+      }
+      for (const childId of Object.keys(type.children?.types ?? {})) {
+        if (childTypes[childId] !== typeId) {
+          this.report(
+            `${location}.children.types.${childId}`,
+            `child type isn't indexed to '${typeId}' in childTypes`
+          );
+        }
+      }
+    }
+
+    for (const [suffix, typeId] of Object.entries(suffixes)) {
+      // suffixes of child types can be indexed too, e.g. to resolve them on their own
+      if (!types[childTypes[typeId]]?.children?.types[typeId]) {
+        this.validateReference(`suffixes.${suffix}`, typeId);
+      }
+    }
+    for (const [directoryName, typeId] of Object.entries(strictDirectoryNames)) {
+      const location = `strictDirectoryNames.${directoryName}`;
+      if (this.validateReference(location, typeId) && !types[typeId].strictDirectoryName) {
+        this.report(location, `'${typeId}' doesn't require a strict directory name`);
+      }
+    }
+    for (const [childId, typeId] of Object.entries(childTypes)) {
+      const location = `childTypes.${childId}`;
+      if (!this.validateReference(location, typeId)) {
+        continue;
+      }
+      if (!types[typeId].children) {
+        this.report(location, `'${typeId}' has no children`);
+      } else if (!types[typeId].children.types[childId]) {
+        this.report(location, `'${typeId}' has no child type '${childId}'`);
+      }
+    }
+
+    if (!/^\d+\.0$/.test(this.registry.apiVersion ?? '')) {
+      this.report('apiVersion', `'${this.registry.apiVersion}' is not an API version`);
+    }
+  }
+
+  private validateType(type: MetadataType, typeId: string, location: string): void {
+    if (type.id !== typeId) {
+      this.report(`${location}.id`, `id '${type.id}' doesn't match its key`);
+    }
+    if (!type.name) {
+      this.report(`${location}.name`, 'missing name');
+    }
+    for (const [strategy, value] of Object.entries(type.strategies ?? {})) {
+      if (!STRATEGIES[strategy]) {
+        this.report(`${location}.strategies.${strategy}`, 'unknown strategy');
+      } else if (!STRATEGIES[strategy].includes(value)) {
+        this.report(
+          `${location}.strategies.${strategy}`,
+          `unknown ${strategy} '${value}', expected one of ${STRATEGIES[strategy].join(', ')}`
+        );
+      }
+    }
+    for (const key of ['folderType', 'folderContentType'] as const) {
+      if (type[key] && !this.registry.types[type[key]]) {
+        this.report(`${location}.${key}`, `'${type[key]}' is not a type of the registry`);
+      }
+    }
+    if (type.children) {
+      this.validateChildren(type, location);
+    }
+  }
+
+  private validateChildren(type: MetadataType, location: string): void {
+    const { types = {}, suffixes = {}, directories = {} } = type.children;
+    for (const [childId, child] of Object.entries(types)) {
+      const childLocation = `${location}.children.types.${childId}`;
+      this.validateType(child, childId, childLocation);
+      if (child.suffix && suffixes[child.suffix] !== childId) {
+        this.report(
+          `${childLocation}.suffix`,
+          suffixes[child.suffix]
+            ? `suffix '${child.suffix}' is indexed to '${
+                suffixes[child.suffix]
+              }' in children.suffixes`
+            : `suffix '${child.suffix}' isn't indexed in children.suffixes`
+        );
+      }
+    }
+    const indexes: [string, { [key: string]: string }][] = [
+      ['suffixes', suffixes],
+      ['directories', directories],
+    ];
+    for (const [index, entries] of indexes) {
+      for (const [key, childId] of Object.entries(entries)) {
+        if (!types[childId]) {
+          this.report(
+            `${location}.children.${index}.${key}`,
+            `'${childId}' is not a child type of '${type.id}'`
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Report an index entry referencing a missing type.
+   *
+   * @returns Whether the type exists
+   */
+  private validateReference(location: string, typeId: string): boolean {
+    if (!this.registry.types[typeId]) {
+      this.report(location, `'${typeId}' is not a type of the registry`);
+      return false;
+    }
+    return true;
+  }
+
+  private report(location: string, message: string): void {
+    this.problems.push({ location, message });
+  }
+}
+
+/**
+ * Check a registry for inconsistencies that would otherwise only fail later, when a
+ * component of an affected type is resolved or converted. For example, suffix collisions,
+ * index entries referencing missing types, or unknown strategies.
+ *
+ * @param registry Registry to check
+ * @returns Every inconsistency with its location in the registry, empty if there are none
+ */
+export function validateRegistry(registry: MetadataRegistry): RegistryProblem[] {
+  const validator = new RegistryValidator(registry);
+  validator.validate();
+  return validator.problems;
+}
@@ -73,6 +73,14 @@ export interface MetadataType {
    * The xml attribute used as the unique identifier when parsing the xml
    */
   uniqueIdElement?: string;
+  /**
+   * The API version the type was introduced in, if it isn't available in every version.
+   */
+  introducedIn?: string;
+  /**
+   * The API version the type was removed in. The type is available in the versions before it.
+   */
+  removedIn?: string;
   /**
    * Type definitions for child types, if the type has any.
    *
@@ -94,6 +102,16 @@ export interface MetadataType {
   };
 }
 
+/**
+ * A folder type with the type of the components it contains.
+ *
+ * __Examples:__ `ReportFolder` and `Report`, `EmailFolder` and `EmailTemplate`
+ */
+export interface FolderTypePair {
+  folderType: MetadataType;
+  contentType: MetadataType;
+}
+
 /**
  * Mapping of metadata type ids -> Metadata type definitions.
  */
@@ -115,6 +133,17 @@ interface DirectoryIndex {
   [directoryName: string]: string;
 }
 
+/**
+ * Strategy names for resolving the files of a component.
+ */
+export const enum AdapterStrategy {
+  Default = 'default',
+  MatchingContentFile = 'matchingContentFile',
+  Decomposed = 'decomposed',
+  Bundle = 'bundle',
+  MixedContent = 'mixedContent',
+}
+
 /**
  * Strategy names for handling component decomposition.
  */
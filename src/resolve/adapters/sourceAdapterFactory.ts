@@ -12,17 +12,9 @@ import { MixedContentSourceAdapter } from './mixedContentSourceAdapter';
 import { DefaultSourceAdapter } from './defaultSourceAdapter';
 import { RegistryError } from '../../errors';
 import { ForceIgnore } from '../forceIgnore';
-import { MetadataType, RegistryAccess } from '../../registry';
+import { AdapterStrategy, MetadataType, RegistryAccess } from '../../registry';
 import { TreeContainer } from '../treeContainers';
 
-enum AdapterId {
-  Bundle = 'bundle',
-  Decomposed = 'decomposed',
-  Default = 'default',
-  MatchingContentFile = 'matchingContentFile',
-  MixedContent = 'mixedContent',
-}
-
 export class SourceAdapterFactory {
   private registry: RegistryAccess;
   private tree: TreeContainer;
@@ -33,17 +25,17 @@ export class SourceAdapterFactory {
   }
 
   public getAdapter(type: MetadataType, forceIgnore = new ForceIgnore()): SourceAdapter {
-    const adapterId = type.strategies?.adapter as AdapterId;
+    const adapterId = type.strategies?.adapter as AdapterStrategy;
     switch (adapterId) {
-      case AdapterId.Bundle:
+      case AdapterStrategy.Bundle:
         return new BundleSourceAdapter(type, this.registry, forceIgnore, this.tree);
-      case AdapterId.Decomposed:
+      case AdapterStrategy.Decomposed:
         return new DecomposedSourceAdapter(type, this.registry, forceIgnore, this.tree);
-      case AdapterId.MatchingContentFile:
+      case AdapterStrategy.MatchingContentFile:
         return new MatchingContentSourceAdapter(type, this.registry, forceIgnore, this.tree);
-      case AdapterId.MixedContent:
+      case AdapterStrategy.MixedContent:
         return new MixedContentSourceAdapter(type, this.registry, forceIgnore, this.tree);
-      case AdapterId.Default:
+      case AdapterStrategy.Default:
         return new DefaultSourceAdapter(type, this.registry, forceIgnore, this.tree);
       case undefined:
         return new DefaultSourceAdapter(type, this.registry, forceIgnore, this.tree);
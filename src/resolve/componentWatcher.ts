@@ -0,0 +1,415 @@
+/*
+ * Copyright (c) 2021, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { Logger } from '@salesforce/core';
+import { EventEmitter } from 'events';
+import { FSWatcher, lstatSync, readdirSync, Stats, watch } from 'fs';
+import { basename, join, relative, sep } from 'path';
+import { SourceIndex } from '../collections/sourceIndex';
+import { SourcePath } from '../common';
+import { RegistryAccess } from '../registry/registryAccess';
+import { ForceIgnore } from './forceIgnore';
+import { MetadataResolver } from './metadataResolver';
+import { SourceComponent } from './sourceComponent';
+import { NodeFSTreeContainer, TreeContainer } from './treeContainers';
+
+/**
+ * A change to a file or directory reported by a {@link FileEventSource}.
+ */
+export interface FileEvent {
+  type: 'add' | 'change' | 'unlink';
+  path: SourcePath;
+}
+
+/**
+ * Reports changes to the files of watched directories. Implement this to use a different
+ * file watching library, or to emit events from an editor.
+ */
+export interface FileEventSource {
+  /**
+   * Start reporting changes to the files in the given directories.
+   *
+   * @param fsPaths Directories to watch, including their subdirectories
+   * @param listener Called for each change
+   */
+  watch(fsPaths: SourcePath[], listener: (event: FileEvent) => void): void;
+  /**
+   * Stop reporting changes.
+   */
+  close(): void;
+}
+
+/**
+ * A change to a component, made up of the file events of its files.
+ */
+export interface ComponentChangeEvent {
+  type: 'added' | 'changed' | 'deleted';
+  /**
+   * The component after the change, or before it if it was deleted
+   */
+  component: SourceComponent;
+  /**
+   * The changed files of the component
+   */
+  files: SourcePath[];
+}
+
+export interface ComponentWatcherOptions {
+  /**
+   * Directories to watch, such as the package directories of a project
+   */
+  fsPaths: SourcePath[];
+  registry?: RegistryAccess;
+  /**
+   * Tree to resolve components with. Defaults to the file system.
+   */
+  tree?: TreeContainer;
+  /**
+   * Source of file events. Defaults to watching the file system with `fs.watch`.
+   */
+  eventSource?: FileEventSource;
+  /**
+   * Milliseconds to wait for more file events before reporting the changed components
+   */
+  debounce?: number;
+}
+
+/**
+ * A {@link FileEventSource} that watches the file system with `fs.watch`, one directory at a time.
+ */
+export class NodeFSEventSource implements FileEventSource {
+  private watchers = new Map<SourcePath, FSWatcher>();
+  private listener: (event: FileEvent) => void;
+
+  public watch(fsPaths: SourcePath[], listener: (event: FileEvent) => void): void {
+    this.listener = listener;
+    fsPaths.forEach((fsPath) => this.watchDirectory(fsPath));
+  }
+
+  public close(): void {
+    this.watchers.forEach((watcher) => watcher.close());
+    this.watchers.clear();
+  }
+
+  private watchDirectory(dirPath: SourcePath): void {
+    if (this.watchers.has(dirPath)) {
+      return;
+    }
+    const watcher = watch(dirPath, (eventType, fileName) => {
+      if (fileName) {
+        this.onEvent(eventType, join(dirPath, fileName.toString()));
+      }
+    });
+    // a watched directory that was deleted is reported by the watcher of its parent
+    watcher.on('error', () => this.unwatch(dirPath));
+    this.watchers.set(dirPath, watcher);
+    for (const entry of readdirSync(dirPath)) {
+      const fsPath = join(dirPath, entry);
+      if (this.stat(fsPath)?.isDirectory()) {
+        this.watchDirectory(fsPath);
+      }
+    }
+  }
+
+  private onEvent(eventType: string, fsPath: SourcePath): void {
+    if (eventType === 'change') {
+      this.listener({ type: 'change', path: fsPath });
+      return;
+    }
+    const stats = this.stat(fsPath);
+    if (stats?.isDirectory()) {
+      try {
+        this.watchDirectory(fsPath);
+      } catch (e) {
+        // the directory was removed while watching it, which is reported by another event
+        this.unwatch(fsPath);
+      }
+    }
+    if (stats) {
+      this.listener({ type: 'add', path: fsPath });
+    } else {
+      this.unwatch(fsPath);
+      this.listener({ type: 'unlink', path: fsPath });
+    }
+  }
+
+  /**
+   * Files can be removed at any time while handling their events, e.g. by the atomic save of
+   * an editor, so a missing file isn't an error.
+   */
+  private stat(fsPath: SourcePath): Stats | undefined {
+    try {
+      return lstatSync(fsPath);
+    } catch (e) {
+      return undefined;
+    }
+  }
+
+  private unwatch(dirPath: SourcePath): void {
+    for (const [watchedPath, watcher] of this.watchers.entries()) {
+      if (watchedPath === dirPath || watchedPath.startsWith(`${dirPath}${sep}`)) {
+        watcher.close();
+        this.watchers.delete(watchedPath);
+      }
+    }
+  }
+}
+
+/**
+ * Watches directories for file changes and reports them as changes to components.
+ *
+ * File events are collected until no event arrives for the debounce period, then the
+ * components owning the changed files are resolved again. A changed file of a bundle is a
+ * change to the bundle, while a changed file of a decomposed child, such as a custom field,
+ * is a change to the child only. Files that don't belong to a component, or that are
+ * denied by a `.forceignore` file, are ignored.
+ *
+ * ```
+ * const watcher = new ComponentWatcher({ fsPaths: ['force-app'] });
+ * watcher.onChange((events) => deploy(events));
+ * watcher.start();
+ * ```
+ */
+export class ComponentWatcher {
+  public static readonly DEFAULT_DEBOUNCE = 200;
+  private options: ComponentWatcherOptions;
+  private tree: TreeContainer;
+  private resolver: MetadataResolver;
+  private eventSource: FileEventSource;
+  private logger: Logger;
+  private event = new EventEmitter();
+  private index = new SourceIndex();
+  private units = new Map<string, Map<string, SourceComponent>>();
+  private forceIgnores = new Map<SourcePath, ForceIgnore>();
+  private pending = new Set<SourcePath>();
+  private timer?: NodeJS.Timeout;
+
+  constructor(options: ComponentWatcherOptions) {
+    this.options = options;
+    this.tree = options.tree ?? new NodeFSTreeContainer();
+    this.resolver = new MetadataResolver(options.registry, this.tree);
+    this.eventSource = options.eventSource ?? new NodeFSEventSource();
+    this.logger = Logger.childFromRoot(this.constructor.name);
+  }
+
+  /**
+   * Resolve the components of the watched directories and start watching them for changes.
+   */
+  public start(): void {
+    this.loadForceIgnores();
+    this.index = new SourceIndex();
+    this.units.clear();
+    for (const fsPath of this.options.fsPaths) {
+      this.resolver.getComponentsFromPathLenient(fsPath).components.forEach((component) => {
+        this.addRoot(component);
+      });
+    }
+    this.eventSource.watch(this.options.fsPaths, (event) => this.onFileEvent(event));
+  }
+
+  /**
+   * Stop watching for changes. File events that weren't reported yet are discarded.
+   */
+  public stop(): void {
+    this.eventSource.close();
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    this.pending.clear();
+  }
+
+  /**
+   * Report the changes of the collected file events now, instead of waiting for the
+   * debounce period to end. Errors are reported to error subscribers, or logged if there
+   * are none.
+   *
+   * @returns The component changes that were reported
+   */
+  public flush(): ComponentChangeEvent[] {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    const fsPaths = Array.from(this.pending);
+    this.pending.clear();
+    if (fsPaths.length === 0) {
+      return [];
+    }
+
+    let events: ComponentChangeEvent[];
+    try {
+      events = this.getChanges(fsPaths);
+    } catch (e) {
+      this.reportError(e);
+      return [];
+    }
+    if (events.length > 0) {
+      this.event.emit('change', events);
+    }
+    return events;
+  }
+
+  public onChange(subscriber: (events: ComponentChangeEvent[]) => void): void {
+    this.event.on('change', subscriber);
+  }
+
+  public onError(subscriber: (error: Error) => void): void {
+    this.event.on('error', subscriber);
+  }
+
+  private onFileEvent(event: FileEvent): void {
+    if (basename(event.path) === ForceIgnore.FILE_NAME) {
+      try {
+        this.loadForceIgnores();
+      } catch (e) {
+        this.reportError(e);
+      }
+      return;
+    }
+    if (this.getForceIgnore(event.path)?.denies(event.path)) {
+      return;
+    }
+    this.pending.add(event.path);
+    clearTimeout(this.timer);
+    this.timer = setTimeout(
+      () => this.flush(),
+      this.options.debounce ?? ComponentWatcher.DEFAULT_DEBOUNCE
+    );
+  }
+
+  /**
+   * Errors happen in file event and timer callbacks, where throwing would end the process.
+   */
+  private reportError(error: Error): void {
+    if (this.event.listenerCount('error') > 0) {
+      this.event.emit('error', error);
+    } else {
+      this.logger.error(error);
+    }
+  }
+
+  private getChanges(fsPaths: SourcePath[]): ComponentChangeEvent[] {
+    // components that own a changed file are resolved again as a whole, with their children
+    const previous = new Map<string, SourceComponent>();
+    for (const fsPath of fsPaths) {
+      const owner = this.index.getComponent(fsPath);
+      if (owner) {
+        const root = owner.parent ?? owner;
+        previous.set(this.key(root), root);
+      }
+    }
+    const current = new Map<string, SourceComponent>();
+    const resolvePaths = fsPaths.filter((fsPath) => this.tree.exists(fsPath));
+    for (const root of previous.values()) {
+      resolvePaths.push(root.xml ?? root.content);
+    }
+    for (const fsPath of resolvePaths) {
+      for (const component of this.resolveRoots(fsPath)) {
+        current.set(this.key(component), component);
+      }
+    }
+
+    const oldOwners = new Map(fsPaths.map((fsPath) => [fsPath, this.index.getComponent(fsPath)]));
+    const oldUnits = this.getUnits(previous.values());
+    previous.forEach((root) => this.removeRoot(root));
+    current.forEach((root) => this.addRoot(root));
+    const newUnits = this.getUnits(current.values());
+    // deleted files don't belong to the component containing them anymore
+    const newOwners = new Map(
+      fsPaths.map((fsPath) => [
+        fsPath,
+        this.tree.exists(fsPath) ? this.index.getComponent(fsPath) : undefined,
+      ])
+    );
+
+    const filesOf = (
+      component: SourceComponent,
+      owners: Map<SourcePath, SourceComponent>
+    ): SourcePath[] => {
+      const key = this.key(component);
+      return fsPaths.filter((fsPath) => owners.get(fsPath) && this.key(owners.get(fsPath)) === key);
+    };
+    const events: ComponentChangeEvent[] = [];
+    for (const [key, component] of newUnits.entries()) {
+      const files = filesOf(component, newOwners);
+      if (!oldUnits.has(key)) {
+        events.push({ type: 'added', component, files });
+      } else {
+        const oldFiles = filesOf(oldUnits.get(key), oldOwners).filter((f) => !newOwners.get(f));
+        if (files.length > 0 || oldFiles.length > 0) {
+          events.push({ type: 'changed', component, files: files.concat(oldFiles) });
+        }
+      }
+    }
+    for (const [key, component] of oldUnits.entries()) {
+      if (!newUnits.has(key)) {
+        events.push({ type: 'deleted', component, files: filesOf(component, oldOwners) });
+      }
+    }
+    return events;
+  }
+
+  /**
+   * Resolve the top level components of a path, skipping paths that aren't metadata.
+   */
+  private resolveRoots(fsPath: SourcePath): SourceComponent[] {
+    if (!fsPath || !this.tree.exists(fsPath)) {
+      return [];
+    }
+    return this.resolver.getComponentsFromPathLenient(fsPath).components.map((component) => {
+      if (component.parent) {
+        const { xml, content } = component.parent;
+        const [parent] = this.resolveRoots(xml ?? content);
+        return parent ?? component.parent;
+      }
+      return component;
+    });
+  }
+
+  /**
+   * The components, and their children with their own files, that changes are reported for.
+   * Children are remembered when a component is indexed, since getting them again would
+   * already include the changes.
+   */
+  private getUnits(roots: Iterable<SourceComponent>): Map<string, SourceComponent> {
+    const units = new Map<string, SourceComponent>();
+    for (const root of roots) {
+      this.units.get(this.key(root))?.forEach((unit, key) => units.set(key, unit));
+    }
+    return units;
+  }
+
+  private addRoot(root: SourceComponent): void {
+    const units = new Map([[this.key(root), root]]);
+    for (const child of root.getChildren()) {
+      if (child.xml !== root.xml) {
+        units.set(this.key(child), child);
+      }
+    }
+    this.units.set(this.key(root), units);
+    this.index.add(root);
+  }
+
+  private removeRoot(root: SourceComponent): void {
+    this.units.delete(this.key(root));
+    this.index.remove(root);
+  }
+
+  private loadForceIgnores(): void {
+    this.forceIgnores.clear();
+    for (const fsPath of this.options.fsPaths) {
+      this.forceIgnores.set(fsPath, ForceIgnore.findAndCreate(fsPath));
+    }
+  }
+
+  private getForceIgnore(fsPath: SourcePath): ForceIgnore | undefined {
+    const root = this.options.fsPaths.find(
+      (dirPath) => !relative(dirPath, fsPath).startsWith('..')
+    );
+    return this.forceIgnores.get(root);
+  }
+
+  private key(component: SourceComponent): string {
+    return `${component.type.id}#${component.fullName}`;
+  }
+}
@@ -107,6 +107,16 @@ export class ForceIgnore {
     }
   }
 
+  /**
+   * Identifies the rules of this `.forceignore`, so that results of a resolve can be reused
+   * as long as the same rules apply.
+   *
+   * @internal
+   */
+  public getRulesKey(): string {
+    return this.contents === undefined ? '' : `${this.forceIgnoreDirectory}\0${this.contents}`;
+  }
+
   // REMOVE THIS AFTER GITIGNORE-PARSER DEPRECATED
   private parseContents(contents: string): string {
     return contents
@@ -0,0 +1,107 @@
+/*
+ * Copyright (c) 2021, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { SourcePath } from '../common';
+import { TypeInferenceError } from '../errors';
+import { RegistryAccess } from '../registry';
+import { getChangedFiles, getRepositoryRoot } from '../utils/git';
+import { MetadataResolver } from './metadataResolver';
+import { SourceComponent } from './sourceComponent';
+import { GitTreeContainer, NodeFSTreeContainer, TreeContainer } from './treeContainers';
+import { MetadataComponent } from './types';
+
+export interface ResolveGitDiffResult {
+  /**
+   * Components owning files that were added or modified between the two revisions
+   */
+  changed: SourceComponent[];
+  /**
+   * Components whose source no longer exists at the target revision
+   */
+  deleted: MetadataComponent[];
+}
+
+/**
+ * Resolve the components that changed between two revisions of a git repository.
+ */
+export class GitDiffResolver {
+  private repoPath: SourcePath;
+  private registry: RegistryAccess;
+  private tree?: TreeContainer;
+
+  /**
+   * @param repoPath Path inside of the git repository
+   * @param registry Custom registry data
+   * @param tree `TreeContainer` holding the files of the target revision. Defaults to the
+   * working tree, or the files of the target revision if one is given.
+   */
+  constructor(repoPath = process.cwd(), registry = new RegistryAccess(), tree?: TreeContainer) {
+    this.repoPath = repoPath;
+    this.registry = registry;
+    this.tree = tree;
+  }
+
+  /**
+   * @param from Revision to compare from
+   * @param to Revision to compare to. Defaults to the working tree.
+   * @param fsPaths Only consider changes to files under these paths
+   */
+  public async resolve(
+    from: string,
+    to?: string,
+    fsPaths: SourcePath[] = []
+  ): Promise<ResolveGitDiffResult> {
+    const repoRoot = await getRepositoryRoot(this.repoPath);
+    const changes = await getChangedFiles(repoRoot, from, to, fsPaths);
+
+    const targetTree =
+      this.tree ?? (to ? await GitTreeContainer.create(to, repoRoot) : new NodeFSTreeContainer());
+    const targetResolver = new MetadataResolver(this.registry, targetTree);
+    const changed: SourceComponent[] = [];
+    const deleted = new Map<string, MetadataComponent>();
+
+    const deletedPaths: SourcePath[] = [];
+    for (const change of changes) {
+      if (change.status === 'deleted') {
+        deletedPaths.push(change.path);
+      } else {
+        changed.push(...this.resolvePath(targetResolver, change.path));
+      }
+    }
+
+    if (deletedPaths.length > 0) {
+      // deleted files are resolved against the files of the source revision
+      const sourceTree = await GitTreeContainer.create(from, repoRoot);
+      const sourceResolver = new MetadataResolver(this.registry, sourceTree);
+      for (const deletedPath of deletedPaths) {
+        for (const component of this.resolvePath(sourceResolver, deletedPath)) {
+          // the component may still exist if only some of its files were deleted
+          const componentPath = component.xml ?? component.content;
+          if (targetTree.exists(componentPath)) {
+            changed.push(...this.resolvePath(targetResolver, componentPath));
+          } else {
+            const { fullName, type } = component;
+            deleted.set(`${type.name}#${fullName}`, { fullName, type });
+          }
+        }
+      }
+    }
+
+    return { changed, deleted: Array.from(deleted.values()) };
+  }
+
+  private resolvePath(resolver: MetadataResolver, fsPath: SourcePath): SourceComponent[] {
+    try {
+      return resolver.getComponentsFromPath(fsPath);
+    } catch (e) {
+      // files that are not metadata, such as a README, are not part of the delta
+      if (e instanceof TypeInferenceError) {
+        return [];
+      }
+      throw e;
+    }
+  }
+}
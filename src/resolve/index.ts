@@ -6,11 +6,15 @@
  */
 export { MetadataResolver } from './metadataResolver';
 export { ManifestResolver } from './manifestResolver';
+export { GitDiffResolver } from './gitDiffResolver';
 export {
   TreeContainer,
+  WritableTreeContainer,
   NodeFSTreeContainer,
   VirtualTreeContainer,
   ZipTreeContainer,
+  TarTreeContainer,
+  GitTreeContainer,
 } from './treeContainers';
 export { SourceComponent } from './sourceComponent';
 export {
@@ -20,5 +24,27 @@ export {
   MetadataComponent,
   ComponentLike,
   MetadataMember,
+  CancellationToken,
+  ResolveAsyncOptions,
+  ResolutionProblem,
+  LenientResolveResult,
 } from './types';
 export { ForceIgnore } from './forceIgnore';
+export { SfdxProject, PackageDirectory } from './sfdxProject';
+export { ResolutionCache, CachedDirectoryResult } from './resolutionCache';
+export {
+  ComponentWatcher,
+  ComponentWatcherOptions,
+  ComponentChangeEvent,
+  FileEvent,
+  FileEventSource,
+  NodeFSEventSource,
+} from './componentWatcher';
+export {
+  CONFORMANCE_FILES,
+  TREE_CONTAINER_CONFORMANCE_TESTS,
+  ConformanceFile,
+  ConformanceTest,
+  ConformanceFailure,
+  runConformanceTests,
+} from './treeContainerConformance';
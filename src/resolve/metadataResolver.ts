@@ -5,33 +5,105 @@
  * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
  */
 import { basename, dirname, join, sep } from 'path';
-import { TypeInferenceError } from '../errors';
+import { LibraryError, ResolutionCanceledError, TypeInferenceError } from '../errors';
+import { nls } from '../i18n';
 import { extName, parentName, parseMetadataXml } from '../utils';
 import { SourceAdapterFactory } from './adapters/sourceAdapterFactory';
 import { ForceIgnore } from './forceIgnore';
 import { SourceComponent } from './sourceComponent';
-import { NodeFSTreeContainer, TreeContainer } from './treeContainers';
+import { NodeFSTreeContainer, ReadAheadTreeContainer, TreeContainer } from './treeContainers';
+import { SfdxProject } from './sfdxProject';
+import { ResolutionCache } from './resolutionCache';
 import { RegistryAccess } from '../registry/registryAccess';
-import { ComponentSet } from '../collections';
+import { ComponentSet, SerializedComponent } from '../collections';
 import { MetadataType } from '../registry';
+import {
+  CancellationToken,
+  LenientResolveResult,
+  ResolutionProblem,
+  ResolveAsyncOptions,
+} from './types';
+
+/**
+ * Messages suggesting how to fix the errors of a lenient resolve, by the key of the error message
+ */
+const SUGGESTIONS: { [messageKey: string]: string } = {
+  error_could_not_infer_type: 'suggestion_could_not_infer_type',
+  error_expected_source_files: 'suggestion_expected_source_files',
+  error_no_metadata_xml_ignore: 'suggestion_no_metadata_xml_ignore',
+  error_no_source_ignore: 'suggestion_no_source_ignore',
+};
+
+interface AsyncResolveContext {
+  forceIgnore: ForceIgnore;
+  /**
+   * Resolver of the tree read ahead by the resolve
+   */
+  resolver: MetadataResolver;
+  tree: ReadAheadTreeContainer;
+  inclusiveFilter?: ComponentSet;
+  cancellationToken?: CancellationToken;
+  limit: <T>(task: () => Promise<T>) => Promise<T>;
+}
+
+/**
+ * Create a function that runs at most `concurrency` of the tasks given to it at the same time.
+ */
+function createLimiter(concurrency: number): <T>(task: () => Promise<T>) => Promise<T> {
+  let running = 0;
+  const waiting: (() => void)[] = [];
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    if (running < concurrency) {
+      running += 1;
+    } else {
+      // the slot of a finished task is handed over directly to a waiting one
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    }
+    try {
+      return await task();
+    } finally {
+      const next = waiting.shift();
+      if (next) {
+        next();
+      } else {
+        running -= 1;
+      }
+    }
+  };
+}
 
 /**
  * Resolver for metadata type and component objects.
  * @internal
  */
 export class MetadataResolver {
+  public static readonly DEFAULT_CONCURRENCY = 10;
   private forceIgnore: ForceIgnore;
   private sourceAdapterFactory: SourceAdapterFactory;
   private tree: TreeContainer;
   private registry: RegistryAccess;
+  private project?: SfdxProject;
+  private cache?: ResolutionCache;
+  private problems?: ResolutionProblem[];
+  private subtreeHashes = new Map<string, string>();
 
   /**
-   * @param registry Custom registry data
+   * @param registry Custom registry data. Defaults to the registry of the project, see
+   * {@link RegistryAccess.fromProject}.
    * @param tree `TreeContainer` to traverse with
+   * @param project Only traverse the package directories of this project
+   * @param cache Reuse the results of earlier resolves of unchanged directories
    */
-  constructor(registry = new RegistryAccess(), tree: TreeContainer = new NodeFSTreeContainer()) {
-    this.registry = registry;
+  constructor(
+    registry?: RegistryAccess,
+    tree: TreeContainer = new NodeFSTreeContainer(),
+    project?: SfdxProject,
+    cache?: ResolutionCache
+  ) {
+    this.registry = registry ?? RegistryAccess.fromProject(project ?? process.cwd(), tree);
     this.tree = tree;
+    this.project = project;
+    this.cache = cache;
     this.sourceAdapterFactory = new SourceAdapterFactory(this.registry, tree);
   }
 
@@ -47,27 +119,227 @@ export class MetadataResolver {
     }
 
     this.forceIgnore = ForceIgnore.findAndCreate(fsPath);
+    this.subtreeHashes = new Map();
 
     if (this.tree.isDirectory(fsPath) && !this.resolveDirectoryAsComponent(fsPath)) {
       return this.getComponentsFromPathRecursive(fsPath, inclusiveFilter);
     }
 
-    const component = this.resolveComponent(fsPath, true);
+    const component = this.tryResolveComponent(fsPath, true);
     return component ? [component] : [];
   }
 
+  /**
+   * Get the metadata component(s) from a file path, skipping the paths that can't be
+   * resolved instead of throwing an error. The errors of the skipped paths are returned
+   * as problems.
+   *
+   * @param fsPath File path to metadata or directory
+   * @param inclusiveFilter Set to filter which components are resolved
+   */
+  public getComponentsFromPathLenient(
+    fsPath: string,
+    inclusiveFilter?: ComponentSet
+  ): LenientResolveResult {
+    this.problems = [];
+    try {
+      let components: SourceComponent[] = [];
+      try {
+        components = this.getComponentsFromPath(fsPath, inclusiveFilter);
+      } catch (e) {
+        this.addProblem(fsPath, e);
+      }
+      return { components, problems: this.problems };
+    } finally {
+      this.problems = undefined;
+    }
+  }
+
+  /**
+   * Get the metadata component(s) from a file path without blocking on reads. Directories are
+   * read ahead concurrently with the asynchronous methods of the tree container, then resolved
+   * from what was read. The components are in the same order as {@link getComponentsFromPath}.
+   *
+   * @param fsPath File path to metadata or directory
+   * @param options Filter, concurrency and cancellation of the resolve
+   */
+  public async getComponentsFromPathAsync(
+    fsPath: string,
+    options: ResolveAsyncOptions = {}
+  ): Promise<SourceComponent[]> {
+    const { inclusiveFilter, cancellationToken } = options;
+    const concurrency = Math.max(1, options.concurrency ?? MetadataResolver.DEFAULT_CONCURRENCY);
+
+    if (!(await this.tree.existsAsync(fsPath))) {
+      throw new TypeInferenceError('error_path_not_found', fsPath);
+    }
+
+    const tree = new ReadAheadTreeContainer(this.tree);
+    const resolver = new MetadataResolver(this.registry, tree, this.project);
+    const context: AsyncResolveContext = {
+      forceIgnore: ForceIgnore.findAndCreate(fsPath),
+      resolver,
+      tree,
+      inclusiveFilter,
+      cancellationToken,
+      limit: createLimiter(concurrency),
+    };
+    resolver.forceIgnore = context.forceIgnore;
+    const isDirectory = await this.tree.isDirectoryAsync(fsPath);
+    this.checkCanceled(fsPath, cancellationToken);
+
+    if (isDirectory && !this.resolveDirectoryAsComponent(fsPath)) {
+      return this.getComponentsFromPathRecursiveAsync(fsPath, context);
+    }
+
+    if (await this.tree.existsAsync(dirname(fsPath))) {
+      await tree.readDirectoryAhead(dirname(fsPath));
+    }
+    if (isDirectory) {
+      await tree.readDirectoryAhead(fsPath, true);
+    }
+    this.checkCanceled(fsPath, cancellationToken);
+    const component = resolver.resolveComponent(fsPath, true);
+    return component ? [this.withTree(component, context.forceIgnore)] : [];
+  }
+
+  private async getComponentsFromPathRecursiveAsync(
+    dir: string,
+    context: AsyncResolveContext
+  ): Promise<SourceComponent[]> {
+    const { forceIgnore, resolver, inclusiveFilter, cancellationToken, limit } = context;
+    if (forceIgnore.denies(dir) || (this.project && !this.project.isPackagePath(dir))) {
+      return [];
+    }
+
+    const { components, subdirectories } = await limit(async () => {
+      this.checkCanceled(dir, cancellationToken);
+      await this.readDirectoryAhead(dir, context);
+      this.checkCanceled(dir, cancellationToken);
+      return resolver.resolveDirectory(dir, inclusiveFilter);
+    });
+    const results = await Promise.all(
+      subdirectories.map((subdirectory) =>
+        this.getComponentsFromPathRecursiveAsync(subdirectory, context)
+      )
+    );
+    return results.reduce(
+      (all, result) => all.concat(result),
+      components.map((component) => this.withTree(component, forceIgnore))
+    );
+  }
+
+  /**
+   * Read ahead what resolving a directory reads: its entries, the directories resolved as
+   * components and, for a filtered resolve, the components with children.
+   */
+  private async readDirectoryAhead(dir: string, context: AsyncResolveContext): Promise<void> {
+    const { tree, inclusiveFilter } = context;
+    const entries = await tree.readDirectoryAhead(dir);
+    await Promise.all(
+      entries.map(async (entry) => {
+        const fsPath = join(dir, entry);
+        if (tree.isDirectory(fsPath)) {
+          if (this.resolveDirectoryAsComponent(fsPath)) {
+            await tree.readDirectoryAhead(fsPath, true);
+          }
+        } else if (
+          inclusiveFilter &&
+          this.isMetadata(fsPath) &&
+          this.resolveType(fsPath)?.children
+        ) {
+          // children are read from the xml, or from the directories of decomposed components
+          await Promise.all([tree.readFileAhead(fsPath), tree.readDirectoryAhead(dir, true)]);
+        }
+      })
+    );
+  }
+
+  /**
+   * Copy of a component resolved from the tree read ahead, reading from the tree of this resolver.
+   */
+  private withTree(component: SourceComponent, forceIgnore: ForceIgnore): SourceComponent {
+    const { name, type, xml, content } = component;
+    const parent = component.parent ? this.withTree(component.parent, forceIgnore) : undefined;
+    return new SourceComponent({ name, type, xml, content, parent }, this.tree, forceIgnore);
+  }
+
+  private checkCanceled(fsPath: string, cancellationToken?: CancellationToken): void {
+    if (cancellationToken?.isCancellationRequested) {
+      throw new ResolutionCanceledError(fsPath);
+    }
+  }
+
   private getComponentsFromPathRecursive(
     dir: string,
-    inclusiveFilter?: ComponentSet
+    inclusiveFilter?: ComponentSet,
+    location?: string
   ): SourceComponent[] {
+    if (this.forceIgnore.denies(dir) || (this.project && !this.project.isPackagePath(dir))) {
+      return [];
+    }
+
+    // filtered and lenient resolves have results besides the components, so they aren't cached
+    if (this.cache && !inclusiveFilter && !this.problems) {
+      return this.getCachedComponentsFromPath(dir, location);
+    }
+
+    const { components, subdirectories } = this.resolveDirectory(dir, inclusiveFilter);
+    for (const subdirectory of subdirectories) {
+      components.push(...this.getComponentsFromPathRecursive(subdirectory, inclusiveFilter));
+    }
+    return components;
+  }
+
+  private getCachedComponentsFromPath(dir: string, parentLocation?: string): SourceComponent[] {
+    let location: string;
+    let signature: string;
+    try {
+      location = parentLocation
+        ? this.cache.getChildLocation(this.tree, dir, parentLocation)
+        : this.cache.getLocation(this.tree, dir, this.getCacheContext());
+      signature = `${location}:${this.cache.getSubtreeHash(this.tree, dir, this.subtreeHashes)}`;
+    } catch (e) {
+      // a directory that can't be listed is a cache miss, resolving it reports the error if any
+      location = undefined;
+    }
+
+    let components: SourceComponent[];
+    let subdirectories: string[];
+    const cached = location && this.cache.getResult(dir, signature);
+    if (cached) {
+      components = cached.components.map((component) => this.deserializeComponent(component));
+      subdirectories = cached.subdirectories;
+    } else {
+      ({ components, subdirectories } = this.resolveDirectory(dir));
+      if (location) {
+        this.cache.setResult(dir, signature, {
+          components: components.map((component) => this.serializeComponent(component)),
+          subdirectories,
+        });
+      }
+    }
+
+    for (const subdirectory of subdirectories) {
+      components.push(...this.getComponentsFromPathRecursive(subdirectory, undefined, location));
+    }
+    return components;
+  }
+
+  /**
+   * Resolve the components of a directory, and the subdirectories that need to be walked next.
+   *
+   * @param dir Directory to resolve
+   * @param inclusiveFilter Set to filter which components are resolved
+   */
+  private resolveDirectory(
+    dir: string,
+    inclusiveFilter?: ComponentSet
+  ): { components: SourceComponent[]; subdirectories: string[] } {
     const dirQueue: string[] = [];
     const components: SourceComponent[] = [];
     const ignore = new Set();
 
-    if (this.forceIgnore.denies(dir)) {
-      return components;
-    }
-
     for (const file of this.tree.readDirectory(dir)) {
       const fsPath = join(dir, file);
 
@@ -77,8 +349,8 @@ export class MetadataResolver {
 
       if (this.tree.isDirectory(fsPath)) {
         if (this.resolveDirectoryAsComponent(fsPath)) {
-          const component = this.resolveComponent(fsPath, true);
-          if (!inclusiveFilter || inclusiveFilter.has(component)) {
+          const component = this.tryResolveComponent(fsPath, true);
+          if (component && (!inclusiveFilter || inclusiveFilter.has(component))) {
             components.push(component);
             ignore.add(component.xml);
           }
@@ -86,7 +358,7 @@ export class MetadataResolver {
           dirQueue.push(fsPath);
         }
       } else if (this.isMetadata(fsPath)) {
-        const component = this.resolveComponent(fsPath, false);
+        const component = this.tryResolveComponent(fsPath, false);
         if (component) {
           if (!inclusiveFilter || inclusiveFilter.has(component)) {
             components.push(component);
@@ -102,17 +374,70 @@ export class MetadataResolver {
           // for mixed content types and ensures we don't add duplicates of the component.
           const typeDir = basename(dirname(component.type.inFolder ? dirname(fsPath) : fsPath));
           if (component.type.strictDirectoryName && typeDir !== component.type.directoryName) {
-            return components;
+            return { components, subdirectories: [] };
           }
         }
       }
     }
 
-    for (const dir of dirQueue) {
-      components.push(...this.getComponentsFromPathRecursive(dir, inclusiveFilter));
+    return { components, subdirectories: dirQueue };
+  }
+
+  /**
+   * Options of a resolve, other than the tree itself, that its result depends on.
+   */
+  private getCacheContext(): string {
+    const context = [this.forceIgnore.getRulesKey()];
+    if (this.project) {
+      context.push(...this.project.packageDirectories.map((directory) => directory.path));
+    }
+    return context.join('\0');
+  }
+
+  private serializeComponent(component: SourceComponent): SerializedComponent {
+    const { name, type, xml, content, parent } = component;
+    const serialized: SerializedComponent = { fullName: component.fullName, type: type.id, name };
+    Object.assign(serialized, xml && { xml }, content && { content });
+    if (parent) {
+      serialized.parent = this.serializeComponent(parent);
     }
+    return serialized;
+  }
 
-    return components;
+  private deserializeComponent(component: SerializedComponent): SourceComponent {
+    const { name, xml, content } = component;
+    const parent = component.parent ? this.deserializeComponent(component.parent) : undefined;
+    const type = parent
+      ? parent.type.children.types[component.type]
+      : this.registry.getTypeByName(component.type);
+    return new SourceComponent({ name, type, xml, content, parent }, this.tree, this.forceIgnore);
+  }
+
+  /**
+   * Resolve a component, or record the error as a problem of the path during a lenient resolve.
+   */
+  private tryResolveComponent(fsPath: string, isResolvingSource: boolean): SourceComponent {
+    if (!this.problems) {
+      return this.resolveComponent(fsPath, isResolvingSource);
+    }
+    try {
+      return this.resolveComponent(fsPath, isResolvingSource);
+    } catch (e) {
+      this.addProblem(fsPath, e);
+    }
+  }
+
+  private addProblem(fsPath: string, error: Error): void {
+    if (!(error instanceof LibraryError)) {
+      throw error;
+    }
+    const suggestionKey = SUGGESTIONS[error.messageKey];
+    this.problems.push({
+      path: fsPath,
+      code: error.messageKey,
+      message: error.message,
+      suggestion: suggestionKey ? nls.localize(suggestionKey) : undefined,
+    });
   }
 
   private resolveComponent(fsPath: string, isResolvingSource: boolean): SourceComponent {
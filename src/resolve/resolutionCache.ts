@@ -0,0 +1,218 @@
+/*
+ * Copyright (c) 2021, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { createHash } from 'crypto';
+import { existsSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { dirname, join, relative, sep } from 'path';
+import { SerializedComponent } from '../collections';
+import { SourcePath } from '../common';
+import { ensureFileExists } from '../utils/fileSystemHandler';
+import { NodeFSTreeContainer, TreeContainer } from './treeContainers';
+
+/**
+ * Resolved components of a directory, excluding the components of its subdirectories.
+ */
+export interface CachedDirectoryResult {
+  components: SerializedComponent[];
+  /**
+   * Subdirectories to resolve next
+   */
+  subdirectories: SourcePath[];
+}
+
+interface DirectoryEntry {
+  /**
+   * Modification time of the directory when the listing was read
+   */
+  mtime?: number;
+  /**
+   * Names of the entries of the directory, with a trailing separator for directories
+   */
+  listing?: string[];
+  signature?: string;
+  result?: CachedDirectoryResult;
+}
+
+interface CacheFile {
+  version: number;
+  directories: { [dirPath: string]: DirectoryEntry };
+}
+
+function hash(...values: string[]): string {
+  const sha = createHash('sha1');
+  values.forEach((value) => sha.update(value).update('\0'));
+  return sha.digest('hex');
+}
+
+function isWithin(parentPath: SourcePath, fsPath: SourcePath): boolean {
+  const relativePath = relative(parentPath, fsPath);
+  return relativePath === '' || (!relativePath.startsWith('..') && !relativePath.startsWith(sep));
+}
+
+/**
+ * A cache of resolved components that can be reused by later resolves of unchanged directories.
+ * Pass the same cache to {@link MetadataResolver}, or `ComponentSet.fromSource`, to only resolve
+ * the directories that changed since the previous resolve.
+ *
+ * The result of a directory is reused as long as neither its subtree nor its parent directories
+ * up to the resolved path gained, lost or renamed any entries, and the resolve applies the same
+ * `.forceignore` rules and package directories. Changes to the contents of files that keep the
+ * structure of the tree aren't detected, invalidate their paths instead. Every tree is listed
+ * through its {@link TreeContainer}; only with a {@link NodeFSTreeContainer} is a directory
+ * listing reused until the modification time of the directory changes. A cache is only valid
+ * for the metadata registry it was created with.
+ */
+export class ResolutionCache {
+  public static readonly VERSION = 1;
+  private directories = new Map<SourcePath, DirectoryEntry>();
+
+  /**
+   * Load a cache saved with {@link ResolutionCache.save}. A missing or outdated cache file
+   * results in an empty cache.
+   *
+   * @param filePath Path to the cache file
+   */
+  public static load(filePath: SourcePath): ResolutionCache {
+    const cache = new ResolutionCache();
+    if (existsSync(filePath)) {
+      try {
+        const data = JSON.parse(readFileSync(filePath, 'utf8')) as CacheFile;
+        if (data.version === ResolutionCache.VERSION) {
+          cache.directories = new Map(Object.entries(data.directories));
+        }
+      } catch (e) {
+        // an unreadable cache is rebuilt by the next resolve
+      }
+    }
+    return cache;
+  }
+
+  /**
+   * Write the cache to a file.
+   *
+   * @param filePath Path to the cache file
+   */
+  public save(filePath: SourcePath): void {
+    const data: CacheFile = { version: ResolutionCache.VERSION, directories: {} };
+    for (const [dirPath, entry] of this.directories.entries()) {
+      data.directories[dirPath] = entry;
+    }
+    ensureFileExists(filePath);
+    writeFileSync(filePath, JSON.stringify(data));
+  }
+
+  /**
+   * Discard what is cached for the given paths, so they are read and resolved again. Invalidating
+   * a directory also invalidates everything below it.
+   *
+   * @param fsPaths Changed files or directories
+   */
+  public invalidate(...fsPaths: SourcePath[]): void {
+    for (const fsPath of fsPaths) {
+      for (const dirPath of Array.from(this.directories.keys())) {
+        if (isWithin(fsPath, dirPath) || dirPath === dirname(fsPath)) {
+          this.directories.delete(dirPath);
+        }
+      }
+    }
+  }
+
+  public clear(): void {
+    this.directories.clear();
+  }
+
+  /**
+   * Hash identifying the root directory of a resolve and the context of the resolve. The
+   * directories above it aren't read, so changes outside of the resolved path don't affect
+   * the cache.
+   *
+   * @internal
+   * @param tree Tree being resolved
+   * @param dirPath Directory the resolve starts from
+   * @param context Options of the resolve that affect the result
+   */
+  public getLocation(tree: TreeContainer, dirPath: SourcePath, context: string): string {
+    return this.getChildLocation(tree, dirPath, hash(context));
+  }
+
+  /**
+   * @internal
+   */
+  public getChildLocation(
+    tree: TreeContainer,
+    dirPath: SourcePath,
+    parentLocation: string
+  ): string {
+    return hash(parentLocation, dirPath, ...this.getListing(tree, dirPath));
+  }
+
+  /**
+   * Hash of the structure of everything below a directory.
+   *
+   * @internal
+   * @param tree Tree being resolved
+   * @param dirPath Directory to hash
+   * @param memo Hashes already computed during the resolve
+   */
+  public getSubtreeHash(
+    tree: TreeContainer,
+    dirPath: SourcePath,
+    memo: Map<SourcePath, string>
+  ): string {
+    if (!memo.has(dirPath)) {
+      const listing = this.getListing(tree, dirPath);
+      const subtrees = listing
+        .filter((name) => name.endsWith(sep))
+        .map((name) => this.getSubtreeHash(tree, join(dirPath, name.slice(0, -sep.length)), memo));
+      memo.set(dirPath, hash(...listing, ...subtrees));
+    }
+    return memo.get(dirPath);
+  }
+
+  /**
+   * @internal
+   */
+  public getResult(dirPath: SourcePath, signature: string): CachedDirectoryResult | undefined {
+    const entry = this.directories.get(dirPath);
+    if (entry?.signature === signature) {
+      return entry.result;
+    }
+  }
+
+  /**
+   * @internal
+   */
+  public setResult(dirPath: SourcePath, signature: string, result: CachedDirectoryResult): void {
+    const entry = this.directories.get(dirPath) ?? {};
+    this.directories.set(dirPath, Object.assign(entry, { signature, result }));
+  }
+
+  private getListing(tree: TreeContainer, dirPath: SourcePath): string[] {
+    if (!tree.exists(dirPath) || !tree.isDirectory(dirPath)) {
+      return [];
+    }
+    if (!(tree instanceof NodeFSTreeContainer)) {
+      return this.readListing(tree, dirPath);
+    }
+
+    const mtime = statSync(dirPath).mtimeMs;
+    const entry = this.directories.get(dirPath);
+    if (entry?.listing && entry.mtime === mtime) {
+      return entry.listing;
+    }
+    // the results of the directory are checked against its new structure by their signature
+    const listing = this.readListing(tree, dirPath);
+    this.directories.set(dirPath, Object.assign(entry ?? {}, { mtime, listing }));
+    return listing;
+  }
+
+  private readListing(tree: TreeContainer, dirPath: SourcePath): string[] {
+    return tree
+      .readDirectory(dirPath)
+      .map((name) => (tree.isDirectory(join(dirPath, name)) ? `${name}${sep}` : name))
+      .sort();
+  }
+}
@@ -0,0 +1,205 @@
+/*
+ * Copyright (c) 2021, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { dirname, join, relative, resolve, sep } from 'path';
+import { SourcePath } from '../common';
+import { SfdxProjectError } from '../errors';
+import { RegistryOverlay } from '../registry/registryOverlay';
+import { NodeFSTreeContainer, TreeContainer } from './treeContainers';
+
+/**
+ * A directory of a project that contains source files.
+ */
+export interface PackageDirectory {
+  /**
+   * Path to the directory
+   */
+  path: SourcePath;
+  /**
+   * Name of the package the directory belongs to, if it is packaged
+   */
+  package?: string;
+  /**
+   * Whether new source files are added to this directory
+   */
+  default: boolean;
+}
+
+interface SfdxProjectJson {
+  packageDirectories?: { path?: string; package?: string; default?: boolean }[];
+  sourceApiVersion?: string;
+  namespace?: string;
+  registryCustomizations?: RegistryOverlay | string;
+}
+
+function isWithin(parentPath: SourcePath, fsPath: SourcePath): boolean {
+  const relativePath = relative(parentPath, fsPath);
+  return relativePath === '' || (!relativePath.startsWith('..') && !relativePath.startsWith(sep));
+}
+
+/**
+ * The project configuration of an `sfdx-project.json` file.
+ */
+export class SfdxProject {
+  public static readonly FILE_NAME = 'sfdx-project.json';
+
+  /**
+   * Path to the directory containing the project file
+   */
+  public readonly path: SourcePath;
+  public readonly packageDirectories: PackageDirectory[];
+  public readonly sourceApiVersion?: string;
+  public readonly namespace?: string;
+  /**
+   * Registry overlay of the project, or the path of a JSON file with the overlay relative to
+   * the project. See {@link RegistryAccess.fromProject}.
+   */
+  public readonly registryCustomizations?: RegistryOverlay | string;
+
+  /**
+   * @param projectPath Path to the directory containing the project file
+   * @param config Contents of the project file
+   */
+  constructor(projectPath: SourcePath, config: SfdxProjectJson) {
+    const filePath = join(projectPath, SfdxProject.FILE_NAME);
+    const directories = Array.isArray(config.packageDirectories) ? config.packageDirectories : [];
+    if (directories.length === 0) {
+      throw new SfdxProjectError('error_no_package_directories', filePath);
+    }
+
+    this.path = projectPath;
+    this.packageDirectories = directories.map((directory) => {
+      if (typeof directory?.path !== 'string') {
+        throw new SfdxProjectError('error_invalid_project_file', [
+          filePath,
+          'packageDirectories entries must have a path',
+        ]);
+      }
+      return {
+        path: join(projectPath, directory.path),
+        package: directory.package,
+        default: directory.default === true,
+      };
+    });
+    // a project with a single package directory doesn't need to mark it as the default
+    if (!this.packageDirectories.some((directory) => directory.default)) {
+      this.packageDirectories[0].default = true;
+    }
+    this.sourceApiVersion = config.sourceApiVersion;
+    this.namespace = config.namespace;
+    this.registryCustomizations = config.registryCustomizations;
+  }
+
+  /**
+   * Read the project file in the given directory.
+   *
+   * @param projectPath Path to the directory containing the project file
+   * @param tree `TreeContainer` to read the project file from
+   */
+  public static fromDirectory(
+    projectPath: SourcePath,
+    tree: TreeContainer = new NodeFSTreeContainer()
+  ): SfdxProject {
+    const filePath = join(projectPath, SfdxProject.FILE_NAME);
+    let config: SfdxProjectJson;
+    try {
+      config = JSON.parse(tree.readFileSync(filePath).toString());
+    } catch (e) {
+      throw new SfdxProjectError('error_invalid_project_file', [filePath, e.message]);
+    }
+    return new SfdxProject(projectPath, config ?? {});
+  }
+
+  /**
+   * Search upwards from a path for the project it belongs to.
+   *
+   * @param fsPath Path to begin the search from
+   * @param tree `TreeContainer` to search in
+   * @returns The project, or `undefined` if the path is not part of a project
+   */
+  public static resolve(
+    fsPath: SourcePath = process.cwd(),
+    tree: TreeContainer = new NodeFSTreeContainer()
+  ): SfdxProject | undefined {
+    let current = tree instanceof NodeFSTreeContainer ? resolve(fsPath) : fsPath;
+    while (current) {
+      if (tree.exists(join(current, SfdxProject.FILE_NAME))) {
+        return SfdxProject.fromDirectory(current, tree);
+      }
+      const parent = dirname(current);
+      current = parent !== current ? parent : undefined;
+    }
+  }
+
+  /**
+   * Search upwards from a path for the project it belongs to, like {@link SfdxProject.resolve},
+   * but treat a project file that can't be loaded as no project. Pass the same cache to
+   * repeated searches of an operation to search and read each project only once.
+   *
+   * @param fsPath Path to begin the search from
+   * @param tree `TreeContainer` to search in
+   * @param cache Projects of the directories searched before
+   * @returns The project, or `undefined` if the path is not part of a valid project
+   */
+  public static find(
+    fsPath: SourcePath = process.cwd(),
+    tree: TreeContainer = new NodeFSTreeContainer(),
+    cache = new Map<SourcePath, SfdxProject | undefined>()
+  ): SfdxProject | undefined {
+    const searched: SourcePath[] = [];
+    let current = tree instanceof NodeFSTreeContainer ? resolve(fsPath) : fsPath;
+    let project: SfdxProject;
+    while (current) {
+      if (cache.has(current)) {
+        project = cache.get(current);
+        break;
+      }
+      searched.push(current);
+      if (tree.exists(join(current, SfdxProject.FILE_NAME))) {
+        try {
+          project = SfdxProject.fromDirectory(current, tree);
+        } catch (e) {
+          if (!(e instanceof SfdxProjectError)) {
+            throw e;
+          }
+        }
+        break;
+      }
+      const parent = dirname(current);
+      current = parent !== current ? parent : undefined;
+    }
+    searched.forEach((dirPath) => cache.set(dirPath, project));
+    return project;
+  }
+
+  /**
+   * The package directory new source files are added to.
+   */
+  public getDefaultPackage(): PackageDirectory {
+    return this.packageDirectories.find((directory) => directory.default);
+  }
+
+  /**
+   * Get the package directory containing a path.
+   *
+   * @param fsPath Path to a file or directory
+   * @returns The package directory, or `undefined` if the path isn't in one
+   */
+  public getPackageDirectory(fsPath: SourcePath): PackageDirectory | undefined {
+    return this.packageDirectories.find((directory) => isWithin(directory.path, fsPath));
+  }
+
+  /**
+   * Whether a path is in a package directory, or is a directory containing a package directory.
+   *
+   * @param fsPath Path to a file or directory
+   */
+  public isPackagePath(fsPath: SourcePath): boolean {
+    return this.packageDirectories.some(
+      (directory) => isWithin(directory.path, fsPath) || isWithin(fsPath, directory.path)
+    );
+  }
+}
@@ -4,9 +4,10 @@
  * Licensed under the BSD 3-Clause license.
  * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
  */
-import { join, basename } from 'path';
+import { basename, join, relative, sep } from 'path';
 import { parse } from 'fast-xml-parser';
 import { ForceIgnore } from './forceIgnore';
+import { SfdxProject } from './sfdxProject';
 import { NodeFSTreeContainer, TreeContainer, VirtualTreeContainer } from './treeContainers';
 import { MetadataComponent, VirtualDirectory } from './types';
 import { baseName, normalizeToArray, parseMetadataXml } from '../utils';
@@ -96,7 +97,19 @@ export class SourceComponent implements MetadataComponent {
     return {} as T;
   }
 
-  public getPackageRelativePath(fsPath: string, format: SfdxFileFormat): string {
+  /**
+   * Get the path of a file of the component within a package of the given format.
+   *
+   * @param fsPath Path to the file
+   * @param format Format of the package
+   * @param project Project of the component. Source format paths follow the layout of its
+   * package directory, or default to `main/default` without one.
+   */
+  public getPackageRelativePath(
+    fsPath: string,
+    format: SfdxFileFormat,
+    project?: SfdxProject
+  ): string {
     const { directoryName, suffix, inFolder, folderType } = this.type;
     // if there isn't a suffix, assume this is a mixed content component that must
     // reside in the directoryName of its type. trimUntil maintains the folder structure
@@ -112,11 +125,27 @@ export class SourceComponent implements MetadataComponent {
     }
 
     if (format === 'source') {
-      return join(DEFAULT_PACKAGE_ROOT_SFDX, relativePath);
+      return join(this.getPackageRoot(fsPath, project), relativePath);
     }
     return relativePath;
   }
 
+  /**
+   * Get the path within a package directory that type directories are in. Follows the layout of
+   * the package directory if the file is in the project, otherwise defaults to `main/default`.
+   */
+  private getPackageRoot(fsPath: string, project?: SfdxProject): string {
+    const packageDirectory = fsPath ? project?.getPackageDirectory(fsPath) : undefined;
+    if (packageDirectory) {
+      const parts = relative(packageDirectory.path, fsPath).split(sep);
+      const typeDirIndex = parts.indexOf(this.type.directoryName);
+      if (typeDirIndex !== -1) {
+        return join('.', ...parts.slice(0, typeDirIndex));
+      }
+    }
+    return DEFAULT_PACKAGE_ROOT_SFDX;
+  }
+
   private parse<T = JsonMap>(contents: string): T {
     // include tag attributes and don't parse text node as number
     const parsed = parse(contents.toString(), {
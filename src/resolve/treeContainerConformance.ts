@@ -0,0 +1,276 @@
+/*
+ * Copyright (c) 2021, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { strict as assert } from 'assert';
+import { dirname, join, sep } from 'path';
+import { Readable } from 'stream';
+import { SourcePath } from '../common';
+import { TreeContainer } from './treeContainers';
+
+/**
+ * A file of the tree that conformance tests run against.
+ */
+export interface ConformanceFile {
+  /**
+   * Path of the file relative to the root of the tree, using the OS separator
+   */
+  path: SourcePath;
+  data: Buffer;
+}
+
+/**
+ * A test of the behavior every {@link TreeContainer} shares with `NodeFSTreeContainer`.
+ */
+export interface ConformanceTest {
+  name: string;
+  /**
+   * Run the test, rejecting with an assertion error if the tree doesn't conform.
+   *
+   * @param tree Tree containing the {@link CONFORMANCE_FILES}
+   * @param root Path the files are relative to in the tree
+   */
+  run(tree: TreeContainer, root: SourcePath): Promise<void>;
+}
+
+export interface ConformanceFailure {
+  name: string;
+  error: Error;
+}
+
+/**
+ * The files a tree must contain to run the conformance tests against it.
+ */
+export const CONFORMANCE_FILES: ConformanceFile[] = [
+  {
+    path: join('main', 'default', 'classes', 'Test.cls'),
+    data: Buffer.from('public class Test {}'),
+  },
+  {
+    path: join('main', 'default', 'classes', 'Test.cls-meta.xml'),
+    data: Buffer.from('<?xml version="1.0" encoding="UTF-8"?>\n<ApexClass/>\n'),
+  },
+  {
+    path: join('main', 'default', 'staticresources', 'data.bin'),
+    data: Buffer.from(Array.from({ length: 256 }, (_, i) => i)),
+  },
+  {
+    path: join('main', 'default', 'staticresources', 'nested', 'deep', 'leaf.txt'),
+    data: Buffer.from('leaf'),
+  },
+  { path: join('main', 'default', 'empty.txt'), data: Buffer.alloc(0) },
+];
+
+function getDirectories(): SourcePath[] {
+  const directories = new Set<SourcePath>();
+  for (const file of CONFORMANCE_FILES) {
+    let dirPath = dirname(file.path);
+    while (dirPath !== '.') {
+      directories.add(dirPath);
+      dirPath = dirname(dirPath);
+    }
+  }
+  return Array.from(directories);
+}
+
+function getEntries(dirPath: SourcePath): string[] {
+  const prefix = dirPath ? `${dirPath}${sep}` : '';
+  const entries = new Set<string>();
+  for (const fsPath of CONFORMANCE_FILES.map((f) => f.path).concat(getDirectories())) {
+    if (fsPath.startsWith(prefix) && !fsPath.slice(prefix.length).includes(sep)) {
+      entries.add(fsPath.slice(prefix.length));
+    }
+  }
+  return Array.from(entries).sort();
+}
+
+function readStream(stream: Readable): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    stream.on('data', (chunk) => chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk)));
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+    stream.on('error', reject);
+  });
+}
+
+/**
+ * Assert that an operation fails, whether it throws, rejects or emits an error from the
+ * stream it returns.
+ */
+async function assertFails(message: string, operation: () => unknown): Promise<void> {
+  try {
+    const result = await operation();
+    if (result instanceof Readable) {
+      await readStream(result);
+    }
+  } catch (e) {
+    return;
+  }
+  assert.fail(message);
+}
+
+/**
+ * Tests of the {@link TreeContainer} contract, as implemented by `NodeFSTreeContainer`.
+ * Run them against a custom container to check that component resolution and conversion
+ * can rely on it, e.g. with mocha:
+ *
+ * ```
+ * const tree = createMyTree(CONFORMANCE_FILES);
+ * for (const test of TREE_CONTAINER_CONFORMANCE_TESTS) {
+ *   it(test.name, () => test.run(tree, '.'));
+ * }
+ * ```
+ */
+export const TREE_CONTAINER_CONFORMANCE_TESTS: ConformanceTest[] = [
+  {
+    name: 'should report that the root, directories and files exist',
+    run: async (tree, root): Promise<void> => {
+      for (const fsPath of [root].concat(
+        getDirectories().map((d) => join(root, d)),
+        CONFORMANCE_FILES.map((f) => join(root, f.path))
+      )) {
+        assert.ok(tree.exists(fsPath), `expected ${fsPath} to exist`);
+      }
+    },
+  },
+  {
+    name: 'should report that missing paths do not exist',
+    run: async (tree, root): Promise<void> => {
+      for (const fsPath of [join(root, 'missing'), join(root, 'main', 'default', 'missing.cls')]) {
+        assert.equal(tree.exists(fsPath), false, `expected ${fsPath} not to exist`);
+      }
+    },
+  },
+  {
+    name: 'should tell directories from files',
+    run: async (tree, root): Promise<void> => {
+      for (const dirPath of getDirectories()) {
+        assert.equal(
+          tree.isDirectory(join(root, dirPath)),
+          true,
+          `expected ${dirPath} to be a directory`
+        );
+      }
+      for (const file of CONFORMANCE_FILES) {
+        assert.equal(
+          tree.isDirectory(join(root, file.path)),
+          false,
+          `expected ${file.path} to be a file`
+        );
+      }
+    },
+  },
+  {
+    name: 'should fail to tell whether a missing path is a directory',
+    run: (tree, root): Promise<void> =>
+      assertFails('expected isDirectory to throw for a missing path', () =>
+        tree.isDirectory(join(root, 'missing'))
+      ),
+  },
+  {
+    name: 'should list the files and directories of a directory',
+    run: async (tree, root): Promise<void> => {
+      for (const dirPath of getDirectories()) {
+        assert.deepEqual(tree.readDirectory(join(root, dirPath)).sort(), getEntries(dirPath));
+      }
+      assert.deepEqual(tree.readDirectory(root).sort(), getEntries(''));
+    },
+  },
+  {
+    name: 'should fail to list the entries of a file',
+    run: (tree, root): Promise<void> =>
+      assertFails('expected readDirectory to throw for a file', () =>
+        tree.readDirectory(join(root, CONFORMANCE_FILES[0].path))
+      ),
+  },
+  {
+    name: 'should read the contents of files',
+    run: async (tree, root): Promise<void> => {
+      for (const file of CONFORMANCE_FILES) {
+        const fsPath = join(root, file.path);
+        assert.deepEqual(await tree.readFile(fsPath), file.data, `readFile of ${file.path}`);
+        assert.deepEqual(tree.readFileSync(fsPath), file.data, `readFileSync of ${file.path}`);
+      }
+    },
+  },
+  {
+    name: 'should stream the contents of files',
+    run: async (tree, root): Promise<void> => {
+      for (const file of CONFORMANCE_FILES) {
+        const data = await readStream(tree.stream(join(root, file.path)));
+        assert.deepEqual(data, file.data, `stream of ${file.path}`);
+      }
+    },
+  },
+  {
+    name: 'should fail to read or stream a directory',
+    run: async (tree, root): Promise<void> => {
+      const dirPath = join(root, 'main');
+      await assertFails('expected readFile to fail for a directory', () => tree.readFile(dirPath));
+      await assertFails('expected readFileSync to throw for a directory', () =>
+        tree.readFileSync(dirPath)
+      );
+      await assertFails('expected stream to fail for a directory', () => tree.stream(dirPath));
+    },
+  },
+  {
+    name: 'should fail to read a missing file',
+    run: async (tree, root): Promise<void> => {
+      const fsPath = join(root, 'missing.txt');
+      await assertFails('expected readFile to fail for a missing file', () =>
+        tree.readFile(fsPath)
+      );
+      await assertFails('expected readFileSync to throw for a missing file', () =>
+        tree.readFileSync(fsPath)
+      );
+    },
+  },
+  {
+    name: 'should give the same answers asynchronously',
+    run: async (tree, root): Promise<void> => {
+      const dirPath = join(root, 'main', 'default');
+      const fsPath = join(root, CONFORMANCE_FILES[0].path);
+      assert.equal(await tree.existsAsync(fsPath), true);
+      assert.equal(await tree.existsAsync(join(root, 'missing')), false);
+      assert.equal(await tree.isDirectoryAsync(dirPath), true);
+      assert.equal(await tree.isDirectoryAsync(fsPath), false);
+      assert.deepEqual(
+        (await tree.readDirectoryAsync(dirPath)).sort(),
+        getEntries(join('main', 'default'))
+      );
+    },
+  },
+  {
+    name: 'should find the content and metadata xml of a component',
+    run: async (tree, root): Promise<void> => {
+      const classes = join(root, 'main', 'default', 'classes');
+      assert.equal(tree.find('content', 'Test', classes), join(classes, 'Test.cls'));
+      assert.equal(tree.find('metadataXml', 'Test', classes), join(classes, 'Test.cls-meta.xml'));
+      assert.equal(tree.find('content', 'Missing', classes), undefined);
+    },
+  },
+];
+
+/**
+ * Run the conformance tests against a tree.
+ *
+ * @param tree Tree containing the {@link CONFORMANCE_FILES}
+ * @param root Path the files are relative to in the tree
+ * @returns The tests that failed, with their assertion errors
+ */
+export async function runConformanceTests(
+  tree: TreeContainer,
+  root: SourcePath
+): Promise<ConformanceFailure[]> {
+  const failures: ConformanceFailure[] = [];
+  for (const test of TREE_CONTAINER_CONFORMANCE_TESTS) {
+    try {
+      await test.run(tree, root);
+    } catch (error) {
+      failures.push({ name: test.name, error });
+    }
+  }
+  return failures;
+}
@@ -4,14 +4,33 @@
  * Licensed under the BSD 3-Clause license.
  * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
  */
-import { join, dirname, basename, normalize } from 'path';
+import { join, dirname, basename, normalize, resolve } from 'path';
 import { baseName, parseMetadataXml } from '../utils';
-import { lstatSync, existsSync, readdirSync, createReadStream, readFileSync } from 'fs';
+import {
+  lstatSync,
+  existsSync,
+  readdirSync,
+  createReadStream,
+  readFileSync,
+  promises,
+  statSync,
+} from 'fs';
 import { LibraryError } from '../errors';
 import { SourcePath } from '../common';
 import * as unzipper from 'unzipper';
 import { Readable } from 'stream';
+import { inflateRawSync } from 'zlib';
 import { VirtualDirectory } from './types';
+import { readTar, TarEntry } from '../utils/tar';
+import { ensureDirectoryExists } from '../utils/fileSystemHandler';
+import {
+  getRepositoryRoot,
+  GitTreeEntry,
+  listTree,
+  readBlob,
+  readBlobSync,
+  streamBlob,
+} from '../utils/git';
 
 /**
  * A container for interacting with a file system. Operations such as component resolution,
@@ -42,6 +61,46 @@ export abstract class TreeContainer {
       return join(directory, fileName);
     }
   }
+  /**
+   * Whether or not a file path exists in the container, without blocking. Defaults
+   * to {@link TreeContainer.exists}.
+   *
+   * @param fsPath - File path to test
+   * @returns A Promise of `true` if the path exists
+   */
+  public async existsAsync(fsPath: SourcePath): Promise<boolean> {
+    return this.exists(fsPath);
+  }
+  /**
+   * Whether or not a file path is a directory in the container, without blocking.
+   * Defaults to {@link TreeContainer.isDirectory}.
+   *
+   * @param fsPath - File path to test
+   * @returns A Promise of `true` if the path is to a directory
+   */
+  public async isDirectoryAsync(fsPath: SourcePath): Promise<boolean> {
+    return this.isDirectory(fsPath);
+  }
+  /**
+   * Reads the contents of a directory in the container without blocking. Defaults
+   * to {@link TreeContainer.readDirectory}.
+   *
+   * @param fsPath Path to directory
+   * @returns A Promise of the file and directory names in the directory
+   */
+  public async readDirectoryAsync(fsPath: SourcePath): Promise<string[]> {
+    return this.readDirectory(fsPath);
+  }
+  /**
+   * Gets the size of a file in bytes. Defaults to the length of {@link TreeContainer.readFileSync},
+   * so containers that can tell the size without reading the file should override it.
+   *
+   * @param fsPath - File path to get the size of
+   * @returns The size of the file in bytes
+   */
+  public getFileSize(fsPath: SourcePath): number {
+    return this.readFileSync(fsPath).length;
+  }
   /**
    * Whether or not a file path exists in the container.
    *
@@ -86,10 +145,25 @@ export abstract class TreeContainer {
   public abstract stream(fsPath: SourcePath): Readable;
 }
 
+/**
+ * A {@link TreeContainer} that files can also be written to, such as the output tree
+ * of a conversion.
+ */
+export abstract class WritableTreeContainer extends TreeContainer {
+  /**
+   * Writes the contents of a file, creating the file and its parent directories if they
+   * don't exist yet.
+   *
+   * @param fsPath - File path to write to
+   * @param data - Contents of the file
+   */
+  public abstract writeFile(fsPath: SourcePath, data: Buffer | string): Promise<void>;
+}
+
 /**
  * A {@link TreeContainer} that wraps the NodeJS `fs` module.
  */
-export class NodeFSTreeContainer extends TreeContainer {
+export class NodeFSTreeContainer extends WritableTreeContainer {
   public isDirectory(fsPath: SourcePath): boolean {
     return lstatSync(fsPath).isDirectory();
   }
@@ -102,6 +176,21 @@ export class NodeFSTreeContainer extends TreeContainer {
     return readdirSync(fsPath);
   }
 
+  public existsAsync(fsPath: SourcePath): Promise<boolean> {
+    return promises.access(fsPath).then(
+      () => true,
+      () => false
+    );
+  }
+
+  public async isDirectoryAsync(fsPath: SourcePath): Promise<boolean> {
+    return (await promises.lstat(fsPath)).isDirectory();
+  }
+
+  public readDirectoryAsync(fsPath: SourcePath): Promise<string[]> {
+    return promises.readdir(fsPath);
+  }
+
   public readFile(fsPath: SourcePath): Promise<Buffer> {
     // significant enough performance increase using sync instead of fs.promise version
     return Promise.resolve(readFileSync(fsPath));
@@ -111,17 +200,33 @@ export class NodeFSTreeContainer extends TreeContainer {
     return readFileSync(fsPath);
   }
 
+  public getFileSize(fsPath: SourcePath): number {
+    return statSync(fsPath).size;
+  }
+
   public stream(fsPath: SourcePath): Readable {
     return createReadStream(fsPath);
   }
+
+  public async writeFile(fsPath: SourcePath, data: Buffer | string): Promise<void> {
+    ensureDirectoryExists(dirname(fsPath));
+    await promises.writeFile(fsPath, data);
+  }
 }
 
 interface ZipEntry {
   path: string;
   stream?: () => unzipper.Entry;
   buffer?: () => Promise<Buffer>;
+  bufferSync?: () => Buffer;
+  size?: number;
 }
 
+const ZIP_LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const ZIP_LOCAL_HEADER_LENGTH = 30;
+const ZIP_METHOD_STORED = 0;
+const ZIP_METHOD_DEFLATED = 8;
+
 /**
  * A {@link TreeContainer} that utilizes the central directory of a zip file
  * to perform I/O without unzipping it to the disk first.
@@ -129,9 +234,9 @@ interface ZipEntry {
 export class ZipTreeContainer extends TreeContainer {
   private tree = new Map<SourcePath, ZipEntry[] | ZipEntry>();
 
-  private constructor(directory: unzipper.CentralDirectory) {
+  private constructor(directory: unzipper.CentralDirectory, buffer: Buffer) {
     super();
-    this.populate(directory);
+    this.populate(directory, buffer);
   }
 
   /**
@@ -142,7 +247,36 @@ export class ZipTreeContainer extends TreeContainer {
    */
   public static async create(buffer: Buffer): Promise<ZipTreeContainer> {
     const directory = await unzipper.Open.buffer(buffer);
-    return new ZipTreeContainer(directory);
+    return new ZipTreeContainer(directory, buffer);
+  }
+
+  /**
+   * Read the data of a file entry straight from the zip buffer, since unzipper only reads
+   * entries asynchronously.
+   */
+  private static readEntrySync(zip: Buffer, file: unzipper.File): Buffer {
+    const offset = file.offsetToLocalFileHeader;
+    // the local header can have a different extra field length than the central directory
+    if (zip.readUInt32LE(offset) !== ZIP_LOCAL_HEADER_SIGNATURE) {
+      throw new LibraryError('error_invalid_zip_entry', file.path);
+    }
+    const start =
+      offset +
+      ZIP_LOCAL_HEADER_LENGTH +
+      zip.readUInt16LE(offset + 26) +
+      zip.readUInt16LE(offset + 28);
+    const data = zip.slice(start, start + file.compressedSize);
+    switch (file.compressionMethod) {
+      case ZIP_METHOD_STORED:
+        return Buffer.from(data);
+      case ZIP_METHOD_DEFLATED:
+        return inflateRawSync(data);
+      default:
+        throw new LibraryError('error_unsupported_zip_compression', [
+          file.path,
+          `${file.compressionMethod}`,
+        ]);
+    }
   }
 
   public exists(fsPath: string): boolean {
@@ -170,9 +304,18 @@ export class ZipTreeContainer extends TreeContainer {
     throw new LibraryError('error_expected_file_path', fsPath);
   }
 
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
   public readFileSync(fsPath: string): Buffer {
-    throw new Error('Method not implemented');
+    if (!this.isDirectory(fsPath)) {
+      return (this.tree.get(fsPath) as ZipEntry).bufferSync();
+    }
+    throw new LibraryError('error_expected_file_path', fsPath);
+  }
+
+  public getFileSize(fsPath: string): number {
+    if (!this.isDirectory(fsPath)) {
+      return (this.tree.get(fsPath) as ZipEntry).size;
+    }
+    throw new LibraryError('error_expected_file_path', fsPath);
   }
 
   public stream(fsPath: string): Readable {
@@ -182,11 +325,19 @@ export class ZipTreeContainer extends TreeContainer {
     throw new LibraryError('error_no_directory_stream', this.constructor.name);
   }
 
-  private populate(directory: unzipper.CentralDirectory): void {
-    for (const { path, type, stream, buffer } of directory.files) {
+  private populate(directory: unzipper.CentralDirectory, zip: Buffer): void {
+    for (const file of directory.files) {
+      const { path, type, stream, buffer } = file;
       if (type === 'File') {
         // normalize path to use OS separator since zip entries always use forward slash
-        const entry = { path: normalize(path), stream, buffer };
+        const bufferSync = (): Buffer => ZipTreeContainer.readEntrySync(zip, file);
+        const entry = {
+          path: normalize(path),
+          stream,
+          buffer,
+          bufferSync,
+          size: file.uncompressedSize,
+        };
         this.tree.set(entry.path, entry);
         this.ensureDirPathExists(entry);
       }
@@ -206,10 +357,206 @@ export class ZipTreeContainer extends TreeContainer {
   }
 }
 
+/**
+ * A {@link TreeContainer} of the files of a tar archive, optionally compressed with gzip.
+ * The archive is read into memory, so it doesn't need to be extracted to the disk first.
+ */
+export class TarTreeContainer extends TreeContainer {
+  private tree = new Map<SourcePath, Set<SourcePath>>();
+  private fileContents = new Map<SourcePath, Buffer>();
+
+  private constructor(entries: TarEntry[]) {
+    super();
+    this.populate(entries);
+  }
+
+  /**
+   * Creates a `TarTreeContainer` from a tar or tgz archive.
+   *
+   * @param archive - Buffer or readable stream of the archive
+   * @returns A Promise of a `TarTreeContainer`
+   */
+  public static async create(archive: Buffer | Readable): Promise<TarTreeContainer> {
+    let buffer: Buffer;
+    if (Buffer.isBuffer(archive)) {
+      buffer = archive;
+    } else {
+      const chunks: Buffer[] = [];
+      for await (const chunk of archive) {
+        chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+      }
+      buffer = Buffer.concat(chunks);
+    }
+    return new TarTreeContainer(await readTar(buffer));
+  }
+
+  public exists(fsPath: SourcePath): boolean {
+    return this.tree.has(fsPath) || this.fileContents.has(fsPath);
+  }
+
+  public isDirectory(fsPath: SourcePath): boolean {
+    if (this.exists(fsPath)) {
+      return this.tree.has(fsPath);
+    }
+    throw new LibraryError('error_path_not_found', fsPath);
+  }
+
+  public readDirectory(fsPath: SourcePath): string[] {
+    if (this.isDirectory(fsPath)) {
+      return Array.from(this.tree.get(fsPath));
+    }
+    throw new LibraryError('error_expected_directory_path', fsPath);
+  }
+
+  public async readFile(fsPath: SourcePath): Promise<Buffer> {
+    return this.readFileSync(fsPath);
+  }
+
+  public readFileSync(fsPath: SourcePath): Buffer {
+    if (!this.isDirectory(fsPath)) {
+      return this.fileContents.get(fsPath);
+    }
+    throw new LibraryError('error_expected_file_path', fsPath);
+  }
+
+  public stream(fsPath: SourcePath): Readable {
+    if (!this.isDirectory(fsPath)) {
+      return Readable.from([this.fileContents.get(fsPath)]);
+    }
+    throw new LibraryError('error_no_directory_stream', this.constructor.name);
+  }
+
+  private populate(entries: TarEntry[]): void {
+    for (const entry of entries) {
+      // normalize path to use OS separator since tar entries always use forward slash
+      const path = normalize(entry.path).replace(/[\\/]+$/, '');
+      if (entry.type === 'directory') {
+        this.ensureDirPathExists(path);
+      } else {
+        this.fileContents.set(path, entry.data);
+        this.ensureDirPathExists(dirname(path));
+        this.tree.get(dirname(path)).add(basename(path));
+      }
+    }
+  }
+
+  private ensureDirPathExists(dirPath: SourcePath): void {
+    if (this.tree.has(dirPath)) {
+      return;
+    }
+    this.tree.set(dirPath, new Set());
+    const parent = dirname(dirPath);
+    if (parent !== dirPath) {
+      this.ensureDirPathExists(parent);
+      this.tree.get(parent).add(basename(dirPath));
+    }
+  }
+}
+
+/**
+ * A {@link TreeContainer} that reads the files of a local git repository as they
+ * existed at a revision, without checking the revision out. Paths are resolved the
+ * same way as paths into the working tree of the repository.
+ */
+export class GitTreeContainer extends TreeContainer {
+  private repoRoot: SourcePath;
+  private tree = new Map<SourcePath, Set<string>>();
+  private blobs = new Map<SourcePath, string>();
+  private contents = new Map<string, Buffer>();
+
+  private constructor(repoRoot: SourcePath, entries: GitTreeEntry[]) {
+    super();
+    this.repoRoot = repoRoot;
+    this.populate(entries);
+  }
+
+  /**
+   * Creates a `GitTreeContainer` of a revision of a local repository.
+   *
+   * @param ref - Revision to read files from, e.g. a commit, branch or tag
+   * @param repoPath - Path inside of the repository. Defaults to the current working directory.
+   * @returns A Promise of a `GitTreeContainer`
+   */
+  public static async create(ref: string, repoPath = process.cwd()): Promise<GitTreeContainer> {
+    const repoRoot = await getRepositoryRoot(repoPath);
+    return new GitTreeContainer(repoRoot, await listTree(repoRoot, ref));
+  }
+
+  public exists(fsPath: SourcePath): boolean {
+    const absolutePath = resolve(fsPath);
+    return this.tree.has(absolutePath) || this.blobs.has(absolutePath);
+  }
+
+  public isDirectory(fsPath: SourcePath): boolean {
+    if (this.exists(fsPath)) {
+      return this.tree.has(resolve(fsPath));
+    }
+    throw new LibraryError('error_path_not_found', fsPath);
+  }
+
+  public readDirectory(fsPath: SourcePath): string[] {
+    if (this.isDirectory(fsPath)) {
+      return Array.from(this.tree.get(resolve(fsPath)));
+    }
+    throw new LibraryError('error_expected_directory_path', fsPath);
+  }
+
+  public async readFile(fsPath: SourcePath): Promise<Buffer> {
+    const blob = this.getBlob(fsPath);
+    if (!this.contents.has(blob)) {
+      this.contents.set(blob, await readBlob(this.repoRoot, blob));
+    }
+    return this.contents.get(blob);
+  }
+
+  public readFileSync(fsPath: SourcePath): Buffer {
+    const blob = this.getBlob(fsPath);
+    if (!this.contents.has(blob)) {
+      this.contents.set(blob, readBlobSync(this.repoRoot, blob));
+    }
+    return this.contents.get(blob);
+  }
+
+  public stream(fsPath: SourcePath): Readable {
+    if (this.isDirectory(fsPath)) {
+      throw new LibraryError('error_no_directory_stream', this.constructor.name);
+    }
+    return streamBlob(this.repoRoot, this.blobs.get(resolve(fsPath)));
+  }
+
+  private getBlob(fsPath: SourcePath): string {
+    if (this.isDirectory(fsPath)) {
+      throw new LibraryError('error_expected_file_path', fsPath);
+    }
+    return this.blobs.get(resolve(fsPath));
+  }
+
+  private populate(entries: GitTreeEntry[]): void {
+    this.tree.set(this.repoRoot, new Set());
+    for (const { path, blob } of entries) {
+      this.blobs.set(path, blob);
+      let child = path;
+      let dirPath = dirname(path);
+      while (child !== this.repoRoot) {
+        if (!this.tree.has(dirPath)) {
+          this.tree.set(dirPath, new Set());
+        }
+        const children = this.tree.get(dirPath);
+        if (children.has(basename(child))) {
+          break;
+        }
+        children.add(basename(child));
+        child = dirPath;
+        dirPath = dirname(dirPath);
+      }
+    }
+  }
+}
+
 /**
  * A {@link TreeContainer} useful for mocking a file system.
  */
-export class VirtualTreeContainer extends TreeContainer {
+export class VirtualTreeContainer extends WritableTreeContainer {
   private tree = new Map<SourcePath, Set<SourcePath>>();
   private fileContents = new Map<SourcePath, Buffer>();
 
@@ -243,7 +590,9 @@ export class VirtualTreeContainer extends TreeContainer {
   }
 
   public readFileSync(fsPath: SourcePath): Buffer {
-    if (this.exists(fsPath)) {
+    if (this.isDirectory(fsPath)) {
+      throw new LibraryError('error_expected_file_path', fsPath);
+    } else {
       let data = this.fileContents.get(fsPath);
       if (!data) {
         data = Buffer.from('');
@@ -251,12 +600,34 @@ export class VirtualTreeContainer extends TreeContainer {
       }
       return data;
     }
-    throw new LibraryError('error_path_not_found', fsPath);
   }
 
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
   public stream(fsPath: string): Readable {
-    throw new Error('Method not implemented');
+    if (!this.isDirectory(fsPath)) {
+      return Readable.from([this.readFileSync(fsPath)]);
+    }
+    throw new LibraryError('error_no_directory_stream', this.constructor.name);
+  }
+
+  public async writeFile(fsPath: SourcePath, data: Buffer | string): Promise<void> {
+    if (this.tree.has(fsPath)) {
+      throw new LibraryError('error_expected_file_path', fsPath);
+    }
+    this.ensureDirPathExists(dirname(fsPath));
+    this.tree.get(dirname(fsPath)).add(fsPath);
+    this.fileContents.set(fsPath, Buffer.isBuffer(data) ? data : Buffer.from(data));
+  }
+
+  private ensureDirPathExists(dirPath: SourcePath): void {
+    if (this.tree.has(dirPath)) {
+      return;
+    }
+    this.tree.set(dirPath, new Set());
+    const parent = dirname(dirPath);
+    if (parent !== dirPath) {
+      this.ensureDirPathExists(parent);
+      this.tree.get(parent).add(dirPath);
+    }
   }
 
   private populate(virtualFs: VirtualDirectory[]): void {
@@ -281,3 +652,98 @@ export class VirtualTreeContainer extends TreeContainer {
     }
   }
 }
+
+/**
+ * A {@link TreeContainer} answering from the directories and files read ahead of time from
+ * another container without blocking. Paths that weren't read ahead are read from the other
+ * container.
+ *
+ * @internal
+ */
+export class ReadAheadTreeContainer extends TreeContainer {
+  private tree: TreeContainer;
+  private directories = new Map<SourcePath, Map<string, boolean>>();
+  private fileContents = new Map<SourcePath, Buffer>();
+
+  constructor(tree: TreeContainer) {
+    super();
+    this.tree = tree;
+  }
+
+  /**
+   * Read the entries of a directory, and whether they are directories, without blocking.
+   *
+   * @param dirPath Path to directory
+   * @param recursive Also read the directories below it
+   * @returns A Promise of the file and directory names in the directory
+   */
+  public async readDirectoryAhead(dirPath: SourcePath, recursive = false): Promise<string[]> {
+    if (!this.directories.has(dirPath)) {
+      const names = await this.tree.readDirectoryAsync(dirPath);
+      const isDirectory = await Promise.all(
+        names.map((name) => this.tree.isDirectoryAsync(join(dirPath, name)))
+      );
+      this.directories.set(dirPath, new Map(names.map((name, i) => [name, isDirectory[i]])));
+    }
+    const entries = this.directories.get(dirPath);
+    if (recursive) {
+      const subdirectories = Array.from(entries.keys()).filter((name) => entries.get(name));
+      await Promise.all(
+        subdirectories.map((name) => this.readDirectoryAhead(join(dirPath, name), true))
+      );
+    }
+    return Array.from(entries.keys());
+  }
+
+  /**
+   * Read the contents of a file without blocking.
+   *
+   * @param fsPath File path to read
+   */
+  public async readFileAhead(fsPath: SourcePath): Promise<void> {
+    if (!this.fileContents.has(fsPath)) {
+      this.fileContents.set(fsPath, await this.tree.readFile(fsPath));
+    }
+  }
+
+  public exists(fsPath: SourcePath): boolean {
+    if (this.directories.has(fsPath)) {
+      return true;
+    }
+    const parent = this.directories.get(dirname(fsPath));
+    return parent ? parent.has(basename(fsPath)) : this.tree.exists(fsPath);
+  }
+
+  public isDirectory(fsPath: SourcePath): boolean {
+    if (this.directories.has(fsPath)) {
+      return true;
+    }
+    const parent = this.directories.get(dirname(fsPath));
+    return parent?.has(basename(fsPath))
+      ? parent.get(basename(fsPath))
+      : this.tree.isDirectory(fsPath);
+  }
+
+  public readDirectory(fsPath: SourcePath): string[] {
+    const entries = this.directories.get(fsPath);
+    return entries ? Array.from(entries.keys()) : this.tree.readDirectory(fsPath);
+  }
+
+  public readFile(fsPath: SourcePath): Promise<Buffer> {
+    const data = this.fileContents.get(fsPath);
+    return data ? Promise.resolve(data) : this.tree.readFile(fsPath);
+  }
+
+  public readFileSync(fsPath: SourcePath): Buffer {
+    return this.fileContents.get(fsPath) ?? this.tree.readFileSync(fsPath);
+  }
+
+  public getFileSize(fsPath: SourcePath): number {
+    const data = this.fileContents.get(fsPath);
+    return data ? data.length : this.tree.getFileSize(fsPath);
+  }
+
+  public stream(fsPath: SourcePath): Readable {
+    return this.tree.stream(fsPath);
+  }
+}
@@ -8,6 +8,7 @@
 import { SourcePath } from '../common/types';
 import { SourceComponent } from '.';
 import { MetadataType } from '../registry';
+import { ComponentSet } from '../collections';
 
 export interface MetadataComponent {
   fullName: string;
@@ -58,3 +59,46 @@ export interface SourceAdapter {
    */
   allowMetadataWithContent(): boolean;
 }
+
+/**
+ * Signals that an operation should stop, e.g. a `CancellationToken` of a VS Code extension.
+ */
+export interface CancellationToken {
+  readonly isCancellationRequested: boolean;
+}
+
+export interface ResolveAsyncOptions {
+  /**
+   * Set to filter which components are resolved
+   */
+  inclusiveFilter?: ComponentSet;
+  /**
+   * Maximum number of directories to read at the same time
+   */
+  concurrency?: number;
+  /**
+   * Stop resolving when cancellation is requested, rejecting with a `ResolutionCanceledError`
+   */
+  cancellationToken?: CancellationToken;
+}
+
+/**
+ * A path that couldn't be resolved during a lenient resolve.
+ */
+export interface ResolutionProblem {
+  path: SourcePath;
+  /**
+   * Key of the error message, e.g. `error_could_not_infer_type`
+   */
+  code: string;
+  message: string;
+  /**
+   * How the problem could be fixed, if known
+   */
+  suggestion?: string;
+}
+
+export interface LenientResolveResult {
+  components: SourceComponent[];
+  problems: ResolutionProblem[];
+}
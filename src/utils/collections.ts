@@ -35,3 +35,28 @@ export function deepFreeze<T>(object: T): Readonly<T> {
   }
   return Object.freeze(object);
 }
+
+function isPlainObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Deeply merges the properties of a JSON object into another. Nested objects are merged,
+ * while other values, including arrays, replace the ones of the target.
+ *
+ * @param target - Object to merge into, which is changed
+ * @param source - Object to merge from, which isn't changed
+ * @returns The target object
+ */
+export function deepMerge<T>(target: T, source: unknown): T {
+  const targetObject = (target as unknown) as { [key: string]: unknown };
+  if (isPlainObject(source)) {
+    for (const [key, value] of Object.entries(source)) {
+      targetObject[key] =
+        isPlainObject(value) && isPlainObject(targetObject[key])
+          ? deepMerge(targetObject[key], value)
+          : JSON.parse(JSON.stringify(value));
+    }
+  }
+  return target;
+}
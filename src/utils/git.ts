@@ -0,0 +1,182 @@
+/*
+ * Copyright (c) 2021, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { execFile, execFileSync, spawn } from 'child_process';
+import { join, relative, resolve } from 'path';
+import { Readable } from 'stream';
+import { promisify } from 'util';
+import { GitError } from '../errors';
+import { SourcePath } from '../common';
+
+/**
+ * A file in the tree of a git revision.
+ */
+export interface GitTreeEntry {
+  /**
+   * Absolute path of the file
+   */
+  path: SourcePath;
+  /**
+   * Object id of the file contents
+   */
+  blob: string;
+}
+
+/**
+ * A file that differs between two revisions of a git repository.
+ */
+export interface GitFileChange {
+  /**
+   * Absolute path of the file
+   */
+  path: SourcePath;
+  status: 'added' | 'modified' | 'deleted';
+}
+
+const MAX_BUFFER = 100 * 1024 * 1024;
+
+function toPathspecs(repoRoot: SourcePath, fsPaths: SourcePath[]): string[] {
+  return fsPaths.map((fsPath) => relative(repoRoot, resolve(fsPath)).split('\\').join('/') || '.');
+}
+
+function toAbsolutePath(repoRoot: SourcePath, gitPath: string): SourcePath {
+  return join(repoRoot, ...gitPath.split('/'));
+}
+
+function splitNullTerminated(output: string): string[] {
+  return output.split('\0').filter((field) => !!field);
+}
+
+function createGitError(
+  args: string[],
+  e: { stderr?: Buffer | string; message: string }
+): GitError {
+  return new GitError('error_git_command', [
+    args.join(' '),
+    (e.stderr?.toString() || e.message).trim(),
+  ]);
+}
+
+async function execGitBuffer(args: string[], cwd: string): Promise<Buffer> {
+  try {
+    const { stdout } = await promisify(execFile)('git', args, {
+      cwd,
+      encoding: 'buffer',
+      maxBuffer: MAX_BUFFER,
+    });
+    return stdout;
+  } catch (e) {
+    throw createGitError(args, e);
+  }
+}
+
+export async function execGit(args: string[], cwd: string): Promise<string> {
+  return (await execGitBuffer(args, cwd)).toString();
+}
+
+/**
+ * Get the absolute path to the root of the repository containing the given path.
+ *
+ * @param fsPath Path inside of a git repository
+ */
+export async function getRepositoryRoot(fsPath: SourcePath): Promise<SourcePath> {
+  const output = await execGit(['rev-parse', '--show-toplevel'], fsPath);
+  return resolve(output.trim());
+}
+
+/**
+ * Get the files that changed between two revisions of a repository.
+ *
+ * @param repoRoot Root of the repository
+ * @param from Revision to compare from
+ * @param to Revision to compare to. Defaults to the working tree, including untracked files.
+ * @param fsPaths Only report changes to files under these paths
+ */
+export async function getChangedFiles(
+  repoRoot: SourcePath,
+  from: string,
+  to?: string,
+  fsPaths: SourcePath[] = []
+): Promise<GitFileChange[]> {
+  const pathspecs = toPathspecs(repoRoot, fsPaths);
+  const revisions = to ? [from, to] : [from];
+  const diff = await execGit(
+    ['diff', '--name-status', '--no-renames', '-z', ...revisions, '--', ...pathspecs],
+    repoRoot
+  );
+
+  const changes: GitFileChange[] = [];
+  const fields = splitNullTerminated(diff);
+  for (let i = 0; i + 1 < fields.length; i += 2) {
+    const status = fields[i].charAt(0);
+    changes.push({
+      path: toAbsolutePath(repoRoot, fields[i + 1]),
+      status: status === 'A' ? 'added' : status === 'D' ? 'deleted' : 'modified',
+    });
+  }
+
+  if (!to) {
+    const untracked = await execGit(
+      ['ls-files', '--others', '--exclude-standard', '-z', '--', ...pathspecs],
+      repoRoot
+    );
+    for (const file of splitNullTerminated(untracked)) {
+      changes.push({ path: toAbsolutePath(repoRoot, file), status: 'added' });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * List the files of a repository at a revision along with the object ids of their contents.
+ *
+ * @param repoRoot Root of the repository
+ * @param ref Revision to list the files of
+ */
+export async function listTree(repoRoot: SourcePath, ref: string): Promise<GitTreeEntry[]> {
+  const output = await execGit(['ls-tree', '-r', '-z', ref], repoRoot);
+  const entries: GitTreeEntry[] = [];
+  for (const line of splitNullTerminated(output)) {
+    // <mode> SP <type> SP <object> TAB <file>
+    const tabIndex = line.indexOf('\t');
+    const [, type, blob] = line.substring(0, tabIndex).split(' ');
+    // skip submodule commits, they don't have contents in this repository
+    if (type === 'blob') {
+      entries.push({ path: toAbsolutePath(repoRoot, line.substring(tabIndex + 1)), blob });
+    }
+  }
+  return entries;
+}
+
+export function readBlob(repoRoot: SourcePath, blob: string): Promise<Buffer> {
+  return execGitBuffer(['cat-file', 'blob', blob], repoRoot);
+}
+
+export function readBlobSync(repoRoot: SourcePath, blob: string): Buffer {
+  const args = ['cat-file', 'blob', blob];
+  try {
+    return execFileSync('git', args, { cwd: repoRoot, maxBuffer: MAX_BUFFER, stdio: 'pipe' });
+  } catch (e) {
+    throw createGitError(args, e);
+  }
+}
+
+export function streamBlob(repoRoot: SourcePath, blob: string): Readable {
+  const args = ['cat-file', 'blob', blob];
+  const child = spawn('git', args, { cwd: repoRoot });
+  const stderr: Buffer[] = [];
+  child.stderr.on('data', (chunk: Buffer) => stderr.push(chunk));
+  child.on('error', (e) => child.stdout.destroy(createGitError(args, e)));
+  child.on('close', (code) => {
+    if (code !== 0) {
+      child.stdout.destroy(
+        createGitError(args, { stderr: Buffer.concat(stderr), message: `exit code ${code}` })
+      );
+    }
+  });
+  return child.stdout;
+}
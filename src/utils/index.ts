@@ -7,4 +7,4 @@
 export { createFiles } from './fileSystemHandler';
 export { generateMetaXML, generateMetaXMLPath, trimMetaXmlSuffix } from './metadata';
 export { extName, baseName, parseMetadataXml, parentName, trimUntil } from './path';
-export { normalizeToArray, deepFreeze } from './collections';
+export { normalizeToArray, deepFreeze, deepMerge } from './collections';
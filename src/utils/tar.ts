@@ -0,0 +1,137 @@
+/*
+ * Copyright (c) 2021, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { gunzip } from 'zlib';
+import { promisify } from 'util';
+import { LibraryError } from '../errors';
+
+export interface TarEntry {
+  /**
+   * Path of the entry in the archive, always using forward slashes
+   */
+  path: string;
+  type: 'file' | 'directory';
+  data?: Buffer;
+}
+
+const BLOCK_SIZE = 512;
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+function readString(block: Buffer, offset: number, length: number): string {
+  const end = block.indexOf(0, offset);
+  return block.toString(
+    'utf8',
+    offset,
+    end === -1 || end > offset + length ? offset + length : end
+  );
+}
+
+function readNumber(block: Buffer, offset: number, length: number): number {
+  // large values are stored as big-endian base-256 with the high bit set
+  if (block[offset] & 0x80) {
+    let value = block[offset] & 0x7f;
+    for (let i = offset + 1; i < offset + length; i++) {
+      value = value * 256 + block[i];
+    }
+    return value;
+  }
+  const octal = readString(block, offset, length).trim();
+  return octal ? parseInt(octal, 8) : 0;
+}
+
+function isValidChecksum(block: Buffer): boolean {
+  let sum = 0;
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    // the checksum field itself is counted as spaces
+    sum += i >= 148 && i < 156 ? 32 : block[i];
+  }
+  return sum === readNumber(block, 148, 8);
+}
+
+/**
+ * Parse the records of a pax extended header, e.g. `30 path=very/long/path/name\n`.
+ */
+function parsePaxHeaders(data: Buffer): { [key: string]: string } {
+  const headers: { [key: string]: string } = {};
+  let offset = 0;
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset);
+    const length = parseInt(data.toString('utf8', offset, space), 10);
+    if (!length) {
+      break;
+    }
+    const record = data.toString('utf8', space + 1, offset + length - 1);
+    const separator = record.indexOf('=');
+    headers[record.slice(0, separator)] = record.slice(separator + 1);
+    offset += length;
+  }
+  return headers;
+}
+
+/**
+ * Whether a buffer is compressed with gzip.
+ *
+ * @param buffer - Contents of a file
+ */
+export function isGzip(buffer: Buffer): boolean {
+  return buffer.length > 1 && buffer[0] === GZIP_MAGIC[0] && buffer[1] === GZIP_MAGIC[1];
+}
+
+/**
+ * Read the files and directories of a tar archive. Ustar, pax and GNU long name headers are
+ * supported. Entries other than files and directories, such as links, are skipped.
+ *
+ * @param buffer - Buffer of the archive, optionally compressed with gzip
+ * @returns The entries of the archive, in the order they are stored
+ */
+export async function readTar(buffer: Buffer): Promise<TarEntry[]> {
+  const archive = isGzip(buffer) ? await promisify(gunzip)(buffer) : buffer;
+  const entries: TarEntry[] = [];
+  let nextPath: string;
+  let offset = 0;
+
+  while (offset + BLOCK_SIZE <= archive.length) {
+    const header = archive.slice(offset, offset + BLOCK_SIZE);
+    // the archive ends with empty blocks
+    if (header.every((byte) => byte === 0)) {
+      break;
+    }
+    if (!isValidChecksum(header)) {
+      throw new LibraryError('error_invalid_tar_archive', `${offset}`);
+    }
+
+    const size = readNumber(header, 124, 12);
+    const typeFlag = String.fromCharCode(header[156] || 0x30);
+    const data = archive.slice(offset + BLOCK_SIZE, offset + BLOCK_SIZE + size);
+    offset += BLOCK_SIZE + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+    if (typeFlag === 'x') {
+      nextPath = parsePaxHeaders(data).path ?? nextPath;
+    } else if (typeFlag === 'L') {
+      nextPath = readString(data, 0, data.length);
+    } else if (typeFlag === '0' || typeFlag === '7' || typeFlag === '5') {
+      let path = nextPath;
+      if (!path) {
+        const name = readString(header, 0, 100);
+        const prefix =
+          header.toString('ascii', 257, 262) === 'ustar' ? readString(header, 345, 155) : '';
+        path = prefix ? `${prefix}/${name}` : name;
+      }
+      // old archives mark directories with a trailing slash instead of their type
+      if (typeFlag === '5' || path.endsWith('/')) {
+        entries.push({ path, type: 'directory' });
+      } else {
+        entries.push({ path, type: 'file', data: Buffer.from(data) });
+      }
+      nextPath = undefined;
+    } else if (typeFlag !== 'g' && typeFlag !== 'K') {
+      // links and devices aren't files of the archive
+      nextPath = undefined;
+    }
+  }
+
+  return entries;
+}
@@ -0,0 +1,204 @@
+/*
+ * Copyright (c) 2021, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { Connection } from '@salesforce/core';
+import { testSetup } from '@salesforce/core/lib/testSetup';
+import { Duration } from '@salesforce/kit';
+import { expect } from 'chai';
+import { createSandbox, SinonStub } from 'sinon';
+import {
+  ComponentSet,
+  MetadataApiBatchRetrieve,
+  MetadataApiRetrieve,
+  MetadataApiRetrieveStatus,
+  RetrieveResult,
+} from '../../src';
+import { RequestStatus } from '../../src/client/types';
+import { MetadataComponent } from '../../src/resolve';
+import { normalizeToArray } from '../../src/utils';
+import { mockRegistry, mockRegistryData } from '../mock/registry';
+import { mockConnection } from '../mock/client';
+import { MOCK_DEFAULT_OUTPUT } from '../mock/client/transferOperations';
+
+const env = createSandbox();
+
+describe('MetadataApiBatchRetrieve', () => {
+  const { matchingcontentfile, mixedcontentsinglefile } = mockRegistryData.types;
+  const members: MetadataComponent[] = [
+    { fullName: 'a', type: matchingcontentfile },
+    { fullName: 'x', type: mixedcontentsinglefile },
+    { fullName: 'b', type: matchingcontentfile },
+    { fullName: 'c', type: matchingcontentfile },
+  ];
+
+  let connection: Connection;
+  let startStub: SinonStub;
+  let pollStub: SinonStub;
+  let retrieved: ComponentSet[];
+
+  const getComponents = (operation: MetadataApiRetrieve): ComponentSet =>
+    operation['components'] as ComponentSet;
+
+  beforeEach(async () => {
+    connection = await mockConnection(testSetup());
+    retrieved = [];
+    startStub = env.stub(MetadataApiRetrieve.prototype, 'start').callsFake(async function () {
+      const operation = this as MetadataApiRetrieve;
+      operation['_id'] = `${retrieved.length}`;
+      retrieved.push(getComponents(operation));
+      return { id: operation.id };
+    });
+    pollStub = env.stub(MetadataApiRetrieve.prototype, 'pollStatus').callsFake(async function () {
+      const operation = this as MetadataApiRetrieve;
+      const components = getComponents(operation);
+      const response = {
+        id: operation.id,
+        status: RequestStatus.Succeeded,
+        success: true,
+        done: true,
+        fileProperties: Array.from(components).map((c) => ({
+          fullName: c.fullName,
+          type: c.type.name,
+        })),
+        zipFile: '',
+      } as MetadataApiRetrieveStatus;
+      return new RetrieveResult(response, components);
+    });
+  });
+
+  afterEach(() => env.restore());
+
+  const createOperation = (
+    options: Partial<{ maxComponents: number; concurrency: number; merge: boolean }> = {}
+  ): MetadataApiBatchRetrieve =>
+    new MetadataApiBatchRetrieve({
+      usernameOrConnection: connection,
+      components: new ComponentSet(members, mockRegistry),
+      output: MOCK_DEFAULT_OUTPUT,
+      registry: mockRegistry,
+      ...options,
+    });
+
+  it('should split the components into batches grouped by type', async () => {
+    await createOperation({ maxComponents: 2 }).execute();
+
+    expect(retrieved.map((batch) => Array.from(batch).map((c) => c.fullName))).to.deep.equal([
+      ['a', 'b'],
+      ['c', 'x'],
+    ]);
+  });
+
+  it('should retrieve packages without components in a single batch', async () => {
+    const operation = new MetadataApiBatchRetrieve({
+      usernameOrConnection: connection,
+      packageNames: ['MyPackage'],
+      output: MOCK_DEFAULT_OUTPUT,
+      registry: mockRegistry,
+    });
+
+    const result = await operation.execute();
+
+    expect(startStub.calledOnce).to.be.true;
+    expect(startStub.firstCall.thisValue['options'].packageNames).to.deep.equal(['MyPackage']);
+    expect(retrieved.map((batch) => batch.size)).to.deep.equal([0]);
+    expect(result.response.status).to.equal(RequestStatus.Succeeded);
+  });
+
+  it('should pass the retrieve options to each batch', async () => {
+    const pollingOptions = { frequency: Duration.milliseconds(10) };
+
+    await createOperation({ maxComponents: 2, merge: true }).execute(pollingOptions);
+
+    for (const call of startStub.getCalls()) {
+      const options = call.thisValue['options'];
+      expect(options.merge).to.be.true;
+      expect(options.output).to.equal(MOCK_DEFAULT_OUTPUT);
+    }
+    expect(pollStub.alwaysCalledWith(pollingOptions)).to.be.true;
+  });
+
+  it('should not run more than the given number of batches at the same time', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    pollStub.callsFake(async function () {
+      running += 1;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      running -= 1;
+      const operation = this as MetadataApiRetrieve;
+      return new RetrieveResult(
+        {
+          id: operation.id,
+          status: RequestStatus.Succeeded,
+          success: true,
+          done: true,
+        } as MetadataApiRetrieveStatus,
+        getComponents(operation)
+      );
+    });
+
+    await createOperation({ maxComponents: 1, concurrency: 2 }).execute();
+
+    expect(retrieved).to.have.length(4);
+    expect(maxRunning).to.equal(2);
+  });
+
+  it('should combine the results of the batches', async () => {
+    const result = await createOperation({ maxComponents: 2 }).execute();
+
+    expect(result.batches).to.have.length(2);
+    expect(result.response.id).to.equal('0,1');
+    expect(result.response.status).to.equal(RequestStatus.Succeeded);
+    expect(result.response.success).to.be.true;
+    expect(normalizeToArray(result.response.fileProperties).map((p) => p.fullName)).to.deep.equal([
+      'a',
+      'b',
+      'c',
+      'x',
+    ]);
+    expect(result.components.size).to.equal(4);
+  });
+
+  it('should report a partial success if a batch fails', async () => {
+    startStub.onSecondCall().rejects(new Error('batch failed'));
+
+    const result = await createOperation({ maxComponents: 2, concurrency: 1 }).execute();
+
+    expect(result.response.status).to.equal(RequestStatus.SucceededPartial);
+    expect(result.response.success).to.be.false;
+    expect(result.response.messages).to.deep.equal([{ fileName: '', problem: 'batch failed' }]);
+    expect(result.batches[1].response.status).to.equal(RequestStatus.Failed);
+    expect(Array.from(result.components).map((c) => c.fullName)).to.deep.equal(['a', 'b']);
+  });
+
+  it('should skip batches that have not started when canceled', async () => {
+    const cancelStub = env.stub(MetadataApiRetrieve.prototype, 'cancel').resolves();
+    const operation = createOperation({ maxComponents: 2, concurrency: 1 });
+    pollStub.onFirstCall().callsFake(async function () {
+      await operation.cancel();
+      const retrieve = this as MetadataApiRetrieve;
+      return new RetrieveResult(
+        {
+          id: retrieve.id,
+          status: RequestStatus.Canceled,
+          success: false,
+          done: true,
+        } as MetadataApiRetrieveStatus,
+        new ComponentSet([], mockRegistry)
+      );
+    });
+
+    const result = await operation.execute();
+
+    expect(cancelStub.calledOnce).to.be.true;
+    expect(retrieved).to.have.length(1);
+    expect(result.response.status).to.equal(RequestStatus.Canceled);
+    expect(result.batches.map((b) => b.response.status)).to.deep.equal([
+      RequestStatus.Canceled,
+      RequestStatus.Canceled,
+    ]);
+  });
+});
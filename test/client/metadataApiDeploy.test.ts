@@ -4,22 +4,32 @@
  * Licensed under the BSD 3-Clause license.
  * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
  */
-import { createSandbox } from 'sinon';
+import { createSandbox, SinonStub } from 'sinon';
 import {
   ComponentSet,
+  DestructiveChangesType,
   registry,
   SourceComponent,
   DeployResult,
   MetadataApiDeploy,
+  MetadataApiDeployOptions,
+  MetadataConverter,
+  ZipTreeContainer,
 } from '../../src';
 import {
   ComponentStatus,
   DeployMessage,
   FileResponse,
   MetadataApiDeployStatus,
+  RequestStatus,
+  RunTestsResult,
 } from '../../src/client/types';
 import { assert, expect } from 'chai';
-import { basename, join } from 'path';
+import { basename, dirname, join } from 'path';
+import * as fs from 'fs';
+import { tmpdir } from 'os';
+import { create as createArchive } from 'archiver';
+import { nls } from '../../src/i18n';
 import {
   MOCK_ASYNC_RESULT,
   MOCK_RECENTLY_VALIDATED_ID_REST,
@@ -37,6 +47,8 @@ import { AnyJson, getString } from '@salesforce/ts-types';
 import { PollingClient, StatusResult } from '@salesforce/core';
 import { Duration } from '@salesforce/kit';
 import { MissingJobIdError } from '../../src/errors';
+import { testSetup } from '@salesforce/core/lib/testSetup';
+import { mockConnection } from '../mock/client';
 
 const env = createSandbox();
 
@@ -53,8 +65,7 @@ describe('MetadataApiDeploy', () => {
 
         await operation.start();
 
-        expect(convertStub.calledWith(components.toArray(), 'metadata', { type: 'zip' })).to.be
-          .true;
+        expect(convertStub.calledWith(components, 'metadata', { type: 'zip' })).to.be.true;
       });
 
       it('should call deploy with zip', async () => {
@@ -193,6 +204,344 @@ describe('MetadataApiDeploy', () => {
     });
   });
 
+  describe('chunked deploys', () => {
+    const [a, b] = matchingContentFile.COMPONENTS;
+    const components = new ComponentSet([a, b], mockRegistry);
+
+    const createStatus = (
+      id: string,
+      status: RequestStatus,
+      message: Partial<DeployMessage>
+    ): Partial<MetadataApiDeployStatus> => {
+      const succeeded = status === RequestStatus.Succeeded;
+      return {
+        id,
+        status,
+        success: succeeded,
+        done: true,
+        numberComponentsDeployed: succeeded ? 1 : 0,
+        numberComponentErrors: succeeded ? 0 : 1,
+        numberComponentsTotal: 1,
+        details: succeeded ? { componentSuccesses: message } : { componentFailures: message },
+      } as Partial<MetadataApiDeployStatus>;
+    };
+
+    const setup = async (
+      statuses: Partial<MetadataApiDeployStatus>[]
+    ): Promise<{
+      operation: MetadataApiDeploy;
+      convertStub: SinonStub;
+      deployStub: SinonStub;
+      checkStatusStub: SinonStub;
+    }> => {
+      const connection = await mockConnection(testSetup());
+      const convertStub = env
+        .stub(MetadataConverter.prototype, 'convert')
+        .resolves({ zipBuffer: Buffer.from('1234') });
+      const deployStub = env.stub(connection, 'deploy');
+      const checkStatusStub = env.stub(connection.metadata, 'checkDeployStatus');
+      statuses.forEach((status, i) => {
+        // @ts-ignore overriding return type to match API
+        deployStub.onCall(i).resolves({ id: status.id });
+        // @ts-ignore overriding return type to match API
+        checkStatusStub.withArgs(status.id, true).resolves(status);
+      });
+      const operation = new MetadataApiDeploy({
+        usernameOrConnection: connection,
+        components,
+        chunkLimits: { maxFiles: 2 },
+      });
+      return { operation, convertStub, deployStub, checkStatusStub };
+    };
+
+    it('should deploy each chunk after the previous one is done', async () => {
+      const { operation, convertStub, deployStub, checkStatusStub } = await setup([
+        createStatus('1', RequestStatus.Succeeded, {}),
+        createStatus('2', RequestStatus.Succeeded, {}),
+      ]);
+
+      await operation.start();
+      expect(deployStub.calledOnce).to.be.true;
+      await operation.pollStatus(1);
+
+      expect(convertStub.args.map(([chunk]) => Array.from(chunk as ComponentSet))).to.deep.equal([
+        [a],
+        [b],
+      ]);
+      expect(deployStub.calledTwice).to.be.true;
+      expect(deployStub.secondCall.calledAfter(checkStatusStub.firstCall)).to.be.true;
+      expect(checkStatusStub.lastCall.args[0]).to.equal('2');
+    });
+
+    it('should only check the status of a chunk with checkStatus', async () => {
+      const { operation, deployStub, checkStatusStub } = await setup([
+        createStatus('1', RequestStatus.Succeeded, {}),
+        createStatus('2', RequestStatus.Succeeded, {}),
+      ]);
+
+      await operation.start();
+      const first = await operation.checkStatus();
+      const second = await operation.checkStatus();
+
+      expect(first.done).to.be.true;
+      expect(second.id).to.equal('1');
+      expect(deployStub.calledOnce).to.be.true;
+
+      const result = await operation.pollStatus(1);
+
+      expect(deployStub.calledTwice).to.be.true;
+      expect(operation.id).to.equal('1');
+      expect(checkStatusStub.lastCall.args[0]).to.equal('2');
+      expect(result.response.numberComponentsDeployed).to.equal(2);
+    });
+
+    it('should combine the results of every chunk', async () => {
+      const messageA = { fullName: a.fullName, componentType: a.type.name, changed: 'true' };
+      const messageB = { fullName: b.fullName, componentType: b.type.name, created: 'true' };
+      const { operation } = await setup([
+        createStatus('1', RequestStatus.Succeeded, messageA as Partial<DeployMessage>),
+        createStatus('2', RequestStatus.Succeeded, messageB as Partial<DeployMessage>),
+      ]);
+
+      await operation.start();
+      const result = await operation.pollStatus(1);
+
+      expect(result.response.status).to.equal(RequestStatus.Succeeded);
+      expect(result.response.success).to.be.true;
+      expect(result.response.numberComponentsDeployed).to.equal(2);
+      expect(result.response.numberComponentsTotal).to.equal(2);
+      expect(result.response.details.componentSuccesses).to.deep.equal([messageA, messageB]);
+      expect(result.components).to.equal(components);
+      expect(result.getFileResponses().map((r) => [r.fullName, r.state])).to.deep.equal([
+        [a.fullName, ComponentStatus.Changed],
+        [a.fullName, ComponentStatus.Changed],
+        [b.fullName, ComponentStatus.Created],
+        [b.fullName, ComponentStatus.Created],
+      ]);
+    });
+
+    it('should combine the test results of every chunk', async () => {
+      const testResult = (name: string, coverage: string): RunTestsResult => ({
+        numFailures: '0',
+        numTestsRun: '1',
+        totalTime: '10',
+        successes: { id: name, name, methodName: 'test', time: '10' },
+        codeCoverage: {
+          id: coverage,
+          name: coverage,
+          type: 'Class',
+          numLocations: '4',
+          numLocationsNotCovered: '0',
+        },
+      });
+      const [first, second] = [
+        createStatus('1', RequestStatus.Succeeded, {}),
+        createStatus('2', RequestStatus.Succeeded, {}),
+      ];
+      first.details.runTestResult = testResult('ATest', 'A');
+      second.details.runTestResult = testResult('BTest', 'B');
+      const { operation } = await setup([first, second]);
+
+      await operation.start();
+      const result = await operation.pollStatus(1);
+
+      const { runTestResult } = result.response.details;
+      expect(runTestResult.numTestsRun).to.equal('2');
+      expect(runTestResult.numFailures).to.equal('0');
+      expect(runTestResult.totalTime).to.equal('20');
+      expect(runTestResult.successes).to.deep.equal([
+        first.details.runTestResult.successes,
+        second.details.runTestResult.successes,
+      ]);
+      expect(runTestResult.codeCoverage).to.deep.equal([
+        first.details.runTestResult.codeCoverage,
+        second.details.runTestResult.codeCoverage,
+      ]);
+      expect(runTestResult.failures).to.be.empty;
+    });
+
+    it('should stop deploying chunks after a chunk fails', async () => {
+      const failure = {
+        fullName: a.fullName,
+        componentType: a.type.name,
+        success: 'false',
+        problem: 'something went wrong',
+      };
+      const { operation, deployStub } = await setup([
+        createStatus('1', RequestStatus.Failed, failure as Partial<DeployMessage>),
+        createStatus('2', RequestStatus.Succeeded, {}),
+      ]);
+
+      await operation.start();
+      const result = await operation.pollStatus(1);
+
+      expect(deployStub.calledOnce).to.be.true;
+      expect(result.response.status).to.equal(RequestStatus.Failed);
+      expect(result.response.success).to.be.false;
+      expect(result.response.details.componentFailures).to.deep.equal([failure]);
+    });
+
+    it('should report partial success if a later chunk fails', async () => {
+      const { operation, deployStub } = await setup([
+        createStatus('1', RequestStatus.Succeeded, {}),
+        createStatus('2', RequestStatus.Failed, {}),
+      ]);
+
+      await operation.start();
+      const result = await operation.pollStatus(1);
+
+      expect(deployStub.calledTwice).to.be.true;
+      expect(result.response.status).to.equal(RequestStatus.SucceededPartial);
+      expect(result.response.success).to.be.false;
+    });
+  });
+
+  describe('metadata package deploys', () => {
+    let packageDir: string;
+
+    const write = (relativePath: string, data: string): void => {
+      fs.mkdirSync(dirname(join(packageDir, relativePath)), { recursive: true });
+      fs.writeFileSync(join(packageDir, relativePath), data);
+    };
+    const manifest = (member: string, type = 'ApexClass'): string =>
+      '<?xml version="1.0" encoding="UTF-8"?>\n<Package xmlns="http://soap.sforce.com/2006/04/metadata">' +
+      `<types><members>${member}</members><name>${type}</name></types><version>52.0</version></Package>`;
+    const zip = async (prefix: string | false): Promise<Buffer> => {
+      const archive = createArchive('zip');
+      const buffers: Buffer[] = [];
+      archive.on('data', (chunk: Buffer) => buffers.push(chunk));
+      archive.directory(packageDir, prefix);
+      const ended = new Promise((resolve) => archive.on('end', resolve));
+      await archive.finalize();
+      await ended;
+      return Buffer.concat(buffers);
+    };
+    const setup = async (
+      options: Partial<MetadataApiDeployOptions>,
+      success: Partial<DeployMessage> = { fullName: 'Test', componentType: 'ApexClass' }
+    ): Promise<{ operation: MetadataApiDeploy; deployStub: SinonStub }> => {
+      const connection = await mockConnection(testSetup());
+      // @ts-ignore overriding return type to match API
+      const deployStub = env.stub(connection, 'deploy').resolves(MOCK_ASYNC_RESULT);
+      const status = {
+        ...MOCK_ASYNC_RESULT,
+        status: RequestStatus.Succeeded,
+        success: true,
+        done: true,
+        details: { componentSuccesses: { ...success, changed: 'true' } },
+      };
+      // @ts-ignore overriding return type to match API
+      env.stub(connection.metadata, 'checkDeployStatus').resolves(status);
+      const convertStub = env.stub(MetadataConverter.prototype, 'convert');
+      const operation = new MetadataApiDeploy({ usernameOrConnection: connection, ...options });
+      expect(convertStub.notCalled).to.be.true;
+      return { operation, deployStub };
+    };
+
+    beforeEach(() => {
+      packageDir = fs.realpathSync(fs.mkdtempSync(join(tmpdir(), 'sdr-mdapi-deploy-')));
+      write(join('classes', 'Test.cls'), 'public class Test {}');
+      write(join('classes', 'Test.cls-meta.xml'), '<ApexClass/>');
+      write('package.xml', manifest('Test'));
+    });
+
+    afterEach(() => fs.rmdirSync(packageDir, { recursive: true }));
+
+    it('should deploy a metadata format directory and report results by member', async () => {
+      write('destructiveChangesPost.xml', manifest('Old'));
+      const { operation, deployStub } = await setup({ mdapiPath: packageDir });
+
+      await operation.start();
+      const result = await operation.pollStatus();
+
+      const deployed = await ZipTreeContainer.create(deployStub.firstCall.args[0]);
+      expect(deployed.readDirectory('.')).to.have.members([
+        'classes',
+        'package.xml',
+        'destructiveChangesPost.xml',
+      ]);
+      expect(
+        result.components.getDestructiveChangesType({ fullName: 'Old', type: 'ApexClass' })
+      ).to.equal(DestructiveChangesType.Post);
+      expect(result.components.getSourceComponents().toArray()).to.be.empty;
+      expect(result.getFileResponses()).to.deep.equal([
+        { fullName: 'Test', type: 'ApexClass', state: ComponentStatus.Changed },
+      ]);
+    });
+
+    it('should deploy metadata format files that do not resolve as source', async () => {
+      fs.rmdirSync(join(packageDir, 'classes'), { recursive: true });
+      write(join('objects', 'Account.object'), '<CustomObject/>');
+      write('package.xml', manifest('Account', 'CustomObject'));
+      const { operation, deployStub } = await setup(
+        { mdapiPath: packageDir },
+        { fullName: 'Account', componentType: 'CustomObject' }
+      );
+
+      await operation.start();
+      const result = await operation.pollStatus();
+
+      const deployed = await ZipTreeContainer.create(deployStub.firstCall.args[0]);
+      expect(deployed.readDirectory('objects')).to.deep.equal(['Account.object']);
+      expect(result.getFileResponses()).to.deep.equal([
+        { fullName: 'Account', type: 'CustomObject', state: ComponentStatus.Changed },
+      ]);
+    });
+
+    it('should deploy a zip buffer as-is and read the members of its package.xml', async () => {
+      const zipBuffer = await zip('unpackaged');
+      const { operation, deployStub } = await setup({ zipBuffer });
+
+      await operation.start();
+      const result = await operation.pollStatus();
+
+      expect(deployStub.firstCall.args[0]).to.equal(zipBuffer);
+      expect(result.components.toArray()).to.deep.equal([
+        { fullName: 'Test', type: registry.types.apexclass },
+      ]);
+    });
+
+    it('should deploy a zip file as-is', async () => {
+      const zipPath = `${packageDir}.zip`;
+      fs.writeFileSync(zipPath, await zip(false));
+      try {
+        const { operation, deployStub } = await setup({ zipPath });
+
+        await operation.start();
+
+        expect(deployStub.firstCall.args[0]).to.deep.equal(fs.readFileSync(zipPath));
+        expect(
+          (await operation.pollStatus()).components.has({ fullName: 'Test', type: 'ApexClass' })
+        ).to.be.true;
+      } finally {
+        fs.unlinkSync(zipPath);
+      }
+    });
+
+    it('should throw an error if the package does not have a package.xml', async () => {
+      fs.unlinkSync(join(packageDir, 'package.xml'));
+      const { operation } = await setup({ mdapiPath: packageDir });
+
+      try {
+        await operation.start();
+        assert.fail('should have thrown an error');
+      } catch (e) {
+        expect(e.message).to.equal(nls.localize('error_missing_package_xml', packageDir));
+      }
+    });
+
+    it('should throw an error if chunk limits are set', async () => {
+      const { operation } = await setup({ mdapiPath: packageDir, chunkLimits: { maxFiles: 1 } });
+
+      try {
+        await operation.start();
+        assert.fail('should have thrown an error');
+      } catch (e) {
+        expect(e.message).to.equal(nls.localize('error_chunked_package_deploy'));
+      }
+    });
+  });
+
   describe('checkStatus', () => {
     it('should throw an error when a job ID is not set', async () => {
       const { operation } = await stubMetadataDeploy(env);
@@ -531,6 +880,71 @@ describe('MetadataApiDeploy', () => {
         expect(responses).to.deep.equal(expected);
       });
 
+      it('should report "Deleted" status for a member marked for deletion without source', () => {
+        const member = { fullName: 'Test', type: matchingContentFile.COMPONENT.type };
+        const deployedSet = new ComponentSet([], mockRegistry);
+        deployedSet.add(member, DestructiveChangesType.Post);
+        const apiStatus: Partial<MetadataApiDeployStatus> = {
+          details: {
+            componentSuccesses: {
+              changed: 'false',
+              created: 'false',
+              deleted: 'true',
+              success: 'true',
+              fullName: member.fullName,
+              componentType: member.type.name,
+            } as DeployMessage,
+          },
+        };
+        const result = new DeployResult(apiStatus as MetadataApiDeployStatus, deployedSet);
+
+        const responses = result.getFileResponses();
+        const expected: FileResponse[] = [
+          {
+            fullName: member.fullName,
+            type: member.type.name,
+            state: ComponentStatus.Deleted,
+          },
+        ];
+
+        expect(responses).to.deep.equal(expected);
+      });
+
+      it('should report "Failed" status for a member marked for deletion without source', () => {
+        const member = { fullName: 'Test', type: matchingContentFile.COMPONENT.type };
+        const deployedSet = new ComponentSet([], mockRegistry);
+        deployedSet.add(member, DestructiveChangesType.Pre);
+        const problem = 'No MatchingContentFile named: Test found';
+        const apiStatus: Partial<MetadataApiDeployStatus> = {
+          details: {
+            componentFailures: {
+              changed: 'false',
+              created: 'false',
+              deleted: 'false',
+              success: 'false',
+              problem,
+              problemType: 'Warning',
+              fullName: member.fullName,
+              componentType: member.type.name,
+            } as DeployMessage,
+          },
+        };
+        const result = new DeployResult(apiStatus as MetadataApiDeployStatus, deployedSet);
+
+        const responses = result.getFileResponses();
+        const expected: FileResponse[] = [
+          {
+            fullName: member.fullName,
+            type: member.type.name,
+            state: ComponentStatus.Failed,
+            error: problem,
+            problemType: 'Warning',
+          },
+        ];
+
+        expect(responses).to.deep.equal(expected);
+      });
+
       it('should set "Failed" component status for failed component', async () => {
         const component = matchingContentFile.COMPONENT;
         const deployedSet = new ComponentSet([component]);
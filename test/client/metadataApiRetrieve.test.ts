@@ -14,6 +14,7 @@ import {
   ComponentStatus,
   FileResponse,
   MetadataApiRetrieveStatus,
+  SfdxProject,
 } from '../../src';
 import { MetadataApiRetrieveError, MissingJobIdError } from '../../src/errors';
 import { nls } from '../../src/i18n';
@@ -27,6 +28,7 @@ import { COMPONENT } from '../mock/registry/type-constants/matchingContentFileCo
 import { REGINA_COMPONENT } from '../mock/registry/type-constants/reginaConstants';
 import { getString } from '@salesforce/ts-types';
 import { fs } from '@salesforce/core';
+import { join } from 'path';
 
 const env = createSandbox();
 
@@ -217,6 +219,28 @@ describe('MetadataApiRetrieve', async () => {
         ).to.be.true;
       });
 
+      it('should merge components without a match into the default package directory of a project', async () => {
+        const project = new SfdxProject(MOCK_DEFAULT_OUTPUT, {
+          packageDirectories: [{ path: 'force-app' }, { path: 'other', default: true }],
+        });
+        const resolveStub = env.stub(SfdxProject, 'find').returns(project);
+        const toRetrieve = new ComponentSet([COMPONENT], mockRegistry);
+        const { operation, convertStub } = await stubMetadataRetrieve(env, {
+          toRetrieve,
+          merge: true,
+          successes: toRetrieve,
+        });
+        convertStub.resolves({ converted: [] });
+
+        await operation.start();
+        await operation.pollStatus();
+
+        expect(resolveStub.calledWith(MOCK_DEFAULT_OUTPUT)).to.be.true;
+        expect(convertStub.firstCall.args[2].defaultDirectory).to.equal(
+          join(MOCK_DEFAULT_OUTPUT, 'other')
+        );
+      });
+
       it('should construct a result object with retrieved components', async () => {
         const toRetrieve = new ComponentSet([COMPONENT], mockRegistry);
         const { operation, response } = await stubMetadataRetrieve(env, {
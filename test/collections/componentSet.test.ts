@@ -4,13 +4,16 @@
  * Licensed under the BSD 3-Clause license.
  * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
  */
+import { Logger } from '@salesforce/core';
 import { testSetup } from '@salesforce/core/lib/testSetup';
 import { fail } from 'assert';
-import { expect } from 'chai';
+import { assert, expect } from 'chai';
 import { join } from 'path';
 import { createSandbox, SinonStub } from 'sinon';
 import {
   ComponentSet,
+  DestructiveChangesType,
+  FileProperties,
   MetadataApiDeploy,
   MetadataApiRetrieve,
   MetadataComponent,
@@ -19,7 +22,14 @@ import {
 } from '../../src';
 import { ComponentSetError } from '../../src/errors';
 import { nls } from '../../src/i18n';
-import { ManifestResolver, MetadataMember } from '../../src/resolve';
+import {
+  GitDiffResolver,
+  ManifestResolver,
+  MetadataMember,
+  SfdxProject,
+  SourceComponent,
+  VirtualTreeContainer,
+} from '../../src/resolve';
 import { mockConnection } from '../mock/client';
 import {
   mockRegistry,
@@ -29,6 +39,10 @@ import {
   matchingContentFile,
 } from '../mock/registry';
 import * as manifestFiles from '../mock/registry/manifestConstants';
+import {
+  REGINA_CHILD_COMPONENT_1,
+  REGINA_COMPONENT,
+} from '../mock/registry/type-constants/reginaConstants';
 
 const env = createSandbox();
 const $$ = testSetup(env);
@@ -92,6 +106,166 @@ describe('ComponentSet', () => {
 
         expect(result).to.deep.equal(expected);
       });
+
+      it('should resolve the package directories of a project', () => {
+        const project = new SfdxProject('.', {
+          packageDirectories: [{ path: 'decomposedTopLevels' }, { path: 'mixedSingleFiles' }],
+          sourceApiVersion: '45.0',
+        });
+
+        const set = ComponentSet.fromSource({ project });
+
+        expect(getComponentsStub.callCount).to.equal(2);
+        expect(getComponentsStub.firstCall.args[0]).to.equal('decomposedTopLevels');
+        expect(getComponentsStub.secondCall.args[0]).to.equal('mixedSingleFiles');
+        expect(set.apiVersion).to.equal('45.0');
+      });
+
+      describe('registry customizations', () => {
+        const createTree = (config: unknown): VirtualTreeContainer =>
+          new VirtualTreeContainer([
+            {
+              dirPath: 'project',
+              children: [
+                'force-app',
+                { name: SfdxProject.FILE_NAME, data: Buffer.from(JSON.stringify(config)) },
+              ],
+            },
+            { dirPath: join('project', 'force-app'), children: ['classes'] },
+            {
+              dirPath: join('project', 'force-app', 'classes'),
+              children: [
+                { name: 'Test.cls', data: Buffer.from('public class Test {}') },
+                { name: 'Test.cls-meta.xml', data: Buffer.from('<ApexClass/>') },
+                { name: 'Other.apex', data: Buffer.from('public class Other {}') },
+                { name: 'Other.apex-meta.xml', data: Buffer.from('<ApexClass/>') },
+              ],
+            },
+          ]);
+        const fsPath = join('project', 'force-app');
+
+        beforeEach(() => getComponentsStub.restore());
+
+        it('should resolve with the registry of the project when given one', () => {
+          const tree = createTree({
+            packageDirectories: [{ path: 'force-app' }],
+            registryCustomizations: { types: { apexclass: { suffix: 'apex' } } },
+          });
+
+          const set = ComponentSet.fromSource({
+            fsPaths: [fsPath],
+            tree,
+            registry: RegistryAccess.fromProject(fsPath, tree),
+            lenient: true,
+          });
+
+          expect(set.toArray().map((c) => [c.type.name, c.fullName])).to.deep.equal([
+            ['ApexClass', 'Other'],
+          ]);
+        });
+
+        it('should resolve with the registry of the project of the paths by default', () => {
+          const tree = createTree({
+            packageDirectories: [{ path: 'force-app' }],
+            registryCustomizations: { types: { apexclass: { suffix: 'apex' } } },
+          });
+
+          const set = ComponentSet.fromSource({ fsPaths: [fsPath], tree, lenient: true });
+
+          expect(set.toArray().map((c) => [c.type.name, c.fullName])).to.deep.equal([
+            ['ApexClass', 'Other'],
+          ]);
+        });
+
+        it('should resolve with the registry of a given project by default', () => {
+          const project = new SfdxProject('project', {
+            packageDirectories: [{ path: 'force-app' }],
+            registryCustomizations: { types: { apexclass: { suffix: 'apex' } } },
+          });
+
+          const set = ComponentSet.fromSource({
+            project,
+            tree: createTree({ packageDirectories: [{ path: 'force-app' }] }),
+            lenient: true,
+          });
+
+          expect(set.toArray().map((c) => [c.type.name, c.fullName])).to.deep.equal([
+            ['ApexClass', 'Other'],
+          ]);
+        });
+
+        it('should use the default registry if the project cannot be loaded', () => {
+          const tree = createTree({
+            packageDirectories: [],
+            registryCustomizations: { types: { apexclass: { suffix: 'apex' } } },
+          });
+
+          const set = ComponentSet.fromSource({ fsPaths: [fsPath], tree, lenient: true });
+
+          expect(set.toArray().map((c) => [c.type.name, c.fullName])).to.deep.equal([
+            ['ApexClass', 'Test'],
+          ]);
+        });
+      });
+    });
+
+    describe('fromSource lenient', () => {
+      it('should collect the problems of paths that cannot be resolved', () => {
+        const fsPath = join('path', 'to', 'missing');
+
+        const set = ComponentSet.fromSource({
+          fsPaths: ['mixedSingleFiles', fsPath],
+          registry: mockRegistry,
+          tree: manifestFiles.TREE,
+          lenient: true,
+        });
+
+        expect(set.toArray()).to.deep.equal(
+          ComponentSet.fromSource({
+            fsPaths: ['mixedSingleFiles'],
+            registry: mockRegistry,
+            tree: manifestFiles.TREE,
+          }).toArray()
+        );
+        expect(set.getResolutionProblems().map((p) => [p.path, p.code])).to.deep.equal([
+          [fsPath, 'error_path_not_found'],
+        ]);
+      });
+    });
+
+    describe('fromSourceAsync', () => {
+      it('should resolve the same components as fromSource', async () => {
+        const options = {
+          fsPaths: ['mixedSingleFiles', 'decomposedTopLevels'],
+          registry: mockRegistry,
+          tree: manifestFiles.TREE,
+        };
+
+        const result = (await ComponentSet.fromSourceAsync(options)).toArray();
+
+        expect(result).to.deep.equal(ComponentSet.fromSource(options).toArray());
+      });
+
+      it('should pass the concurrency and cancellation token to the resolver', async () => {
+        const getComponentsStub = env
+          .stub(MetadataResolver.prototype, 'getComponentsFromPathAsync')
+          .resolves([matchingContentFile.COMPONENT]);
+        const cancellationToken = { isCancellationRequested: false };
+        const include = new ComponentSet();
+
+        const result = await ComponentSet.fromSourceAsync({
+          fsPaths: ['folder1'],
+          include,
+          concurrency: 2,
+          cancellationToken,
+        });
+
+        expect(getComponentsStub.firstCall.args).to.deep.equal([
+          'folder1',
+          { inclusiveFilter: include, concurrency: 2, cancellationToken },
+        ]);
+        expect(result.toArray()).to.deep.equal([matchingContentFile.COMPONENT]);
+      });
     });
 
     describe('fromManifest', () => {
@@ -238,6 +412,132 @@ describe('ComponentSet', () => {
       });
     });
 
+    describe('fromManifest with destructive changes', () => {
+      it('should mark members of destructive manifests for deletion', async () => {
+        const set = await ComponentSet.fromManifest({
+          manifestPath: manifestFiles.ONE_OF_EACH.name,
+          registry: mockRegistry,
+          tree: manifestFiles.TREE,
+          destructivePre: manifestFiles.DESTRUCTIVE_PRE.name,
+          destructivePost: manifestFiles.DESTRUCTIVE_POST.name,
+        });
+
+        expect(set.getObject().Package.types).to.deep.equal([
+          { name: 'DecomposedTopLevel', members: ['a'] },
+          { name: 'MixedContentSingleFile', members: ['b'] },
+        ]);
+        expect(
+          set.getDestructiveChangesType({ fullName: 'd', type: 'MixedContentSingleFile' })
+        ).to.equal(DestructiveChangesType.Pre);
+        expect(
+          set.getDestructiveChangesType({ fullName: 'c', type: 'MixedContentSingleFile' })
+        ).to.equal(DestructiveChangesType.Post);
+      });
+
+      it('should keep deletion marks on source-backed components', async () => {
+        const set = await ComponentSet.fromManifest({
+          manifestPath: manifestFiles.ONE_OF_EACH.name,
+          registry: mockRegistry,
+          tree: manifestFiles.TREE,
+          resolveSourcePaths: ['mixedSingleFiles'],
+          destructivePost: manifestFiles.DESTRUCTIVE_POST.name,
+        });
+
+        const [deleted] = set
+          .getSourceComponents({ fullName: 'c', type: 'MixedContentSingleFile' })
+          .toArray();
+        expect(deleted.xml).to.equal(join('mixedSingleFiles', 'c.mixedSingleFile-meta.xml'));
+        expect(set.getDestructiveChangesType(deleted)).to.equal(DestructiveChangesType.Post);
+      });
+
+      it('should accept a member listed twice in the same manifest', async () => {
+        const manifest = {
+          name: 'duplicate.xml',
+          data: Buffer.from(`<?xml version="1.0" encoding="UTF-8"?>
+<Package xmlns="http://soap.sforce.com/2006/04/metadata">
+    <types>
+        <members>b</members>
+        <members>b</members>
+        <name>MixedContentSingleFile</name>
+    </types>
+    <version>${mockRegistry.apiVersion}</version>
+</Package>\n`),
+        };
+        const tree = new VirtualTreeContainer([{ dirPath: '.', children: [manifest] }]);
+
+        const set = await ComponentSet.fromManifest({
+          manifestPath: manifest.name,
+          registry: mockRegistry,
+          tree,
+        });
+
+        expect(set.getObject().Package.types).to.deep.equal([
+          { name: 'MixedContentSingleFile', members: ['b'] },
+        ]);
+      });
+
+      it('should throw an error if a member is both added and deleted', async () => {
+        try {
+          await ComponentSet.fromManifest({
+            manifestPath: manifestFiles.BASIC.name,
+            registry: mockRegistry,
+            tree: manifestFiles.TREE,
+            destructivePost: manifestFiles.DESTRUCTIVE_POST.name,
+          });
+          fail('should have thrown an error');
+        } catch (e) {
+          expect(e.name).to.equal(ComponentSetError.name);
+          expect(e.message).to.equal(
+            nls.localize('error_conflicting_manifest_member', [
+              'c',
+              'MixedContentSingleFile',
+              manifestFiles.BASIC.name,
+              manifestFiles.DESTRUCTIVE_POST.name,
+            ])
+          );
+        }
+      });
+    });
+
+    describe('fromGitDiff', () => {
+      it('should add changed components and mark deleted components for deletion', async () => {
+        const deleted = { fullName: 'd', type: mockRegistryData.types.mixedcontentsinglefile };
+        const resolveStub = env.stub(GitDiffResolver.prototype, 'resolve').resolves({
+          changed: [mixedContentSingleFile.COMPONENT],
+          deleted: [deleted],
+        });
+
+        const set = await ComponentSet.fromGitDiff({
+          from: 'HEAD~1',
+          to: 'HEAD',
+          fsPaths: ['force-app'],
+          registry: mockRegistry,
+        });
+
+        expect(resolveStub.calledOnceWith('HEAD~1', 'HEAD', ['force-app'])).to.be.true;
+        expect(Array.from(set)).to.deep.equal([mixedContentSingleFile.COMPONENT, deleted]);
+        expect(set.getSourceComponents().toArray()).to.deep.equal([
+          mixedContentSingleFile.COMPONENT,
+        ]);
+        expect(set.getDestructiveChangesType(deleted)).to.equal(DestructiveChangesType.Post);
+      });
+
+      it('should mark deleted components with the given destructive changes type', async () => {
+        const deleted = { fullName: 'd', type: mockRegistryData.types.mixedcontentsinglefile };
+        env
+          .stub(GitDiffResolver.prototype, 'resolve')
+          .resolves({ changed: [], deleted: [deleted] });
+
+        const set = await ComponentSet.fromGitDiff({
+          from: 'HEAD',
+          registry: mockRegistry,
+          destructiveChangesType: DestructiveChangesType.Pre,
+        });
+
+        expect(set.getDestructiveChangesType(deleted)).to.equal(DestructiveChangesType.Pre);
+      });
+    });
+
     describe('constructor', () => {
       it('should initialize non-source backed components from members', () => {
         const set = new ComponentSet(
@@ -268,6 +568,102 @@ describe('ComponentSet', () => {
     });
   });
 
+  describe('unsupported types', () => {
+    const registry = new RegistryAccess();
+    const members = [
+      { fullName: 'myClass', type: 'ApexClass' },
+      { fullName: 'myLwc', type: 'LightningComponentBundle' },
+      { fullName: 'myChannel', type: 'LightningMessageChannel' },
+    ];
+
+    it('should get the members of types not available in the api version of the set', () => {
+      const set = new ComponentSet(members);
+      set.apiVersion = '46.0';
+
+      expect(set.getUnsupportedComponents().map((c) => c.fullName)).to.deep.equal(['myChannel']);
+
+      set.apiVersion = '44.0';
+
+      expect(set.getUnsupportedComponents().map((c) => c.fullName)).to.deep.equal([
+        'myLwc',
+        'myChannel',
+      ]);
+    });
+
+    it('should log a warning once about unsupported members when building a manifest', () => {
+      const emitWarningStub = env.stub(process, 'emitWarning');
+      const set = new ComponentSet(members);
+      const warnStub = env.stub(set['logger'], 'warn');
+      set.apiVersion = '46.0';
+
+      set.getPackageXml();
+      const manifest = set.getObject();
+
+      expect(manifest.Package.types.map((t) => t.name)).to.deep.equal([
+        'ApexClass',
+        'LightningComponentBundle',
+        'LightningMessageChannel',
+      ]);
+      expect(warnStub.callCount).to.equal(1);
+      expect(warnStub.firstCall.args[0]).to.equal(
+        nls.localize('warn_unsupported_types', ['46.0', 'LightningMessageChannel:myChannel'])
+      );
+      expect(emitWarningStub.called).to.be.false;
+    });
+
+    it('should exclude unsupported members from a manifest', () => {
+      const set = new ComponentSet(members);
+      const warnStub = env.stub(set['logger'], 'warn');
+      set.apiVersion = '44.0';
+      set.unsupportedTypes = 'exclude';
+
+      const manifest = set.getObject();
+
+      expect(manifest.Package.types).to.deep.equal([{ name: 'ApexClass', members: ['myClass'] }]);
+      expect(set.size).to.equal(3);
+      expect(warnStub.called).to.be.false;
+    });
+
+    it('should exclude unsupported components when resolving for an older api version', () => {
+      const project = new SfdxProject('.', {
+        packageDirectories: [{ path: 'force-app' }],
+        sourceApiVersion: '44.0',
+      });
+      env
+        .stub(MetadataResolver.prototype, 'getComponentsFromPath')
+        .returns(
+          members.map(
+            (m) => new SourceComponent({ name: m.fullName, type: registry.getTypeByName(m.type) })
+          )
+        );
+
+      const set = ComponentSet.fromSource({ project, unsupportedTypes: 'exclude' });
+
+      expect(set.toArray().map((c) => c.fullName)).to.deep.equal(['myClass']);
+    });
+
+    it('should log a warning about unsupported components of a manifest', async () => {
+      const warnStub = env.stub(Logger.prototype, 'warn');
+      env.stub(ManifestResolver.prototype, 'resolve').resolves({
+        components: members.map((m) => ({
+          fullName: m.fullName,
+          type: registry.getTypeByName(m.type),
+        })),
+        apiVersion: '44.0',
+      });
+
+      const set = await ComponentSet.fromManifest('package.xml');
+
+      expect(set.size).to.equal(3);
+      expect(warnStub.firstCall.args[0]).to.equal(
+        nls.localize('warn_unsupported_types', [
+          '44.0',
+          'LightningComponentBundle:myLwc, LightningMessageChannel:myChannel',
+        ])
+      );
+    });
+  });
+
   describe('getObject', () => {
     it('should return an object representing the package manifest', () => {
       const set = ComponentSet.fromSource({
@@ -346,6 +742,292 @@ describe('ComponentSet', () => {
     });
   });
 
+  describe('destructive changes', () => {
+    it('should mark members for deletion', () => {
+      const set = new ComponentSet(undefined, mockRegistry);
+      set.add({ fullName: 'a', type: 'MixedContentSingleFile' });
+      set.add({ fullName: 'b', type: 'MixedContentSingleFile' }, DestructiveChangesType.Post);
+
+      expect(set.has({ fullName: 'b', type: 'MixedContentSingleFile' })).to.be.true;
+      expect(set.getDestructiveChangesType({ fullName: 'a', type: 'MixedContentSingleFile' })).to.be
+        .undefined;
+      expect(
+        set.getDestructiveChangesType({ fullName: 'b', type: 'MixedContentSingleFile' })
+      ).to.equal(DestructiveChangesType.Post);
+    });
+
+    it('should return the types of destructive changes in the set with pre before post', () => {
+      const set = new ComponentSet(undefined, mockRegistry);
+
+      expect(set.getTypesOfDestructiveChanges()).to.deep.equal([]);
+
+      set.add({ fullName: 'a', type: 'MixedContentSingleFile' }, DestructiveChangesType.Post);
+      set.add({ fullName: 'b', type: 'MixedContentSingleFile' }, DestructiveChangesType.Pre);
+
+      expect(set.getTypesOfDestructiveChanges()).to.deep.equal([
+        DestructiveChangesType.Pre,
+        DestructiveChangesType.Post,
+      ]);
+    });
+
+    it('should exclude members marked for deletion from the package manifest', () => {
+      const set = new ComponentSet(undefined, mockRegistry);
+      set.add({ fullName: 'a', type: 'MixedContentSingleFile' });
+      set.add({ fullName: 'b', type: 'MixedContentSingleFile' }, DestructiveChangesType.Pre);
+      set.add({ fullName: 'c', type: 'DecomposedTopLevel' }, DestructiveChangesType.Post);
+
+      expect(set.getObject().Package.types).to.deep.equal([
+        { name: 'MixedContentSingleFile', members: ['a'] },
+      ]);
+      expect(set.getObject(DestructiveChangesType.Pre).Package.types).to.deep.equal([
+        { name: 'MixedContentSingleFile', members: ['b'] },
+      ]);
+      expect(set.getObject(DestructiveChangesType.Post).Package.types).to.deep.equal([
+        { name: 'DecomposedTopLevel', members: ['c'] },
+      ]);
+    });
+
+    it('should create a destructive changes manifest', () => {
+      const set = new ComponentSet(undefined, mockRegistry);
+      set.add({ fullName: 'b', type: 'MixedContentSingleFile' }, DestructiveChangesType.Post);
+
+      expect(set.getPackageXml(4, DestructiveChangesType.Post)).to.equal(
+        `<?xml version="1.0" encoding="UTF-8"?>
+<Package xmlns="http://soap.sforce.com/2006/04/metadata">
+    <types>
+        <members>b</members>
+        <name>MixedContentSingleFile</name>
+    </types>
+    <version>${mockRegistry.apiVersion}</version>
+</Package>
+`
+      );
+    });
+
+    it('should keep deletion marks when combining sets', () => {
+      const member = { fullName: 'b', type: 'MixedContentSingleFile' };
+      const a = new ComponentSet(undefined, mockRegistry);
+      a.add(member, DestructiveChangesType.Pre);
+      const b = new ComponentSet([{ fullName: 'c', type: 'MixedContentSingleFile' }], mockRegistry);
+
+      expect(a.union(b).getDestructiveChangesType(member)).to.equal(DestructiveChangesType.Pre);
+      expect(a.subtract(b).getDestructiveChangesType(member)).to.equal(DestructiveChangesType.Pre);
+    });
+  });
+
+  describe('expandWildcards', () => {
+    const fileProperties = (type: string, fullName: string): FileProperties =>
+      ({ type, fullName } as FileProperties);
+
+    it('should replace wildcards with members listed in the org', async () => {
+      const connection = await mockConnection($$);
+      const listed = [
+        fileProperties('MixedContentSingleFile', 'a'),
+        fileProperties('MixedContentSingleFile', 'b'),
+      ];
+      const listStub = env.stub(connection.metadata, 'list').resolves(listed);
+      const set = new ComponentSet(
+        [{ fullName: ComponentSet.WILDCARD, type: 'MixedContentSingleFile' }],
+        mockRegistry
+      );
+
+      const result = await set.expandWildcards(connection);
+
+      expect(result).to.deep.equal(listed);
+      expect(listStub.calledOnceWith([{ type: 'MixedContentSingleFile' }], set.apiVersion)).to.be
+        .true;
+      expect(set.toArray()).to.deep.equal([
+        { fullName: 'a', type: mockRegistryData.types.mixedcontentsinglefile },
+        { fullName: 'b', type: mockRegistryData.types.mixedcontentsinglefile },
+      ]);
+    });
+
+    it('should list folders before the members of types stored in folders', async () => {
+      const connection = await mockConnection($$);
+      const listStub = env.stub(connection.metadata, 'list');
+      listStub.onFirstCall().resolves([fileProperties('McifFolder', 'Folder')]);
+      // @ts-ignore the api returns a single object instead of an array for one result
+      listStub.onSecondCall().resolves(fileProperties('MixedContentInFolder', 'Folder/a'));
+      const set = new ComponentSet(
+        [{ fullName: ComponentSet.WILDCARD, type: 'MixedContentInFolder' }],
+        mockRegistry
+      );
+
+      await set.expandWildcards(connection);
+
+      expect(listStub.firstCall.args[0]).to.deep.equal([{ type: 'McifFolder' }]);
+      expect(listStub.secondCall.args[0]).to.deep.equal([
+        { type: 'MixedContentInFolder', folder: 'unfiled$public' },
+        { type: 'MixedContentInFolder', folder: 'Folder' },
+      ]);
+      expect(set.toArray()).to.deep.equal([
+        { fullName: 'Folder', type: mockRegistryData.types.mciffolder },
+        { fullName: 'Folder/a', type: mockRegistryData.types.mixedcontentinfolder },
+      ]);
+    });
+
+    it('should list the members of the unfiled$public folder', async () => {
+      const connection = await mockConnection($$);
+      const listStub = env.stub(connection.metadata, 'list');
+      listStub.onFirstCall().resolves([]);
+      listStub
+        .onSecondCall()
+        .resolves([fileProperties('MixedContentInFolder', 'unfiled$public/a')]);
+      const set = new ComponentSet(
+        [{ fullName: ComponentSet.WILDCARD, type: 'MixedContentInFolder' }],
+        mockRegistry
+      );
+
+      await set.expandWildcards(connection);
+
+      expect(listStub.secondCall.args[0]).to.deep.equal([
+        { type: 'MixedContentInFolder', folder: 'unfiled$public' },
+      ]);
+      expect(set.toArray()).to.deep.equal([
+        { fullName: 'unfiled$public/a', type: mockRegistryData.types.mixedcontentinfolder },
+      ]);
+    });
+
+    it('should keep the wildcards if listing members fails', async () => {
+      const connection = await mockConnection($$);
+      const listStub = env.stub(connection.metadata, 'list');
+      listStub.onFirstCall().resolves([fileProperties('McifFolder', 'Folder')]);
+      listStub.onSecondCall().rejects(new Error('INVALID_SESSION_ID'));
+      const wildcards = [
+        { fullName: ComponentSet.WILDCARD, type: 'MixedContentInFolder' },
+        { fullName: ComponentSet.WILDCARD, type: 'MixedContentSingleFile' },
+      ];
+      const set = new ComponentSet(wildcards, mockRegistry);
+
+      try {
+        await set.expandWildcards(connection);
+        assert.fail('should have thrown an error');
+      } catch (e) {
+        expect(e.message).to.equal('INVALID_SESSION_ID');
+      }
+
+      expect(set.toArray()).to.deep.equal([
+        { fullName: ComponentSet.WILDCARD, type: mockRegistryData.types.mixedcontentinfolder },
+        { fullName: ComponentSet.WILDCARD, type: mockRegistryData.types.mixedcontentsinglefile },
+      ]);
+    });
+
+    it('should send at most three queries per call', async () => {
+      const connection = await mockConnection($$);
+      const listStub = env.stub(connection.metadata, 'list').resolves([]);
+      const types = ['MixedContentSingleFile', 'DecomposedTopLevel', 'MatchingContentFile', 'X'];
+      const set = new ComponentSet(
+        types.map((type) => ({ fullName: ComponentSet.WILDCARD, type })),
+        mockRegistry
+      );
+
+      await set.expandWildcards(connection);
+
+      expect(listStub.callCount).to.equal(2);
+      expect(listStub.firstCall.args[0]).to.have.length(3);
+      expect(listStub.secondCall.args[0]).to.deep.equal([{ type: 'X' }]);
+      expect(set.size).to.equal(0);
+    });
+
+    it('should keep the deletion mark of the wildcard', async () => {
+      const connection = await mockConnection($$);
+      env.stub(connection.metadata, 'list').resolves([fileProperties('X', 'Parent.a')]);
+      const set = new ComponentSet(undefined, mockRegistry);
+      set.add({ fullName: ComponentSet.WILDCARD, type: 'X' }, DestructiveChangesType.Post);
+
+      await set.expandWildcards(connection);
+
+      expect(set.getDestructiveChangesType({ fullName: 'Parent.a', type: 'X' })).to.equal(
+        DestructiveChangesType.Post
+      );
+    });
+  });
+
+  describe('toJSON', () => {
+    it('should serialize members, source paths and parents', () => {
+      const parent = decomposedtoplevel.DECOMPOSED_TOP_LEVEL_COMPONENT;
+      const [child] = parent.getChildren();
+      const set = new ComponentSet([child], mockRegistry);
+      set.add({ fullName: 'b', type: 'MixedContentSingleFile' }, DestructiveChangesType.Post);
+      set.fullName = 'MyPackage';
+
+      expect(set.toJSON()).to.deep.equal({
+        apiVersion: mockRegistry.apiVersion,
+        fullName: 'MyPackage',
+        components: [
+          {
+            fullName: child.fullName,
+            type: child.type.id,
+            name: child.name,
+            xml: child.xml,
+            parent: {
+              fullName: parent.fullName,
+              type: parent.type.id,
+              name: parent.name,
+              xml: parent.xml,
+              content: parent.content,
+            },
+          },
+          {
+            fullName: 'b',
+            type: 'mixedcontentsinglefile',
+            destructiveChangesType: DestructiveChangesType.Post,
+          },
+        ],
+      });
+    });
+  });
+
+  describe('fromJSON', () => {
+    it('should rehydrate a set from its JSON representation', () => {
+      const set = ComponentSet.fromSource({
+        fsPaths: ['.'],
+        registry: mockRegistry,
+        tree: manifestFiles.TREE,
+      });
+      set.add({ fullName: 'Test', type: 'DecomposedTopLevel' });
+      set.apiVersion = '50.0';
+
+      const result = ComponentSet.fromJSON(JSON.parse(JSON.stringify(set)), {
+        registry: mockRegistry,
+        tree: manifestFiles.TREE,
+      });
+
+      expect(result.apiVersion).to.equal('50.0');
+      expect(result.toArray()).to.deep.equal(set.toArray());
+      expect(result.getSourceComponents().first().tree).to.equal(manifestFiles.TREE);
+    });
+
+    it('should link children to their parent components', () => {
+      const [parent] = ComponentSet.fromSource({
+        fsPaths: ['decomposedTopLevels'],
+        registry: mockRegistry,
+        tree: manifestFiles.TREE,
+      }).getSourceComponents();
+      const set = new ComponentSet([parent, ...parent.getChildren()], mockRegistry);
+
+      const result = ComponentSet.fromJSON(set.toJSON(), {
+        registry: mockRegistry,
+        tree: manifestFiles.TREE,
+      });
+
+      const [rehydratedParent, child1, child2] = result.getSourceComponents();
+      expect(child1.parent).to.equal(rehydratedParent);
+      expect(child2.parent).to.equal(rehydratedParent);
+      expect(rehydratedParent.getChildren()).to.deep.equal([child1, child2]);
+    });
+
+    it('should keep deletion marks', () => {
+      const member = { fullName: 'b', type: 'MixedContentSingleFile' };
+      const set = new ComponentSet(undefined, mockRegistry);
+      set.add(member, DestructiveChangesType.Pre);
+
+      const result = ComponentSet.fromJSON(set.toJSON(), { registry: mockRegistry });
+
+      expect(result.getDestructiveChangesType(member)).to.equal(DestructiveChangesType.Pre);
+    });
+  });
+
   describe('getPackageXml', () => {
     it('should return manifest string when initialized from manifest file', async () => {
       const manifest = manifestFiles.ONE_OF_EACH;
@@ -655,6 +1337,226 @@ describe('ComponentSet', () => {
     });
   });
 
+  describe('union', () => {
+    it('should return a set with the members of both sets', () => {
+      const a = new ComponentSet([{ fullName: 'a', type: 'DecomposedTopLevel' }], mockRegistry);
+      const b = new ComponentSet([matchingContentFile.COMPONENT], mockRegistry);
+
+      const result = a.union(b);
+
+      expect(result.toArray()).to.deep.equal([
+        { fullName: 'a', type: mockRegistryData.types.decomposedtoplevel },
+        matchingContentFile.COMPONENT,
+      ]);
+      expect(a.size).to.equal(1);
+      expect(b.size).to.equal(1);
+    });
+
+    it('should keep the apiVersion of the original set', () => {
+      const a = new ComponentSet([], mockRegistry);
+      a.apiVersion = '50.0';
+
+      expect(a.union(new ComponentSet([], mockRegistry)).apiVersion).to.equal('50.0');
+    });
+  });
+
+  describe('intersect', () => {
+    it('should return members present in both sets', () => {
+      const a = new ComponentSet(
+        [
+          { fullName: 'a', type: 'MixedContentSingleFile' },
+          { fullName: 'b', type: 'MixedContentSingleFile' },
+        ],
+        mockRegistry
+      );
+      const b = new ComponentSet(
+        [
+          { fullName: 'b', type: 'MixedContentSingleFile' },
+          { fullName: 'c', type: 'MixedContentSingleFile' },
+        ],
+        mockRegistry
+      );
+
+      expect(a.intersect(b).toArray()).to.deep.equal([
+        { fullName: 'b', type: mockRegistryData.types.mixedcontentsinglefile },
+      ]);
+    });
+
+    it('should match concrete members against a wildcard and keep source components', () => {
+      const component = mixedContentSingleFile.COMPONENT;
+      const a = new ComponentSet(
+        [{ fullName: ComponentSet.WILDCARD, type: component.type }],
+        mockRegistry
+      );
+      const b = new ComponentSet([component], mockRegistry);
+
+      const result = a.intersect(b);
+
+      expect(result.getSourceComponents().toArray()).to.deep.equal([component]);
+      expect(result.has({ fullName: ComponentSet.WILDCARD, type: component.type.name })).to.be
+        .false;
+    });
+
+    it('should match children against a parent in the other set', () => {
+      const parent = decomposedtoplevel.DECOMPOSED_TOP_LEVEL_COMPONENT;
+      const [child] = parent.getChildren();
+      const a = new ComponentSet([parent], mockRegistry);
+      const b = new ComponentSet([child], mockRegistry);
+
+      expect(a.intersect(b).toArray()).to.deep.equal([child]);
+    });
+  });
+
+  describe('subtract', () => {
+    it('should return members only present in the original set', () => {
+      const a = new ComponentSet(
+        [
+          { fullName: 'a', type: 'MixedContentSingleFile' },
+          { fullName: 'b', type: 'MixedContentSingleFile' },
+        ],
+        mockRegistry
+      );
+      const b = new ComponentSet([{ fullName: 'b', type: 'MixedContentSingleFile' }], mockRegistry);
+
+      expect(a.subtract(b).toArray()).to.deep.equal([
+        { fullName: 'a', type: mockRegistryData.types.mixedcontentsinglefile },
+      ]);
+    });
+
+    it('should remove members matched by a wildcard in the other set', () => {
+      const component = mixedContentSingleFile.COMPONENT;
+      const a = new ComponentSet([component], mockRegistry);
+      const b = new ComponentSet(
+        [{ fullName: ComponentSet.WILDCARD, type: component.type }],
+        mockRegistry
+      );
+
+      expect(a.subtract(b).size).to.equal(0);
+    });
+
+    it('should keep a wildcard member when the other set only has concrete members', () => {
+      const component = mixedContentSingleFile.COMPONENT;
+      const wildcard = { fullName: ComponentSet.WILDCARD, type: component.type };
+      const a = new ComponentSet([wildcard], mockRegistry);
+      const b = new ComponentSet([component], mockRegistry);
+
+      expect(a.subtract(b).toArray()).to.deep.equal([wildcard]);
+    });
+  });
+
+  describe('isSubsetOf', () => {
+    it('should return true if every member is present in the other set', () => {
+      const parent = decomposedtoplevel.DECOMPOSED_TOP_LEVEL_COMPONENT;
+      const a = new ComponentSet(parent.getChildren(), mockRegistry);
+      const b = new ComponentSet([parent], mockRegistry);
+
+      expect(a.isSubsetOf(b)).to.be.true;
+      expect(b.isSubsetOf(a)).to.be.false;
+    });
+
+    it('should return true for an empty set', () => {
+      const a = new ComponentSet([], mockRegistry);
+
+      expect(a.isSubsetOf(new ComponentSet([], mockRegistry))).to.be.true;
+    });
+  });
+
+  describe('chunk', () => {
+    const [a, b] = matchingContentFile.COMPONENTS;
+
+    it('should split the set in order under the file limit', () => {
+      const set = new ComponentSet([a, b], mockRegistry);
+
+      const chunks = set.chunk({ maxFiles: 3 });
+
+      expect(chunks.map((chunk) => Array.from(chunk))).to.deep.equal([[a], [b]]);
+    });
+
+    it('should keep children in the same chunk as their parent', () => {
+      const set = new ComponentSet(
+        [a, REGINA_CHILD_COMPONENT_1, b, REGINA_COMPONENT],
+        mockRegistry
+      );
+
+      expect(set.chunk({ maxFiles: 4 }).map((chunk) => Array.from(chunk))).to.deep.equal([
+        [a],
+        [REGINA_CHILD_COMPONENT_1, REGINA_COMPONENT],
+        [b],
+      ]);
+      expect(set.chunk({ maxFiles: 5 }).map((chunk) => Array.from(chunk))).to.deep.equal([
+        [a, REGINA_CHILD_COMPONENT_1, REGINA_COMPONENT],
+        [b],
+      ]);
+    });
+
+    it('should place components exceeding the byte limit on their own in a chunk by themselves', () => {
+      const set = new ComponentSet([REGINA_COMPONENT, a, b], mockRegistry);
+
+      const chunks = set.chunk({ maxBytes: 50 });
+
+      expect(chunks.map((chunk) => Array.from(chunk))).to.deep.equal([[REGINA_COMPONENT], [a, b]]);
+    });
+
+    it('should measure files with the file sizes of their tree container', () => {
+      const set = new ComponentSet([REGINA_COMPONENT], mockRegistry);
+      const sizeStub = env.stub(REGINA_COMPONENT.tree, 'getFileSize').returns(30);
+
+      const chunks = set.chunk({ maxBytes: 50 });
+
+      expect(sizeStub.calledWith(REGINA_COMPONENT.xml)).to.be.true;
+      expect(chunks.map((chunk) => Array.from(chunk))).to.deep.equal([[REGINA_COMPONENT]]);
+    });
+
+    it('should split the set under the component limit', () => {
+      const set = new ComponentSet(
+        [a, REGINA_CHILD_COMPONENT_1, REGINA_COMPONENT, b],
+        mockRegistry
+      );
+
+      const chunks = set.chunk({ maxComponents: 2 });
+
+      expect(chunks.map((chunk) => Array.from(chunk))).to.deep.equal([
+        [a],
+        [REGINA_CHILD_COMPONENT_1, REGINA_COMPONENT],
+        [b],
+      ]);
+    });
+
+    it('should add members marked for deletion to the first and last chunk', () => {
+      const pre = { fullName: 'pre', type: mockRegistryData.types.matchingcontentfile };
+      const post = { fullName: 'post', type: mockRegistryData.types.matchingcontentfile };
+      const set = new ComponentSet([a], mockRegistry);
+      set.add(post, DestructiveChangesType.Post);
+      set.add(pre, DestructiveChangesType.Pre);
+      set.add(b);
+
+      const chunks = set.chunk({ maxFiles: 2 });
+
+      expect(chunks.map((chunk) => Array.from(chunk))).to.deep.equal([
+        [a, pre],
+        [b, post],
+      ]);
+      expect(chunks[0].getDestructiveChangesType(pre)).to.equal(DestructiveChangesType.Pre);
+      expect(chunks[1].getDestructiveChangesType(post)).to.equal(DestructiveChangesType.Post);
+    });
+
+    it('should return one chunk for a set with only members marked for deletion', () => {
+      const set = new ComponentSet([], mockRegistry);
+      set.add({ fullName: 'a', type: 'MatchingContentFile' }, DestructiveChangesType.Post);
+
+      const chunks = set.chunk({ maxFiles: 1 });
+
+      expect(chunks).to.have.length(1);
+      expect(chunks[0].getPackageXml(4, DestructiveChangesType.Post)).to.equal(
+        set.getPackageXml(4, DestructiveChangesType.Post)
+      );
+    });
+
+    it('should return no chunks for an empty set', () => {
+      expect(new ComponentSet([], mockRegistry).chunk({ maxFiles: 1 })).to.deep.equal([]);
+    });
+  });
+
   it('should calculate size correctly', () => {
     const set = ComponentSet.fromSource({
       fsPaths: ['.'],
@@ -0,0 +1,215 @@
+/*
+ * Copyright (c) 2021, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { expect } from 'chai';
+import { join } from 'path';
+import { ComponentSet, DependencyGraph, VirtualTreeContainer } from '../../src';
+import { VirtualDirectory } from '../../src/resolve';
+
+const ROOT = join('project', 'main', 'default');
+const CLASSES = join(ROOT, 'classes');
+const LWC = join(ROOT, 'lwc');
+const AURA = join(ROOT, 'aura');
+const OBJECTS = join(ROOT, 'objects');
+
+const file = (name: string, data = ''): { name: string; data: Buffer } => ({
+  name,
+  data: Buffer.from(data),
+});
+const metaXml = (type: string, body = ''): string =>
+  `<?xml version="1.0" encoding="UTF-8"?>\n<${type} xmlns="http://soap.sforce.com/2006/04/metadata">${body}</${type}>`;
+
+const DIRECTORIES: VirtualDirectory[] = [
+  {
+    dirPath: ROOT,
+    children: ['classes', 'lwc', 'aura', 'objects', 'layouts', 'flexipages', 'permissionsets'],
+  },
+  {
+    dirPath: CLASSES,
+    children: [
+      file('Service.cls', 'public class Service { Repository repo = new repository(); }'),
+      file('Service.cls-meta.xml', metaXml('ApexClass')),
+      file(
+        'Repository.cls',
+        "public class Repository { // Controller\n String s = 'Controller'; Util u; }"
+      ),
+      file('Repository.cls-meta.xml', metaXml('ApexClass')),
+      file('Util.cls', 'public class Util { Service s; }'),
+      file('Util.cls-meta.xml', metaXml('ApexClass')),
+      file('Controller.cls', 'public class Controller { Service s; }'),
+      file('Controller.cls-meta.xml', metaXml('ApexClass')),
+    ],
+  },
+  { dirPath: LWC, children: ['list', 'item'] },
+  {
+    dirPath: join(LWC, 'list'),
+    children: [
+      file('list.js', "import { LightningElement } from 'lwc';\nimport Item from 'c/item';"),
+      file('list.js-meta.xml', metaXml('LightningComponentBundle')),
+    ],
+  },
+  {
+    dirPath: join(LWC, 'item'),
+    children: [file('item.js', ''), file('item.js-meta.xml', metaXml('LightningComponentBundle'))],
+  },
+  { dirPath: AURA, children: ['app'] },
+  {
+    dirPath: join(AURA, 'app'),
+    children: [
+      file('app.cmp', '<aura:component><c:list /></aura:component>'),
+      file('app.cmp-meta.xml', metaXml('AuraDefinitionBundle')),
+    ],
+  },
+  { dirPath: OBJECTS, children: ['Account'] },
+  {
+    dirPath: join(OBJECTS, 'Account'),
+    children: [file('Account.object-meta.xml', metaXml('CustomObject')), 'fields'],
+  },
+  {
+    dirPath: join(OBJECTS, 'Account', 'fields'),
+    children: [
+      file('Rating__c.field-meta.xml', metaXml('CustomField')),
+      file('Region__c.field-meta.xml', metaXml('CustomField')),
+    ],
+  },
+  {
+    dirPath: join(ROOT, 'layouts'),
+    children: [
+      file(
+        'Account-Account Layout.layout-meta.xml',
+        metaXml(
+          'Layout',
+          '<layoutSections><layoutColumns><layoutItems><field>Rating__c</field></layoutItems>' +
+            '<layoutItems><field>Name</field></layoutItems></layoutColumns></layoutSections>'
+        )
+      ),
+    ],
+  },
+  {
+    dirPath: join(ROOT, 'flexipages'),
+    children: [
+      file(
+        'Account_Record_Page.flexipage-meta.xml',
+        metaXml(
+          'FlexiPage',
+          '<flexiPageRegions><itemInstances><fieldInstance><fieldItem>Record.Region__c</fieldItem>' +
+            '</fieldInstance></itemInstances></flexiPageRegions><sobjectType>Account</sobjectType>'
+        )
+      ),
+    ],
+  },
+  {
+    dirPath: join(ROOT, 'permissionsets'),
+    children: [
+      file(
+        'Sales.permissionset-meta.xml',
+        metaXml(
+          'PermissionSet',
+          '<fieldPermissions><field>Account.Rating__c</field></fieldPermissions>' +
+            '<objectPermissions><object>Account</object></objectPermissions>'
+        )
+      ),
+    ],
+  },
+];
+
+describe('DependencyGraph', () => {
+  const tree = new VirtualTreeContainer(DIRECTORIES);
+  const set = ComponentSet.fromSource({ fsPaths: [ROOT], tree });
+  let graph: DependencyGraph;
+
+  const names = (components: { fullName: string }[]): string[] =>
+    components.map((c) => c.fullName).sort();
+
+  beforeEach(() => {
+    graph = set.getDependencyGraph();
+  });
+
+  it('should include the children of components', () => {
+    expect(graph.size).to.equal(set.size + 2);
+    expect(names(graph.getComponents())).to.include.members(['Account.Rating__c']);
+  });
+
+  it('should find apex class references case insensitively', () => {
+    expect(names(graph.getDependencies({ fullName: 'Service', type: 'ApexClass' }))).to.deep.equal([
+      'Repository',
+    ]);
+  });
+
+  it('should ignore apex references in comments and strings', () => {
+    expect(
+      names(graph.getDependencies({ fullName: 'Repository', type: 'ApexClass' }))
+    ).to.deep.equal(['Util']);
+  });
+
+  it('should find lwc imports and aura usages', () => {
+    expect(
+      names(graph.getDependencies({ fullName: 'list', type: 'LightningComponentBundle' }))
+    ).to.deep.equal(['item']);
+    expect(
+      names(graph.getDependencies({ fullName: 'app', type: 'AuraDefinitionBundle' }))
+    ).to.deep.equal(['list']);
+  });
+
+  it('should find field references of layouts and flexipages', () => {
+    // Name is not a component of the graph, so the layout depends on its object instead
+    expect(
+      names(graph.getDependencies({ fullName: 'Account-Account Layout', type: 'Layout' }))
+    ).to.deep.equal(['Account', 'Account.Rating__c']);
+    expect(
+      names(graph.getDependencies({ fullName: 'Account_Record_Page', type: 'FlexiPage' }))
+    ).to.deep.equal(['Account.Region__c']);
+  });
+
+  it('should find object and field references of permission sets', () => {
+    expect(
+      names(graph.getDependencies({ fullName: 'Sales', type: 'PermissionSet' }))
+    ).to.deep.equal(['Account', 'Account.Rating__c']);
+  });
+
+  it('should make children depend on their parent', () => {
+    expect(
+      names(graph.getDependents({ fullName: 'Account', type: 'CustomObject' }))
+    ).to.include.members(['Account.Rating__c', 'Account.Region__c']);
+  });
+
+  it('should find transitive dependencies and dependents', () => {
+    expect(
+      names(graph.getDependencies({ fullName: 'Controller', type: 'ApexClass' }, true))
+    ).to.deep.equal(['Repository', 'Service', 'Util']);
+    expect(
+      names(graph.getDependents({ fullName: 'Account', type: 'CustomObject' }, true))
+    ).to.deep.equal([
+      'Account-Account Layout',
+      'Account.Rating__c',
+      'Account.Region__c',
+      'Account_Record_Page',
+      'Sales',
+    ]);
+  });
+
+  it('should return no dependencies for a member that is not in the graph', () => {
+    expect(graph.getDependencies({ fullName: 'Missing', type: 'ApexClass' })).to.deep.equal([]);
+  });
+
+  it('should sort components after their dependencies', () => {
+    const sorted = graph.sort().map((c) => `${c.type.name}:${c.fullName}`);
+
+    expect(sorted).to.have.length(graph.size);
+    const before = (a: string, b: string): boolean => sorted.indexOf(a) < sorted.indexOf(b);
+    expect(before('LightningComponentBundle:item', 'LightningComponentBundle:list')).to.be.true;
+    expect(before('LightningComponentBundle:list', 'AuraDefinitionBundle:app')).to.be.true;
+    expect(before('CustomObject:Account', 'CustomField:Account.Rating__c')).to.be.true;
+    expect(before('CustomField:Account.Rating__c', 'Layout:Account-Account Layout')).to.be.true;
+    expect(before('CustomField:Account.Rating__c', 'PermissionSet:Sales')).to.be.true;
+  });
+
+  it('should place components in a dependency cycle last', () => {
+    const sorted = graph.sort().map((c) => c.fullName);
+
+    expect(sorted.slice(-4)).to.have.members(['Service', 'Repository', 'Util', 'Controller']);
+  });
+});
@@ -0,0 +1,121 @@
+/*
+ * Copyright (c) 2021, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { expect } from 'chai';
+import { join } from 'path';
+import { ComponentSet, SourceIndex, VirtualTreeContainer } from '../../src';
+import { VirtualDirectory } from '../../src/resolve';
+
+const ROOT = join('project', 'main', 'default');
+const CLASSES = join(ROOT, 'classes');
+const LWC_FOO = join(ROOT, 'lwc', 'foo');
+const ACCOUNT = join(ROOT, 'objects', 'Account');
+const LABELS = join(ROOT, 'labels');
+
+const file = (name: string, data = ''): { name: string; data: Buffer } => ({
+  name,
+  data: Buffer.from(data),
+});
+
+const DIRECTORIES: VirtualDirectory[] = [
+  { dirPath: ROOT, children: ['classes', 'lwc', 'objects', 'labels'] },
+  { dirPath: CLASSES, children: [file('Service.cls'), file('Service.cls-meta.xml')] },
+  { dirPath: join(ROOT, 'lwc'), children: ['foo'] },
+  { dirPath: LWC_FOO, children: [file('foo.js'), file('foo.js-meta.xml'), 'utils'] },
+  { dirPath: join(LWC_FOO, 'utils'), children: [file('helper.js')] },
+  { dirPath: join(ROOT, 'objects'), children: ['Account'] },
+  { dirPath: ACCOUNT, children: [file('Account.object-meta.xml'), 'fields'] },
+  { dirPath: join(ACCOUNT, 'fields'), children: [file('X__c.field-meta.xml')] },
+  {
+    dirPath: LABELS,
+    children: [
+      file(
+        'CustomLabels.labels-meta.xml',
+        '<?xml version="1.0" encoding="UTF-8"?>\n<CustomLabels xmlns="http://soap.sforce.com/2006/04/metadata">' +
+          '<labels><fullName>Greeting</fullName></labels></CustomLabels>'
+      ),
+    ],
+  },
+];
+
+describe('SourceIndex', () => {
+  const tree = new VirtualTreeContainer(DIRECTORIES);
+  const set = ComponentSet.fromSource({ fsPaths: [ROOT], tree });
+  let index: SourceIndex;
+
+  const ownerOf = (fsPath: string): string => {
+    const component = index.getComponent(fsPath);
+    return component ? `${component.type.name}:${component.fullName}` : undefined;
+  };
+
+  beforeEach(() => {
+    index = set.getSourceIndex();
+  });
+
+  it('should map the metadata xml and content of a component to it', () => {
+    expect(ownerOf(join(CLASSES, 'Service.cls'))).to.equal('ApexClass:Service');
+    expect(ownerOf(join(CLASSES, 'Service.cls-meta.xml'))).to.equal('ApexClass:Service');
+  });
+
+  it('should map every file of a bundle to the bundle', () => {
+    expect(ownerOf(join(LWC_FOO, 'utils', 'helper.js'))).to.equal('LightningComponentBundle:foo');
+    expect(ownerOf(LWC_FOO)).to.equal('LightningComponentBundle:foo');
+  });
+
+  it('should map the files of decomposed children to the child', () => {
+    expect(ownerOf(join(ACCOUNT, 'fields', 'X__c.field-meta.xml'))).to.equal(
+      'CustomField:Account.X__c'
+    );
+    expect(ownerOf(join(ACCOUNT, 'Account.object-meta.xml'))).to.equal('CustomObject:Account');
+  });
+
+  it('should map a shared metadata xml to the parent of non-decomposed children', () => {
+    expect(ownerOf(join(LABELS, 'CustomLabels.labels-meta.xml'))).to.equal(
+      'CustomLabels:CustomLabels'
+    );
+  });
+
+  it('should map files that are not indexed to the component containing them', () => {
+    expect(ownerOf(join(LWC_FOO, 'new.js'))).to.equal('LightningComponentBundle:foo');
+    expect(ownerOf(join(CLASSES, 'New.cls'))).to.be.undefined;
+  });
+
+  it('should get the indexed files of a component', () => {
+    expect(index.getPaths({ fullName: 'foo', type: 'LightningComponentBundle' })).to.have.members([
+      LWC_FOO,
+      join(LWC_FOO, 'foo.js'),
+      join(LWC_FOO, 'foo.js-meta.xml'),
+      join(LWC_FOO, 'utils', 'helper.js'),
+    ]);
+    expect(index.getPaths({ fullName: 'Account', type: 'CustomObject' })).to.not.include(
+      join(ACCOUNT, 'fields', 'X__c.field-meta.xml')
+    );
+  });
+
+  it('should remove a component and its children', () => {
+    const size = index.size;
+
+    index.remove({ fullName: 'Account', type: 'CustomObject' });
+
+    expect(ownerOf(join(ACCOUNT, 'Account.object-meta.xml'))).to.be.undefined;
+    expect(ownerOf(join(ACCOUNT, 'fields', 'X__c.field-meta.xml'))).to.be.undefined;
+    expect(index.size).to.be.lessThan(size);
+  });
+
+  it('should replace the files of a component that is added again', () => {
+    const changedTree = new VirtualTreeContainer([
+      { dirPath: LWC_FOO, children: [file('foo.js'), file('foo.js-meta.xml')] },
+    ]);
+    const [changed] = ComponentSet.fromSource({ fsPaths: [LWC_FOO], tree: changedTree })
+      .getSourceComponents()
+      .toArray();
+
+    index.add(changed);
+
+    expect(index.getComponent(join(LWC_FOO, 'foo.js'))).to.equal(changed);
+    expect(index.getPaths(changed)).to.not.include(join(LWC_FOO, 'utils', 'helper.js'));
+  });
+});
@@ -225,7 +225,11 @@ describe('Convert Transaction Constructs', () => {
 
         env
           .stub(ComponentSet, 'fromSource')
-          .withArgs({ fsPaths: [match(nonDecomposed.NON_DEFAULT_DIR)], include: match.any })
+          .withArgs({
+            fsPaths: [nonDecomposed.DEFAULT_DIR, nonDecomposed.NON_DEFAULT_DIR],
+            include: match.any,
+            tree: nonDecomposed.TREE,
+          })
           .returns(new ComponentSet([unprocessedComponent]));
 
         const context = new ConvertContext();
@@ -266,7 +270,11 @@ describe('Convert Transaction Constructs', () => {
 
         env
           .stub(ComponentSet, 'fromSource')
-          .withArgs({ fsPaths: [match(nonDecomposed.NON_DEFAULT_DIR)], include: match.any })
+          .withArgs({
+            fsPaths: [nonDecomposed.DEFAULT_DIR, nonDecomposed.NON_DEFAULT_DIR],
+            include: match.any,
+            tree: nonDecomposed.TREE,
+          })
           .returns(new ComponentSet([unprocessedComponent]));
 
         const writeInfos = [
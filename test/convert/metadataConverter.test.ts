@@ -14,13 +14,19 @@ import { expect, assert } from 'chai';
 import { ConversionError, LibraryError } from '../../src/errors';
 import { COMPONENTS } from '../mock/registry/type-constants/mixedContentInFolderConstants';
 import { fail } from 'assert';
-import { ComponentSet, MetadataConverter } from '../../src';
+import {
+  ComponentSet,
+  DestructiveChangesType,
+  MetadataConverter,
+  VirtualTreeContainer,
+} from '../../src';
 import {
   REGINA_CHILD_COMPONENT_1,
   REGINA_CHILD_COMPONENT_2,
 } from '../mock/registry/type-constants/reginaConstants';
 
 const env = createSandbox();
+const { pipeline } = streams;
 
 describe('MetadataConverter', () => {
   let ensureDirectoryStub: SinonStub;
@@ -181,6 +187,54 @@ describe('MetadataConverter', () => {
       ]);
     });
 
+    it('should write destructive changes manifests for members marked for deletion', async () => {
+      const timestamp = 123456;
+      const packagePath = join(
+        outputDirectory,
+        `${MetadataConverter.DEFAULT_PACKAGE_PREFIX}_${timestamp}`
+      );
+      env.stub(Date, 'now').returns(timestamp);
+      const [toDeploy, toDelete] = components;
+      const cs = new ComponentSet([toDeploy], mockRegistry);
+      cs.add(toDelete, DestructiveChangesType.Post);
+
+      await converter.convert(cs, 'metadata', { type: 'directory', outputDirectory });
+
+      expect(writeFileStub.callCount).to.equal(2);
+      expect(writeFileStub.firstCall.args).to.deep.equal([
+        join(packagePath, MetadataConverter.PACKAGE_XML_FILE),
+        cs.getPackageXml(),
+      ]);
+      expect(writeFileStub.secondCall.args).to.deep.equal([
+        join(packagePath, MetadataConverter.DESTRUCTIVE_CHANGES_POST_XML_FILE),
+        cs.getPackageXml(4, DestructiveChangesType.Post),
+      ]);
+    });
+
+    it('should only list converted components and deletions in the manifests', async () => {
+      const [toDeploy, toDelete] = components;
+      const cs = new ComponentSet([toDeploy], mockRegistry);
+      cs.add({ fullName: ComponentSet.WILDCARD, type: 'MixedContentSingleFile' });
+      cs.add({ fullName: 'ManifestOnly', type: 'MixedContentSingleFile' });
+      cs.add(toDelete, DestructiveChangesType.Post);
+      const expected = new ComponentSet([toDeploy], mockRegistry);
+      expected.add(toDelete, DestructiveChangesType.Post);
+      expected.fullName = packageName;
+
+      await converter.convert(cs, 'metadata', { type: 'directory', outputDirectory, packageName });
+
+      expect(writeFileStub.firstCall.args).to.deep.equal([
+        join(packageOutput, MetadataConverter.PACKAGE_XML_FILE),
+        expected.getPackageXml(),
+      ]);
+      expect(writeFileStub.secondCall.args).to.deep.equal([
+        join(packageOutput, MetadataConverter.DESTRUCTIVE_CHANGES_POST_XML_FILE),
+        expected.getPackageXml(4, DestructiveChangesType.Post),
+      ]);
+      expect(cs.fullName).to.be.undefined;
+      expect(cs.size).to.equal(4);
+    });
+
     it('should not write manifest for source format conversion', async () => {
       await converter.convert(components, 'source', { type: 'directory', outputDirectory });
 
@@ -268,6 +322,40 @@ describe('MetadataConverter', () => {
       ]);
     });
 
+    it('should write destructive changes manifests for members marked for deletion', async () => {
+      const [toDeploy, preDelete, postDelete] = components;
+      const cs = new ComponentSet([toDeploy], mockRegistry);
+      cs.add(preDelete, DestructiveChangesType.Pre);
+      cs.add(postDelete, DestructiveChangesType.Post);
+      const addToZipStub = env.stub(streams.ZipWriter.prototype, 'addToZip');
+
+      await converter.convert(cs, 'metadata', { type: 'zip' });
+
+      expect(addToZipStub.args).to.deep.equal([
+        [cs.getPackageXml(), MetadataConverter.PACKAGE_XML_FILE],
+        [
+          cs.getPackageXml(4, DestructiveChangesType.Pre),
+          MetadataConverter.DESTRUCTIVE_CHANGES_PRE_XML_FILE,
+        ],
+        [
+          cs.getPackageXml(4, DestructiveChangesType.Post),
+          MetadataConverter.DESTRUCTIVE_CHANGES_POST_XML_FILE,
+        ],
+      ]);
+    });
+
+    it('should not convert components marked for deletion', async () => {
+      const [toDeploy, toDelete] = components;
+      const cs = new ComponentSet([toDeploy], mockRegistry);
+      cs.add(toDelete, DestructiveChangesType.Pre);
+
+      await converter.convert(cs, 'metadata', { type: 'zip' });
+
+      const reader: streams.ComponentReader = pipelineStub.secondCall.args[0];
+      expect(reader.read()).to.equal(toDeploy);
+      expect(reader.read()).to.be.null;
+    });
+
     it('should not write manifest for source format conversion', async () => {
       const addToZipStub = env.stub(streams.ZipWriter.prototype, 'addToZip');
 
@@ -277,6 +365,81 @@ describe('MetadataConverter', () => {
     });
   });
 
+  describe('Tree Output', () => {
+    const sourceDir = join('project', 'classes');
+    const sourceTree = new VirtualTreeContainer([
+      {
+        dirPath: sourceDir,
+        children: [
+          { name: 'Test.cls', data: Buffer.from('public class Test {}') },
+          { name: 'Test.cls-meta.xml', data: Buffer.from('<ApexClass/>') },
+        ],
+      },
+    ]);
+    const sourceSet = ComponentSet.fromSource({ fsPaths: [sourceDir], tree: sourceTree });
+
+    it('should create conversion pipeline with tree configuration', async () => {
+      const tree = new VirtualTreeContainer([]);
+
+      await converter.convert(components, 'metadata', {
+        type: 'tree',
+        tree,
+        outputDirectory,
+        packageName,
+      });
+
+      const pipelineArgs = pipelineStub.firstCall.args;
+      validatePipelineArgs(pipelineArgs);
+      expect(pipelineArgs[2] instanceof streams.TreeWriter).to.be.true;
+      expect(pipelineArgs[2].rootDestination).to.equal(packageOutput);
+      expect(pipelineArgs[2].tree).to.equal(tree);
+      expect(ensureDirectoryStub.notCalled).to.be.true;
+    });
+
+    it('should convert into the tree without writing to the file system', async () => {
+      pipelineStub.callsFake(pipeline);
+      const tree = new VirtualTreeContainer([]);
+
+      const result = await new MetadataConverter().convert(sourceSet, 'metadata', {
+        type: 'tree',
+        tree,
+        packageName,
+      });
+
+      expect(result.packagePath).to.equal(packageName);
+      expect(tree.readDirectory(join(packageName, 'classes'))).to.have.members([
+        'Test.cls',
+        'Test.cls-meta.xml',
+      ]);
+      expect(tree.readFileSync(join(packageName, 'classes', 'Test.cls')).toString()).to.equal(
+        'public class Test {}'
+      );
+      const expectedSet = new ComponentSet(sourceSet);
+      expectedSet.fullName = packageName;
+      expect(
+        tree.readFileSync(join(packageName, MetadataConverter.PACKAGE_XML_FILE)).toString()
+      ).to.equal(expectedSet.getPackageXml());
+      expect(sourceSet.fullName).to.be.undefined;
+      expect(writeFileStub.notCalled).to.be.true;
+    });
+
+    it('should return converted components bound to the tree', async () => {
+      pipelineStub.callsFake(pipeline);
+      const tree = new VirtualTreeContainer([]);
+
+      const { converted } = await new MetadataConverter().convert(sourceSet, 'source', {
+        type: 'tree',
+        tree,
+        outputDirectory: 'out',
+      });
+
+      expect(converted.map((c) => c.fullName)).to.deep.equal(['Test']);
+      expect(converted[0].tree).to.equal(tree);
+      expect(converted[0].content).to.equal(join('out', 'main', 'default', 'classes', 'Test.cls'));
+      expect(tree.exists(join('out', MetadataConverter.PACKAGE_XML_FILE))).to.be.false;
+    });
+  });
+
   describe('Merge Output', () => {
     const defaultDirectory = join('path', 'to', 'default');
 
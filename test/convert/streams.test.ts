@@ -13,7 +13,8 @@ import { expect } from 'chai';
 import { basename, join, sep } from 'path';
 import { createSandbox, SinonStub } from 'sinon';
 import { Readable, Writable } from 'stream';
-import { MetadataResolver, SourceComponent, ComponentSet } from '../../src';
+import { MetadataResolver, SourceComponent, ComponentSet, VirtualTreeContainer } from '../../src';
+import { NodeFSTreeContainer } from '../../src/resolve';
 import { WriteInfo, WriterFormat } from '../../src/convert';
 import { MetadataTransformerFactory } from '../../src/convert/transformers';
 import { LibraryError } from '../../src/errors';
@@ -282,6 +283,11 @@ describe('Streams', () => {
           .returns(fsWritableMock);
       });
 
+      it('should write to the file system as a TreeWriter', () => {
+        expect(writer).to.be.instanceOf(streams.TreeWriter);
+        expect(writer['tree']).to.be.instanceOf(NodeFSTreeContainer);
+      });
+
       it('should pass errors to _write callback', async () => {
         const whoops = new Error('whoops!');
         pipelineStub.rejects(whoops);
@@ -373,6 +379,62 @@ describe('Streams', () => {
       });
     });
 
+    describe('TreeWriter', () => {
+      let tree: VirtualTreeContainer;
+      let writer: streams.TreeWriter;
+
+      const treeChunk = (): WriterFormat => ({
+        component,
+        writeInfos: [
+          {
+            output: component.getPackageRelativePath(component.xml, 'metadata'),
+            source: Readable.from([Buffer.from('xml')]),
+          },
+          {
+            output: component.getPackageRelativePath(component.content, 'metadata'),
+            source: Readable.from([Buffer.from('content')]),
+          },
+        ],
+      });
+
+      beforeEach(() => {
+        tree = new VirtualTreeContainer([]);
+        writer = new streams.TreeWriter(rootDestination, tree, mockRegistry);
+      });
+
+      it('should write the converted files into the tree', async () => {
+        const root = join(rootDestination, COMPONENT.type.directoryName);
+
+        await writer._write(treeChunk(), '', (err: Error) => expect(err).to.be.undefined);
+
+        expect(tree.readDirectory(root)).to.have.members([
+          basename(COMPONENT.xml),
+          basename(COMPONENT.content),
+        ]);
+        expect(tree.readFileSync(join(root, basename(COMPONENT.xml))).toString()).to.equal('xml');
+        expect(tree.readFileSync(join(root, basename(COMPONENT.content))).toString()).to.equal(
+          'content'
+        );
+      });
+
+      it('should resolve converted components from the tree', async () => {
+        await writer._write(treeChunk(), '', (err: Error) => expect(err).to.be.undefined);
+
+        expect(writer.converted).to.have.length(1);
+        expect(writer.converted[0].fullName).to.equal(COMPONENT.fullName);
+        expect(writer.converted[0].tree).to.equal(tree);
+      });
+
+      it('should pass errors to _write callback', async () => {
+        const whoops = new Error('whoops!');
+        env.stub(tree, 'writeFile').rejects(whoops);
+
+        await writer._write(treeChunk(), '', (err: Error) => {
+          expect(err).to.equal(whoops);
+        });
+      });
+    });
+
     describe('ZipWriter', () => {
       let archive: archiver.Archiver;
       let writer: streams.ZipWriter;
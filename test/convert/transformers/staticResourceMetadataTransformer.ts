@@ -6,10 +6,11 @@
  */
 import * as archiver from 'archiver';
 import { expect } from 'chai';
-import { join, basename } from 'path';
+import { join, basename, relative } from 'path';
 import { createSandbox } from 'sinon';
 import { Entry, CentralDirectory, Open } from 'unzipper';
 import { SourceComponent, VirtualTreeContainer } from '../../../src';
+import { NodeFSTreeContainer } from '../../../src/resolve';
 import { WriteInfo } from '../../../src/convert';
 import { StaticResourceMetadataTransformer } from '../../../src/convert/transformers/staticResourceMetadataTransformer';
 import { LibraryError } from '../../../src/errors';
@@ -61,8 +62,12 @@ describe('StaticResourceMetadataTransformer', () => {
     });
 
     it('should zip directory content for all supported archive mime types', async () => {
-      const component = SourceComponent.createVirtualComponent(TARAJI_COMPONENT, TARAJI_VIRTUAL_FS);
+      const component = new SourceComponent(TARAJI_COMPONENT, new NodeFSTreeContainer());
       const { type, content, xml } = component;
+      env.stub(NodeFSTreeContainer.prototype, 'isDirectory').returns(true);
+      env
+        .stub(NodeFSTreeContainer.prototype, 'stream')
+        .callsFake((fsPath: string) => new TestReadable(fsPath));
       const archive = archiver.create('zip', { zlib: { level: 3 } });
       const archiveDirStub = env.stub(archive, 'directory');
       const archiveFinalizeStub = env.stub(archive, 'finalize');
@@ -89,6 +94,28 @@ describe('StaticResourceMetadataTransformer', () => {
       }
     });
 
+    it('should zip directory content read through the tree of the component', async () => {
+      const component = SourceComponent.createVirtualComponent(TARAJI_COMPONENT, TARAJI_VIRTUAL_FS);
+      const { content } = component;
+      const archive = archiver.create('zip', { zlib: { level: 3 } });
+      const archiveDirStub = env.stub(archive, 'directory');
+      const archiveAppendStub = env.stub(archive, 'append');
+      env.stub(archive, 'finalize');
+      env
+        .stub(component, 'parseXml')
+        .resolves({ StaticResource: { contentType: 'application/zip' } });
+      env.stub(archiver, 'create').returns(archive);
+
+      await transformer.toMetadataFormat(component);
+
+      expect(archiveDirStub.called).to.be.false;
+      expect(archiveAppendStub.args.map(([source, data]) => [source, data])).to.deep.equal(
+        component
+          .walkContent()
+          .map((fsPath) => [new TestReadable(fsPath), { name: relative(content, fsPath) }])
+      );
+    });
+
     it('should throw an error if content is directory but contentType is not an archive type', async () => {
       const component = SourceComponent.createVirtualComponent(TARAJI_COMPONENT, TARAJI_VIRTUAL_FS);
       const contentType = 'nonArchiveType';
@@ -0,0 +1,70 @@
+/*
+ * Copyright (c) 2021, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { DescribeMetadataResult } from '../../../src/registry';
+
+/**
+ * An excerpt of a describeMetadata() result, in the shape of the JSON output of
+ * `sfdx force:mdapi:describemetadata --json`
+ */
+export const mockDescribeResult: DescribeMetadataResult = {
+  metadataObjects: [
+    {
+      directoryName: 'classes',
+      inFolder: 'false',
+      metaFile: 'true',
+      suffix: 'cls',
+      xmlName: 'ApexClass',
+    },
+    {
+      directoryName: 'emailservices',
+      inFolder: 'false',
+      metaFile: 'false',
+      suffix: 'xml',
+      xmlName: 'EmailServicesFunction',
+    },
+    {
+      directoryName: 'email',
+      inFolder: 'true',
+      metaFile: 'true',
+      suffix: 'email',
+      xmlName: 'EmailTemplate',
+    },
+    {
+      directoryName: 'reports',
+      inFolder: 'true',
+      metaFile: 'false',
+      suffix: 'report',
+      xmlName: 'Report',
+    },
+    {
+      childXmlNames: [
+        'WorkflowFieldUpdate',
+        'WorkflowKnowledgePublish',
+        'WorkflowTask',
+        'WorkflowAlert',
+        'WorkflowSend',
+        'WorkflowOutboundMessage',
+        'WorkflowRule',
+        'WorkflowFlowAction',
+      ],
+      directoryName: 'workflows',
+      inFolder: 'false',
+      metaFile: 'false',
+      suffix: 'workflow',
+      xmlName: 'Workflow',
+    },
+    {
+      directoryName: 'experiencePropertyTypeBundles',
+      inFolder: 'false',
+      metaFile: 'false',
+      xmlName: 'ExperiencePropertyTypeBundle',
+    },
+  ],
+  organizationNamespace: '',
+  partialSaveAllowed: 'true',
+  testRequired: 'false',
+};
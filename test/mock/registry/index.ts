@@ -18,3 +18,4 @@ export {
   decomposedtoplevel,
 } from './type-constants';
 export { mockRegistry, mockRegistryData } from './mockRegistry';
+export { mockDescribeResult } from './describeMetadata';
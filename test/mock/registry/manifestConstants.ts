@@ -69,6 +69,28 @@ export const ONE_WILDCARD: VirtualFile = {
 </Package>\n`),
 };
 
+export const DESTRUCTIVE_PRE: VirtualFile = {
+  name: 'destructiveChangesPre.xml',
+  data: Buffer.from(`<?xml version="1.0" encoding="UTF-8"?>
+<Package xmlns="http://soap.sforce.com/2006/04/metadata">
+    <types>
+        <members>d</members>
+        <name>${mixedcontentsinglefile.name}</name>
+    </types>
+</Package>\n`),
+};
+
+export const DESTRUCTIVE_POST: VirtualFile = {
+  name: 'destructiveChangesPost.xml',
+  data: Buffer.from(`<?xml version="1.0" encoding="UTF-8"?>
+<Package xmlns="http://soap.sforce.com/2006/04/metadata">
+    <types>
+        <members>c</members>
+        <name>${mixedcontentsinglefile.name}</name>
+    </types>
+</Package>\n`),
+};
+
 export const TREE = new VirtualTreeContainer([
   {
     dirPath: '.',
@@ -79,6 +101,8 @@ export const TREE = new VirtualTreeContainer([
       ONE_OF_EACH,
       ONE_WILDCARD,
       ONE_FOLDER_MEMBER,
+      DESTRUCTIVE_PRE,
+      DESTRUCTIVE_POST,
     ],
   },
   {
@@ -105,8 +105,19 @@ export const MATCHING_RULES_COMPONENT_XML = {
   },
 };
 
+export const PROJECT_JSON = {
+  packageDirectories: [{ path: 'force-app', default: true }, { path: 'my-app' }],
+};
+
 export const VIRTUAL_DIR: VirtualDirectory[] = [
-  { dirPath: WORKING_DIR, children: [DEFAULT_DIR, NON_DEFAULT_DIR] },
+  {
+    dirPath: WORKING_DIR,
+    children: [
+      DEFAULT_DIR,
+      NON_DEFAULT_DIR,
+      { name: 'sfdx-project.json', data: Buffer.from(JSON.stringify(PROJECT_JSON)) },
+    ],
+  },
   { dirPath: DEFAULT_DIR, children: [] },
   { dirPath: NON_DEFAULT_DIR, children: [] },
   {
@@ -5,9 +5,18 @@
  * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
  */
 import { assert, expect } from 'chai';
-import { RegistryError } from '../../src/errors';
+import { join } from 'path';
+import { MissingTypeError, RegistryError } from '../../src/errors';
 import { nls } from '../../src/i18n';
-import { MetadataRegistry, MetadataType } from '../../src/registry';
+import {
+  AdapterStrategy,
+  MetadataRegistry,
+  MetadataType,
+  registry,
+  RegistryAccess,
+  TransformerStrategy,
+} from '../../src/registry';
+import { SfdxProject, VirtualTreeContainer } from '../../src/resolve';
 import { mockRegistry, mockRegistryData } from '../mock/registry';
 
 describe('RegistryAccess', () => {
@@ -37,7 +46,7 @@ describe('RegistryAccess', () => {
     it('should throw an error if type definition missing', () => {
       assert.throws(
         () => mockRegistry.getTypeByName('TypeWithoutDef'),
-        RegistryError,
+        MissingTypeError,
         nls.localize('error_missing_type_definition', 'typewithoutdef')
       );
     });
@@ -45,13 +54,30 @@ describe('RegistryAccess', () => {
     it('should throw an error if child type definition missing', () => {
       assert.throws(
         () => mockRegistry.getTypeByName('badchildtype'),
-        RegistryError,
+        MissingTypeError,
         nls.localize('error_missing_child_type_definition', [
           'mixedcontentsinglefile',
           'badchildtype',
         ])
       );
     });
+
+    it('should suggest similarly named types if type definition missing', () => {
+      try {
+        mockRegistry.getTypeByName('ReginaKings');
+        assert.fail('expected an error');
+      } catch (e) {
+        expect(e).to.be.an.instanceOf(MissingTypeError);
+        expect(e.typeName).to.equal('reginakings');
+        expect(e.suggestions).to.deep.equal(['ReginaKing']);
+        expect(e.message).to.equal(
+          `${nls.localize('error_missing_type_definition', 'reginakings')}. ${nls.localize(
+            'suggestion_did_you_mean',
+            'ReginaKing'
+          )}`
+        );
+      }
+    });
   });
 
   describe('getTypeBySuffix', () => {
@@ -80,4 +106,263 @@ describe('RegistryAccess', () => {
       expect(mockRegistry.getStrictFolderTypes()).to.deep.equal(types);
     });
   });
+
+  describe('getTypes', () => {
+    it('should return all the types of the registry', () => {
+      expect(mockRegistry.getTypes()).to.deep.equal(Object.values(mockRegistryData.types));
+    });
+
+    it('should return child types after their parent type', () => {
+      const { reginaking } = mockRegistryData.types;
+      const types = mockRegistry.getTypes(true);
+      const index = types.indexOf(reginaking);
+
+      expect(types.slice(index, index + 3)).to.deep.equal([
+        reginaking,
+        reginaking.children.types.x,
+        reginaking.children.types.y,
+      ]);
+    });
+  });
+
+  describe('getTypesByDirectoryName', () => {
+    it('should return the types sharing a directory', () => {
+      const { xmlinfolder, xmlinfolderfolder } = mockRegistryData.types;
+      expect(mockRegistry.getTypesByDirectoryName('xmlinfolders')).to.deep.equal([
+        xmlinfolder,
+        xmlinfolderfolder,
+      ]);
+    });
+
+    it('should return child types', () => {
+      expect(mockRegistry.getTypesByDirectoryName('gs')).to.deep.equal([
+        mockRegistryData.types.decomposedtoplevel.children.types.g,
+      ]);
+    });
+
+    it('should return an empty array for an unknown directory', () => {
+      expect(mockRegistry.getTypesByDirectoryName('asdf')).to.be.empty;
+    });
+  });
+
+  describe('getParentType', () => {
+    it('should return the parent of a child type', () => {
+      const { reginaking } = mockRegistryData.types;
+      expect(mockRegistry.getParentType('X')).to.deep.equal(reginaking);
+      expect(mockRegistry.getParentType(reginaking.children.types.y)).to.deep.equal(reginaking);
+    });
+
+    it('should return undefined for a type that is not a child type', () => {
+      expect(mockRegistry.getParentType('reginaking')).to.be.undefined;
+    });
+
+    it('should throw an error for a missing type', () => {
+      assert.throws(() => mockRegistry.getParentType('z'), MissingTypeError);
+    });
+  });
+
+  describe('getChildTypes', () => {
+    it('should return the children of a type', () => {
+      const { reginaking } = mockRegistryData.types;
+      const children = [reginaking.children.types.x, reginaking.children.types.y];
+      expect(mockRegistry.getChildTypes('ReginaKing')).to.deep.equal(children);
+      expect(mockRegistry.getChildTypes(reginaking)).to.deep.equal(children);
+    });
+
+    it('should return an empty array for a type without children', () => {
+      expect(mockRegistry.getChildTypes('bundle')).to.be.empty;
+    });
+  });
+
+  describe('getFolderTypePairs', () => {
+    it('should return the folder types with the types they contain', () => {
+      const {
+        xmlinfolder,
+        xmlinfolderfolder,
+        mixedcontentinfolder,
+        mciffolder,
+      } = mockRegistryData.types;
+      expect(mockRegistry.getFolderTypePairs()).to.deep.equal([
+        { folderType: xmlinfolderfolder, contentType: xmlinfolder },
+        { folderType: mciffolder, contentType: mixedcontentinfolder },
+      ]);
+    });
+  });
+
+  describe('getTypesByAdapter', () => {
+    it('should return the types using an adapter strategy', () => {
+      const { reginaking, decomposedtoplevel } = mockRegistryData.types;
+      expect(mockRegistry.getTypesByAdapter(AdapterStrategy.Decomposed)).to.deep.equal([
+        reginaking,
+        decomposedtoplevel,
+      ]);
+    });
+
+    it('should return types without an adapter strategy for the default strategy', () => {
+      const types = mockRegistry.getTypesByAdapter(AdapterStrategy.Default);
+      expect(types).to.deep.include(mockRegistryData.types.xmlinfolder);
+      expect(types).to.deep.include(mockRegistryData.types.nondecomposed);
+    });
+  });
+
+  describe('getTypesByTransformer', () => {
+    it('should return the types using a transformer strategy', () => {
+      expect(mockRegistry.getTypesByTransformer(TransformerStrategy.StaticResource)).to.deep.equal([
+        mockRegistryData.types.mixedcontentsinglefile,
+      ]);
+    });
+
+    it('should return types without a transformer strategy for the standard strategy', () => {
+      const types = mockRegistry.getTypesByTransformer(TransformerStrategy.Standard);
+      expect(types).to.deep.include(mockRegistryData.types.matchingcontentfile);
+      expect(types).to.deep.include(mockRegistryData.types.document);
+    });
+  });
+
+  describe('api version scoping', () => {
+    const access = new RegistryAccess();
+    const lwc = registry.types.lightningcomponentbundle;
+
+    it('should tell whether a type is available in an api version', () => {
+      const removed = { ...lwc, removedIn: '50.0' };
+
+      expect(access.isSupported(lwc, '44.0')).to.be.false;
+      expect(access.isSupported(lwc, '45.0')).to.be.true;
+      expect(access.isSupported(removed, '49.0')).to.be.true;
+      expect(access.isSupported(removed, '50.0')).to.be.false;
+      expect(access.isSupported(registry.types.apexclass, '20.0')).to.be.true;
+    });
+
+    it('should use the api version of the registry by default', () => {
+      expect(access.isSupported({ ...lwc, introducedIn: '99.0' })).to.be.false;
+      expect(access.forApiVersion('44.0').isSupported(lwc)).to.be.false;
+    });
+
+    it('should leave unavailable types out of the queries of a scoped registry', () => {
+      const scoped = access.forApiVersion('44.0');
+
+      expect(scoped.apiVersion).to.equal('44.0');
+      expect(scoped.getStrictFolderTypes()).to.not.deep.include(lwc);
+      expect(scoped.findType((type) => type.directoryName === 'lwc')).to.be.undefined;
+      expect(scoped.getTypeBySuffix('messageChannel')).to.be.undefined;
+      expect(scoped.getTypeBySuffix('cls')).to.deep.equal(registry.types.apexclass);
+      expect(scoped.getTypeByName('LightningComponentBundle')).to.deep.equal(lwc);
+      expect(scoped.getTypes()).to.not.deep.include(lwc);
+      expect(scoped.getTypesByDirectoryName('lwc')).to.be.empty;
+      expect(scoped.getTypesByAdapter(AdapterStrategy.Bundle)).to.not.deep.include(lwc);
+    });
+  });
+
+  describe('fromFile', () => {
+    const filePath = join('config', 'registry.json');
+
+    it('should merge the overlay of a file over the default registry', () => {
+      const tree = new VirtualTreeContainer([
+        {
+          dirPath: 'config',
+          children: [
+            {
+              name: 'registry.json',
+              data: Buffer.from(JSON.stringify({ types: { apexclass: { suffix: 'apex' } } })),
+            },
+          ],
+        },
+      ]);
+
+      const access = RegistryAccess.fromFile(filePath, tree);
+
+      expect(access.getTypeBySuffix('apex')).to.deep.equal({
+        ...registry.types.apexclass,
+        suffix: 'apex',
+      });
+    });
+
+    it('should throw an error if the file is not valid JSON', () => {
+      const tree = new VirtualTreeContainer([
+        { dirPath: 'config', children: [{ name: 'registry.json', data: Buffer.from('{') }] },
+      ]);
+
+      assert.throws(
+        () => RegistryAccess.fromFile(filePath, tree),
+        RegistryError,
+        `${filePath}: Invalid registry customizations`
+      );
+    });
+  });
+
+  describe('fromProject', () => {
+    const projectDir = join('path', 'to', 'project');
+    const createTree = (customizations?: unknown): VirtualTreeContainer => {
+      const config = {
+        packageDirectories: [{ path: 'force-app' }],
+        registryCustomizations: customizations,
+      };
+      return new VirtualTreeContainer([
+        {
+          dirPath: projectDir,
+          children: [
+            'force-app',
+            { name: SfdxProject.FILE_NAME, data: Buffer.from(JSON.stringify(config)) },
+            {
+              name: 'registry.json',
+              data: Buffer.from(JSON.stringify({ suffixes: { apexcls: 'apexclass' } })),
+            },
+          ],
+        },
+        { dirPath: join(projectDir, 'force-app'), children: [] },
+      ]);
+    };
+
+    it('should merge the customizations of the project file', () => {
+      const tree = createTree({ suffixes: { apexcls: 'apexclass' } });
+
+      const access = RegistryAccess.fromProject(join(projectDir, 'force-app'), tree);
+
+      expect(access.getTypeBySuffix('apexcls')).to.deep.equal(registry.types.apexclass);
+    });
+
+    it('should merge the customizations of a file relative to the project', () => {
+      const tree = createTree('registry.json');
+      const project = SfdxProject.fromDirectory(projectDir, tree);
+
+      const access = RegistryAccess.fromProject(project, tree);
+
+      expect(access.getTypeBySuffix('apexcls')).to.deep.equal(registry.types.apexclass);
+    });
+
+    it('should use the default registry without customizations', () => {
+      const access = RegistryAccess.fromProject(projectDir, createTree());
+
+      expect(access.getTypeBySuffix('apexcls')).to.be.undefined;
+      expect(access.getTypeBySuffix('cls')).to.deep.equal(registry.types.apexclass);
+    });
+
+    it('should use the default registry if the project cannot be loaded', () => {
+      const tree = new VirtualTreeContainer([
+        {
+          dirPath: projectDir,
+          children: [
+            { name: SfdxProject.FILE_NAME, data: Buffer.from('{"packageDirectories": []}') },
+          ],
+        },
+      ]);
+
+      const access = RegistryAccess.fromProject(projectDir, tree);
+
+      expect(access.getTypeBySuffix('cls')).to.deep.equal(registry.types.apexclass);
+    });
+
+    it('should name the project file in errors of its customizations', () => {
+      const tree = createTree({ suffixes: { apexcls: 'missingtype' } });
+
+      assert.throws(
+        () => RegistryAccess.fromProject(projectDir, tree),
+        RegistryError,
+        nls.localize('error_invalid_registry_overlay', [
+          join(projectDir, SfdxProject.FILE_NAME),
+          "suffixes.apexcls: 'missingtype' is not a type of the registry",
+        ])
+      );
+    });
+  });
 });
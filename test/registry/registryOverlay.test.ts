@@ -0,0 +1,172 @@
+/*
+ * Copyright (c) 2021, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { assert, expect } from 'chai';
+import { RegistryError } from '../../src/errors';
+import { nls } from '../../src/i18n';
+import { applyRegistryOverlay, registry, RegistryOverlay } from '../../src/registry';
+
+describe('applyRegistryOverlay', () => {
+  it('should add a new type and index its suffix and strict directory', () => {
+    const result = applyRegistryOverlay(registry, {
+      types: {
+        myconfig: {
+          name: 'MyConfig',
+          suffix: 'myconfig',
+          directoryName: 'myconfigs',
+          inFolder: false,
+          strictDirectoryName: true,
+        },
+      },
+    });
+
+    expect(result.types.myconfig).to.deep.equal({
+      id: 'myconfig',
+      name: 'MyConfig',
+      suffix: 'myconfig',
+      directoryName: 'myconfigs',
+      inFolder: false,
+      strictDirectoryName: true,
+    });
+    expect(result.suffixes.myconfig).to.equal('myconfig');
+    expect(result.strictDirectoryNames.myconfigs).to.equal('myconfig');
+  });
+
+  it('should merge the properties of an existing type and move its suffix', () => {
+    const result = applyRegistryOverlay(registry, {
+      types: { apexclass: { suffix: 'apex' } },
+    });
+
+    expect(result.types.apexclass).to.deep.equal({ ...registry.types.apexclass, suffix: 'apex' });
+    expect(result.suffixes.apex).to.equal('apexclass');
+    expect(result.suffixes.cls).to.be.undefined;
+  });
+
+  it('should index the children of a type', () => {
+    const result = applyRegistryOverlay(registry, {
+      types: {
+        myconfig: {
+          name: 'MyConfig',
+          suffix: 'myconfig',
+          directoryName: 'myconfigs',
+          inFolder: false,
+          strictDirectoryName: false,
+          children: {
+            types: {
+              myconfigentry: {
+                id: 'myconfigentry',
+                name: 'MyConfigEntry',
+                suffix: 'entry',
+                directoryName: 'entries',
+                inFolder: false,
+                strictDirectoryName: false,
+              },
+            },
+          },
+        },
+      },
+    });
+
+    expect(result.types.myconfig.children.suffixes).to.deep.equal({ entry: 'myconfigentry' });
+    expect(result.types.myconfig.children.directories).to.deep.equal({
+      entries: 'myconfigentry',
+    });
+    expect(result.childTypes.myconfigentry).to.equal('myconfig');
+  });
+
+  it('should add index entries and the api version', () => {
+    const result = applyRegistryOverlay(registry, {
+      suffixes: { apexcls: 'apexclass' },
+      apiVersion: '53.0',
+    });
+
+    expect(result.suffixes.apexcls).to.equal('apexclass');
+    expect(result.suffixes.cls).to.equal('apexclass');
+    expect(result.apiVersion).to.equal('53.0');
+  });
+
+  it('should not change the given registry', () => {
+    applyRegistryOverlay(registry, { types: { apexclass: { suffix: 'apex' } } });
+
+    expect(registry.types.apexclass.suffix).to.equal('cls');
+    expect(registry.suffixes).to.not.have.property('apex');
+  });
+
+  it('should throw an error naming every offending key', () => {
+    const overlay = {
+      types: {
+        apexclass: { suffix: 5, strategies: { adaptor: 'bundle' } },
+        myconfig: { id: 'other', name: 'MyConfig' },
+      },
+      suffix: {},
+      apiVersion: 'latest',
+    };
+
+    assert.throws(
+      () => applyRegistryOverlay(registry, (overlay as unknown) as RegistryOverlay, 'overlay.json'),
+      RegistryError,
+      nls.localize('error_invalid_registry_overlay', [
+        'overlay.json',
+        [
+          'types.apexclass.suffix: expected a string',
+          'types.apexclass.strategies.adaptor: unknown strategy',
+          "types.myconfig.id: expected the id to match its key 'myconfig'",
+          'suffix: unknown key, expected one of types, suffixes, strictDirectoryNames, childTypes, apiVersion',
+          'apiVersion: expected a version such as "52.0"',
+        ].join('; '),
+      ])
+    );
+  });
+
+  it('should throw an error for new types without a name', () => {
+    assert.throws(
+      () => applyRegistryOverlay(registry, { types: { myconfig: { suffix: 'myconfig' } } }),
+      RegistryError,
+      nls.localize('error_invalid_registry_overlay', [
+        'registry overlay',
+        'types.myconfig.name: missing name',
+      ])
+    );
+  });
+
+  it('should throw an error for inconsistencies the overlay introduces', () => {
+    assert.throws(
+      () =>
+        applyRegistryOverlay(registry, {
+          types: {
+            apexclass: { strategies: { adapter: 'matchingContent' } },
+            apextrigger: { suffix: 'cls' },
+          },
+        }),
+      RegistryError,
+      nls.localize('error_invalid_registry_overlay', [
+        'registry overlay',
+        [
+          "types.apexclass.strategies.adapter: unknown adapter 'matchingContent', expected one of default, matchingContentFile, decomposed, bundle, mixedContent",
+          "types.apexclass.suffix: suffix 'cls' is indexed to 'apextrigger' in suffixes",
+        ].join('; '),
+      ])
+    );
+  });
+
+  it('should throw an error for index entries of unknown types', () => {
+    assert.throws(
+      () =>
+        applyRegistryOverlay(registry, {
+          suffixes: { foo: 'missingtype' },
+          childTypes: { missingchild: 'customobject' },
+        }),
+      RegistryError,
+      nls.localize('error_invalid_registry_overlay', [
+        'registry overlay',
+        [
+          "suffixes.foo: 'missingtype' is not a type of the registry",
+          "childTypes.missingchild: 'customobject' has no child type 'missingchild'",
+        ].join('; '),
+      ])
+    );
+  });
+});
@@ -0,0 +1,192 @@
+/*
+ * Copyright (c) 2021, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { assert, expect } from 'chai';
+import { RegistryError } from '../../src/errors';
+import { nls } from '../../src/i18n';
+import {
+  DescribeMetadataResult,
+  registry,
+  TypeOverrides,
+  updateRegistry,
+} from '../../src/registry';
+import { VirtualTreeContainer } from '../../src/resolve';
+import { mockDescribeResult } from '../mock/registry';
+
+describe('updateRegistry', () => {
+  // the overrides of scripts/update-registry/typeOverride.json
+  const typeOverrides: TypeOverrides = {
+    emailservicesfunction: { suffix: null },
+    emailtemplatefolder: { id: 'emailfolder', name: 'EmailFolder', suffix: 'emailFolder' },
+  };
+
+  it('should add new types and child types', () => {
+    const diff = updateRegistry(registry, mockDescribeResult, { typeOverrides });
+
+    expect(diff.addedTypes).to.deep.equal([
+      {
+        id: 'experiencepropertytypebundle',
+        name: 'ExperiencePropertyTypeBundle',
+        directoryName: 'experiencePropertyTypeBundles',
+        inFolder: false,
+        strictDirectoryName: true,
+      },
+    ]);
+    expect(diff.addedChildTypes).to.deep.equal([
+      {
+        parentId: 'workflow',
+        type: {
+          id: 'workflowflowaction',
+          name: 'WorkflowFlowAction',
+          directoryName: 'workflowFlowActions',
+          suffix: 'workflowFlowAction',
+        },
+      },
+    ]);
+    expect(diff.suffixChanges).to.be.empty;
+    expect(diff.problems).to.be.empty;
+
+    const { types, strictDirectoryNames, childTypes } = diff.registry;
+    expect(strictDirectoryNames.experiencePropertyTypeBundles).to.equal(
+      'experiencepropertytypebundle'
+    );
+    expect(types.workflow.children.suffixes.workflowFlowAction).to.equal('workflowflowaction');
+    expect(types.workflow.children.directories.workflowFlowActions).to.equal('workflowflowaction');
+    expect(childTypes.workflowflowaction).to.equal('workflow');
+  });
+
+  it('should keep the definitions of existing types', () => {
+    const diff = updateRegistry(registry, mockDescribeResult, { typeOverrides });
+
+    for (const typeId of [
+      'apexclass',
+      'emailservicesfunction',
+      'emailtemplate',
+      'emailfolder',
+    ] as const) {
+      expect(diff.registry.types[typeId]).to.deep.equal(registry.types[typeId]);
+    }
+    expect(diff.registry.types).to.not.have.property('emailtemplatefolder');
+  });
+
+  it('should apply type overrides read from a file', () => {
+    const tree = new VirtualTreeContainer([
+      {
+        dirPath: 'update',
+        children: [
+          { name: 'describe.json', data: Buffer.from(JSON.stringify(mockDescribeResult)) },
+          { name: 'typeOverride.json', data: Buffer.from(JSON.stringify(typeOverrides)) },
+        ],
+      },
+    ]);
+
+    const diff = updateRegistry(registry, 'update/describe.json', {
+      typeOverrides: 'update/typeOverride.json',
+      tree,
+    });
+
+    expect(diff.registry.types.emailservicesfunction.suffix).to.be.null;
+    expect(diff.registry.types.emailtemplate.folderType).to.equal('emailfolder');
+    expect(diff.addedTypes.map((t) => t.id)).to.deep.equal(['experiencepropertytypebundle']);
+  });
+
+  it('should report suffix changes and move the suffix index', () => {
+    const describe: DescribeMetadataResult = {
+      metadataObjects: [{ xmlName: 'ApexClass', suffix: 'apex', directoryName: 'classes' }],
+    };
+
+    const diff = updateRegistry(registry, describe);
+
+    expect(diff.suffixChanges).to.deep.equal([
+      { typeId: 'apexclass', previous: 'cls', suffix: 'apex' },
+    ]);
+    expect(diff.registry.types.apexclass).to.deep.equal({
+      ...registry.types.apexclass,
+      suffix: 'apex',
+    });
+    expect(diff.registry.suffixes.apex).to.equal('apexclass');
+    expect(diff.registry.suffixes).to.not.have.property('cls');
+  });
+
+  it('should add a folder type for new types in folders', () => {
+    const describe: DescribeMetadataResult = {
+      metadataObjects: [
+        { xmlName: 'MyReport', suffix: 'myReport', directoryName: 'myReports', inFolder: true },
+      ],
+    };
+
+    const diff = updateRegistry(registry, describe);
+
+    expect(diff.addedTypes).to.deep.equal([
+      {
+        id: 'myreport',
+        name: 'MyReport',
+        suffix: 'myReport',
+        directoryName: 'myReports',
+        inFolder: true,
+        strictDirectoryName: false,
+        folderType: 'myreportfolder',
+      },
+      {
+        id: 'myreportfolder',
+        name: 'MyReportFolder',
+        suffix: 'myreportFolder',
+        directoryName: 'myReports',
+        inFolder: false,
+        strictDirectoryName: false,
+        folderContentType: 'myreport',
+      },
+    ]);
+    expect(diff.problems).to.be.empty;
+  });
+
+  it('should set the api version of the updated registry', () => {
+    const diff = updateRegistry(registry, mockDescribeResult, {
+      typeOverrides,
+      apiVersion: '53.0',
+    });
+
+    expect(diff.registry.apiVersion).to.equal('53.0');
+  });
+
+  it('should not change the given registry', () => {
+    updateRegistry(registry, mockDescribeResult, { typeOverrides });
+
+    expect(registry.types).to.not.have.property('experiencepropertytypebundle');
+    expect(registry.childTypes).to.not.have.property('workflowflowaction');
+  });
+
+  it('should report inconsistencies of the updated registry', () => {
+    const describe: DescribeMetadataResult = {
+      metadataObjects: [{ xmlName: 'MyClass', suffix: 'cls', directoryName: 'myclasses' }],
+    };
+
+    const diff = updateRegistry(registry, describe);
+
+    expect(diff.registry.suffixes.cls).to.equal('apexclass');
+    expect(diff.problems).to.deep.equal([
+      {
+        location: 'types.myclass.suffix',
+        message: "suffix 'cls' is indexed to 'apexclass' in suffixes",
+      },
+    ]);
+  });
+
+  it('should throw an error for an invalid describe result', () => {
+    const tree = new VirtualTreeContainer([
+      { dirPath: 'update', children: [{ name: 'describe.json', data: Buffer.from('{}') }] },
+    ]);
+
+    assert.throws(
+      () => updateRegistry(registry, 'update/describe.json', { tree }),
+      RegistryError,
+      nls.localize('error_invalid_describe_result', [
+        'update/describe.json',
+        'expected a list of metadataObjects',
+      ])
+    );
+  });
+});
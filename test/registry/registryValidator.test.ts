@@ -0,0 +1,94 @@
+/*
+ * Copyright (c) 2021, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { expect } from 'chai';
+import { MetadataRegistry, registry, validateRegistry } from '../../src/registry';
+
+describe('validateRegistry', () => {
+  let copy: MetadataRegistry;
+
+  beforeEach(() => {
+    copy = JSON.parse(JSON.stringify(registry));
+  });
+
+  it('should find no problems in the default registry', () => {
+    expect(validateRegistry(registry)).to.deep.equal([]);
+  });
+
+  it('should report suffix collisions', () => {
+    copy.types.apextrigger.suffix = 'cls';
+
+    expect(validateRegistry(copy)).to.deep.equal([
+      {
+        location: 'types.apextrigger.suffix',
+        message: "suffix 'cls' is indexed to 'apexclass' in suffixes",
+      },
+    ]);
+  });
+
+  it('should report index entries of missing types', () => {
+    copy.suffixes.foo = 'missingtype';
+    copy.strictDirectoryNames.foos = 'missingtype';
+
+    expect(validateRegistry(copy)).to.deep.equal([
+      { location: 'suffixes.foo', message: "'missingtype' is not a type of the registry" },
+      {
+        location: 'strictDirectoryNames.foos',
+        message: "'missingtype' is not a type of the registry",
+      },
+    ]);
+  });
+
+  it('should report child type entries of types without children', () => {
+    copy.childTypes.customfield = 'apexclass';
+
+    expect(validateRegistry(copy)).to.deep.include.members([
+      { location: 'childTypes.customfield', message: "'apexclass' has no children" },
+      {
+        location: 'types.customobject.children.types.customfield',
+        message: "child type isn't indexed to 'customobject' in childTypes",
+      },
+    ]);
+  });
+
+  it('should report unknown strategies', () => {
+    copy.types.apexclass.strategies = { adapter: 'matchingContent', transformer: 'standard' };
+    copy.types.customobject.children.types.customfield.strategies = { adapter: 'bundel' };
+
+    expect(validateRegistry(copy)).to.deep.equal([
+      {
+        location: 'types.customobject.children.types.customfield.strategies.adapter',
+        message:
+          "unknown adapter 'bundel', expected one of default, matchingContentFile, decomposed, bundle, mixedContent",
+      },
+      {
+        location: 'types.apexclass.strategies.adapter',
+        message:
+          "unknown adapter 'matchingContent', expected one of default, matchingContentFile, decomposed, bundle, mixedContent",
+      },
+    ]);
+  });
+
+  it('should report inconsistent child and folder types', () => {
+    copy.types.customobject.children.suffixes.field = 'customfields';
+    copy.types.document.folderType = 'docfolder';
+
+    expect(validateRegistry(copy)).to.deep.equal([
+      {
+        location: 'types.customobject.children.types.customfield.suffix',
+        message: "suffix 'field' is indexed to 'customfields' in children.suffixes",
+      },
+      {
+        location: 'types.customobject.children.suffixes.field',
+        message: "'customfields' is not a child type of 'customobject'",
+      },
+      {
+        location: 'types.document.folderType',
+        message: "'docfolder' is not a type of the registry",
+      },
+    ]);
+  });
+});
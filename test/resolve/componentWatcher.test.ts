@@ -0,0 +1,261 @@
+/*
+ * Copyright (c) 2021, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { expect } from 'chai';
+import * as fs from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { createSandbox } from 'sinon';
+import {
+  ComponentChangeEvent,
+  ComponentWatcher,
+  FileEvent,
+  FileEventSource,
+  NodeFSEventSource,
+} from '../../src/resolve';
+
+class FakeEventSource implements FileEventSource {
+  public watched: string[] = [];
+  public closed = false;
+  private listener: (event: FileEvent) => void;
+
+  public watch(fsPaths: string[], listener: (event: FileEvent) => void): void {
+    this.watched = fsPaths;
+    this.listener = listener;
+  }
+
+  public close(): void {
+    this.closed = true;
+  }
+
+  public emit(type: FileEvent['type'], path: string): void {
+    this.listener({ type, path });
+  }
+}
+
+describe('ComponentWatcher', () => {
+  const sandbox = createSandbox();
+  let root: string;
+  let eventSource: FakeEventSource;
+  let watcher: ComponentWatcher;
+
+  const write = (relativePath: string, data = ''): string => {
+    const fsPath = join(root, relativePath);
+    fs.mkdirSync(dirname(fsPath), { recursive: true });
+    fs.writeFileSync(fsPath, data);
+    return fsPath;
+  };
+  const summarize = (events: ComponentChangeEvent[]): string[] =>
+    events.map((e) => `${e.type} ${e.component.type.name}:${e.component.fullName}`);
+
+  beforeEach(() => {
+    root = fs.realpathSync(fs.mkdtempSync(join(tmpdir(), 'sdr-watcher-')));
+    write(join('classes', 'Service.cls'));
+    write(join('classes', 'Service.cls-meta.xml'));
+    write(join('lwc', 'foo', 'foo.js'));
+    write(join('lwc', 'foo', 'foo.js-meta.xml'));
+    write(join('objects', 'Account', 'Account.object-meta.xml'));
+    write(join('objects', 'Account', 'fields', 'Rating__c.field-meta.xml'));
+    eventSource = new FakeEventSource();
+    watcher = new ComponentWatcher({ fsPaths: [root], eventSource });
+    watcher.start();
+  });
+
+  afterEach(() => {
+    watcher.stop();
+    sandbox.restore();
+    fs.rmdirSync(root, { recursive: true });
+  });
+
+  it('should watch the given directories', () => {
+    expect(eventSource.watched).to.deep.equal([root]);
+  });
+
+  it('should report a changed file as a change of its component', () => {
+    const fsPath = join(root, 'classes', 'Service.cls');
+    eventSource.emit('change', fsPath);
+
+    const events = watcher.flush();
+
+    expect(summarize(events)).to.deep.equal(['changed ApexClass:Service']);
+    expect(events[0].files).to.deep.equal([fsPath]);
+  });
+
+  it('should coalesce the events of a bundle into one change of the bundle', () => {
+    const helper = write(join('lwc', 'foo', 'utils', 'helper.js'));
+    eventSource.emit('add', helper);
+    eventSource.emit('change', join(root, 'lwc', 'foo', 'foo.js'));
+    eventSource.emit('change', join(root, 'lwc', 'foo', 'foo.js'));
+
+    const events = watcher.flush();
+
+    expect(summarize(events)).to.deep.equal(['changed LightningComponentBundle:foo']);
+    expect(events[0].files).to.have.members([helper, join(root, 'lwc', 'foo', 'foo.js')]);
+  });
+
+  it('should report changes to decomposed children as changes of the child', () => {
+    const rating = join(root, 'objects', 'Account', 'fields', 'Rating__c.field-meta.xml');
+    const region = write(join('objects', 'Account', 'fields', 'Region__c.field-meta.xml'));
+    eventSource.emit('change', rating);
+    eventSource.emit('add', region);
+
+    expect(summarize(watcher.flush())).to.deep.equal([
+      'changed CustomField:Account.Rating__c',
+      'added CustomField:Account.Region__c',
+    ]);
+  });
+
+  it('should report a deleted child as a deletion of the child', () => {
+    const rating = join(root, 'objects', 'Account', 'fields', 'Rating__c.field-meta.xml');
+    fs.unlinkSync(rating);
+    eventSource.emit('unlink', rating);
+
+    const events = watcher.flush();
+
+    expect(summarize(events)).to.deep.equal(['deleted CustomField:Account.Rating__c']);
+    expect(events[0].files).to.deep.equal([rating]);
+  });
+
+  it('should report added and deleted components', () => {
+    fs.unlinkSync(join(root, 'classes', 'Service.cls'));
+    fs.unlinkSync(join(root, 'classes', 'Service.cls-meta.xml'));
+    const added = write(join('classes', 'Repository.cls'));
+    write(join('classes', 'Repository.cls-meta.xml'));
+    eventSource.emit('unlink', join(root, 'classes', 'Service.cls'));
+    eventSource.emit('unlink', join(root, 'classes', 'Service.cls-meta.xml'));
+    eventSource.emit('add', added);
+    eventSource.emit('add', `${added}-meta.xml`);
+
+    const events = watcher.flush();
+
+    expect(summarize(events)).to.deep.equal([
+      'added ApexClass:Repository',
+      'deleted ApexClass:Service',
+    ]);
+    expect(events[1].files).to.have.length(2);
+  });
+
+  it('should ignore files that are not metadata or are forceignored', () => {
+    fs.writeFileSync(join(root, '.forceignore'), '**/ignored.cls\n');
+    eventSource.emit('change', join(root, '.forceignore'));
+    const ignored = write(join('classes', 'ignored.cls'));
+    const readme = write('README.md');
+    eventSource.emit('add', ignored);
+    eventSource.emit('add', readme);
+
+    expect(watcher.flush()).to.deep.equal([]);
+  });
+
+  it('should report changes to subscribers after the debounce period', () => {
+    const clock = sandbox.useFakeTimers();
+    const subscriber = sandbox.stub();
+    watcher.onChange(subscriber);
+
+    eventSource.emit('change', join(root, 'classes', 'Service.cls'));
+    clock.tick(ComponentWatcher.DEFAULT_DEBOUNCE - 1);
+    eventSource.emit('change', join(root, 'classes', 'Service.cls-meta.xml'));
+    clock.tick(ComponentWatcher.DEFAULT_DEBOUNCE - 1);
+    expect(subscriber.called).to.be.false;
+    clock.tick(1);
+
+    expect(subscriber.calledOnce).to.be.true;
+    expect(summarize(subscriber.firstCall.args[0])).to.deep.equal(['changed ApexClass:Service']);
+  });
+
+  it('should report errors to error subscribers', () => {
+    const error = new Error('resolve failed');
+    sandbox.stub(watcher['resolver'], 'getComponentsFromPathLenient').throws(error);
+    const subscriber = sandbox.stub();
+    watcher.onError(subscriber);
+
+    eventSource.emit('change', join(root, 'classes', 'Service.cls'));
+
+    expect(watcher.flush()).to.deep.equal([]);
+    expect(subscriber.calledOnceWith(error)).to.be.true;
+  });
+
+  it('should log errors of the debounce timer without error subscribers', () => {
+    const clock = sandbox.useFakeTimers();
+    const error = new Error('resolve failed');
+    sandbox.stub(watcher['resolver'], 'getComponentsFromPathLenient').throws(error);
+    const logStub = sandbox.stub(watcher['logger'], 'error');
+
+    eventSource.emit('change', join(root, 'classes', 'Service.cls'));
+    clock.tick(ComponentWatcher.DEFAULT_DEBOUNCE);
+
+    expect(logStub.calledOnceWith(error)).to.be.true;
+  });
+
+  it('should close the event source when stopped', () => {
+    watcher.stop();
+
+    expect(eventSource.closed).to.be.true;
+  });
+});
+
+describe('NodeFSEventSource', () => {
+  let root: string;
+  let source: NodeFSEventSource;
+  let events: FileEvent[];
+
+  const waitFor = async (type: FileEvent['type'], path: string): Promise<void> => {
+    for (let waited = 0; waited < 2000; waited += 10) {
+      if (events.some((e) => e.type === type && e.path === path)) {
+        return;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    expect(events).to.deep.include({ type, path });
+  };
+
+  beforeEach(() => {
+    root = fs.realpathSync(fs.mkdtempSync(join(tmpdir(), 'sdr-fs-events-')));
+    fs.mkdirSync(join(root, 'classes'));
+    events = [];
+    source = new NodeFSEventSource();
+    source.watch([root], (event) => events.push(event));
+  });
+
+  afterEach(() => {
+    source.close();
+    fs.rmdirSync(root, { recursive: true });
+  });
+
+  it('should report added and deleted files of subdirectories', async () => {
+    const fsPath = join(root, 'classes', 'A.cls');
+
+    fs.writeFileSync(fsPath, '');
+    await waitFor('add', fsPath);
+    fs.unlinkSync(fsPath);
+    await waitFor('unlink', fsPath);
+  });
+
+  it('should watch directories added to a watched directory', async () => {
+    const dirPath = join(root, 'lwc');
+    const fsPath = join(dirPath, 'foo.js');
+
+    fs.mkdirSync(dirPath);
+    await waitFor('add', dirPath);
+    fs.writeFileSync(fsPath, '');
+    await waitFor('add', fsPath);
+  });
+
+  it('should report a file that is gone while handling its event as deleted', () => {
+    const fsPath = join(root, 'classes', '.A.cls.swp');
+
+    expect(() => source['onEvent']('rename', fsPath)).to.not.throw();
+    expect(events).to.deep.equal([{ type: 'unlink', path: fsPath }]);
+  });
+
+  it('should stop reporting changes when closed', async () => {
+    source.close();
+
+    fs.writeFileSync(join(root, 'classes', 'A.cls'), '');
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(events).to.be.empty;
+  });
+});
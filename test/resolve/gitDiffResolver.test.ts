@@ -0,0 +1,144 @@
+/*
+ * Copyright (c) 2021, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+import { expect } from 'chai';
+import { join } from 'path';
+import { createSandbox, SinonStub } from 'sinon';
+import { GitDiffResolver, GitTreeContainer, VirtualTreeContainer } from '../../src/resolve';
+import * as git from '../../src/utils/git';
+import { mockRegistry, mockRegistryData } from '../mock/registry';
+
+const env = createSandbox();
+
+const ROOT = join('path', 'to');
+const BUNDLE_PATH = join(ROOT, 'bundles', 'a');
+const DECOMPOSED_PATH = join(ROOT, 'decomposedTopLevels', 'a');
+const MIXED_PATH = join(ROOT, 'mixedSingleFiles');
+
+const TARGET_TREE = new VirtualTreeContainer([
+  { dirPath: ROOT, children: ['bundles', 'decomposedTopLevels', 'mixedSingleFiles', 'README.md'] },
+  { dirPath: join(ROOT, 'bundles'), children: ['a'] },
+  { dirPath: BUNDLE_PATH, children: ['a.js-meta.xml', 'a.js', 'a.css'] },
+  { dirPath: join(ROOT, 'decomposedTopLevels'), children: ['a'] },
+  { dirPath: DECOMPOSED_PATH, children: ['a.dtl-meta.xml', 'z.g-meta.xml'] },
+  { dirPath: MIXED_PATH, children: ['b.foo', 'b.mixedSingleFile-meta.xml'] },
+]);
+
+const SOURCE_TREE = new VirtualTreeContainer([
+  { dirPath: ROOT, children: ['bundles', 'decomposedTopLevels', 'mixedSingleFiles'] },
+  { dirPath: join(ROOT, 'bundles'), children: ['a'] },
+  { dirPath: BUNDLE_PATH, children: ['a.js-meta.xml', 'a.js', 'a.css', 'a.html'] },
+  { dirPath: join(ROOT, 'decomposedTopLevels'), children: ['a'] },
+  { dirPath: DECOMPOSED_PATH, children: ['a.dtl-meta.xml', 'z.g-meta.xml', 'y.g-meta.xml'] },
+  { dirPath: MIXED_PATH, children: ['c.bar', 'c.mixedSingleFile-meta.xml'] },
+]);
+
+describe('GitDiffResolver', () => {
+  let createTreeStub: SinonStub;
+  let getChangedFilesStub: SinonStub;
+
+  beforeEach(() => {
+    env.stub(git, 'getRepositoryRoot').resolves(ROOT);
+    // @ts-ignore the git tree is substituted with a virtual tree
+    createTreeStub = env.stub(GitTreeContainer, 'create').resolves(SOURCE_TREE);
+    getChangedFilesStub = env.stub(git, 'getChangedFiles');
+  });
+
+  afterEach(() => env.restore());
+
+  it('should query the changes between the given revisions', async () => {
+    getChangedFilesStub.resolves([]);
+    const resolver = new GitDiffResolver(ROOT, mockRegistry, TARGET_TREE);
+
+    await resolver.resolve('HEAD~1', 'HEAD', [BUNDLE_PATH]);
+
+    expect(getChangedFilesStub.calledOnceWith(ROOT, 'HEAD~1', 'HEAD', [BUNDLE_PATH])).to.be.true;
+    expect(createTreeStub.called).to.be.false;
+  });
+
+  it('should resolve changed files against the target revision if no tree is given', async () => {
+    getChangedFilesStub.resolves([{ path: join(MIXED_PATH, 'c.bar'), status: 'modified' }]);
+    const resolver = new GitDiffResolver(ROOT, mockRegistry);
+
+    const { changed } = await resolver.resolve('HEAD~1', 'HEAD');
+
+    expect(createTreeStub.calledOnceWith('HEAD', ROOT)).to.be.true;
+    expect(changed.map((c) => [c.type.id, c.fullName])).to.deep.equal([
+      ['mixedcontentsinglefile', 'c'],
+    ]);
+  });
+
+  it('should resolve the owning component of added and modified files', async () => {
+    getChangedFilesStub.resolves([
+      { path: join(BUNDLE_PATH, 'a.css'), status: 'modified' },
+      { path: join(MIXED_PATH, 'b.foo'), status: 'added' },
+    ]);
+    const resolver = new GitDiffResolver(ROOT, mockRegistry, TARGET_TREE);
+
+    const { changed, deleted } = await resolver.resolve('HEAD');
+
+    expect(changed.map((c) => [c.type.id, c.fullName])).to.deep.equal([
+      ['bundle', 'a'],
+      ['mixedcontentsinglefile', 'b'],
+    ]);
+    expect(deleted).to.deep.equal([]);
+  });
+
+  it('should resolve a modified child file to only the child component', async () => {
+    getChangedFilesStub.resolves([
+      { path: join(DECOMPOSED_PATH, 'z.g-meta.xml'), status: 'modified' },
+    ]);
+    const resolver = new GitDiffResolver(ROOT, mockRegistry, TARGET_TREE);
+
+    const { changed } = await resolver.resolve('HEAD');
+
+    expect(changed).to.have.length(1);
+    expect(changed[0].type).to.deep.equal(
+      mockRegistryData.types.decomposedtoplevel.children.types.g
+    );
+    expect(changed[0].parent.fullName).to.equal('a');
+  });
+
+  it('should ignore files that are not metadata', async () => {
+    getChangedFilesStub.resolves([{ path: join(ROOT, 'README.md'), status: 'modified' }]);
+    const resolver = new GitDiffResolver(ROOT, mockRegistry, TARGET_TREE);
+
+    const { changed, deleted } = await resolver.resolve('HEAD');
+
+    expect(changed).to.deep.equal([]);
+    expect(deleted).to.deep.equal([]);
+  });
+
+  it('should resolve components whose files were all deleted as deleted members', async () => {
+    getChangedFilesStub.resolves([
+      { path: join(MIXED_PATH, 'c.bar'), status: 'deleted' },
+      { path: join(MIXED_PATH, 'c.mixedSingleFile-meta.xml'), status: 'deleted' },
+      { path: join(DECOMPOSED_PATH, 'y.g-meta.xml'), status: 'deleted' },
+    ]);
+    const resolver = new GitDiffResolver(ROOT, mockRegistry, TARGET_TREE);
+
+    const { changed, deleted } = await resolver.resolve('HEAD~1', 'HEAD', [ROOT]);
+
+    expect(createTreeStub.calledOnceWith('HEAD~1', ROOT)).to.be.true;
+    expect(changed).to.deep.equal([]);
+    expect(deleted).to.deep.equal([
+      { fullName: 'c', type: mockRegistryData.types.mixedcontentsinglefile },
+      { fullName: 'a.y', type: mockRegistryData.types.decomposedtoplevel.children.types.g },
+    ]);
+  });
+
+  it('should resolve a component with some of its files deleted as changed', async () => {
+    getChangedFilesStub.resolves([{ path: join(BUNDLE_PATH, 'a.html'), status: 'deleted' }]);
+    const resolver = new GitDiffResolver(ROOT, mockRegistry, TARGET_TREE);
+
+    const { changed, deleted } = await resolver.resolve('HEAD');
+
+    expect(changed.map((c) => [c.type.id, c.fullName])).to.deep.equal([['bundle', 'a']]);
+    expect(changed[0].walkContent()).to.not.include(join(BUNDLE_PATH, 'a.html'));
+    expect(deleted).to.deep.equal([]);
+  });
+});
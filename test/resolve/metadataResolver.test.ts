@@ -6,7 +6,12 @@
  */
 
 import { assert, expect } from 'chai';
-import { MetadataResolver, SourceComponent, VirtualTreeContainer } from '../../src/resolve';
+import {
+  MetadataResolver,
+  SfdxProject,
+  SourceComponent,
+  VirtualTreeContainer,
+} from '../../src/resolve';
 import { nls } from '../../src/i18n';
 import {
   mockRegistry,
@@ -19,7 +24,11 @@ import {
   decomposedtoplevel,
 } from '../mock/registry';
 import { join, basename, dirname } from 'path';
-import { TypeInferenceError } from '../../src/errors';
+import {
+  ExpectedSourceFilesError,
+  ResolutionCanceledError,
+  TypeInferenceError,
+} from '../../src/errors';
 import { RegistryTestUtil } from './registryTestUtil';
 import {
   REGINA_VIRTUAL_FS,
@@ -556,6 +565,43 @@ describe('MetadataResolver', () => {
         ]);
         expect(access.getComponentsFromPath(dirPath).length).to.equal(0);
       });
+
+      it('should only resolve components in the package directories of a project', () => {
+        const type = mockRegistryData.types.matchingcontentfile;
+        const projectDir = join('path', 'to', 'project');
+        const packageTypeDir = join(projectDir, 'force-app', type.directoryName);
+        const tree = new VirtualTreeContainer([
+          { dirPath: projectDir, children: ['config', 'force-app', 'sfdx-project.json'] },
+          { dirPath: join(projectDir, 'force-app'), children: [type.directoryName] },
+          {
+            dirPath: packageTypeDir,
+            children: [matchingContentFile.XML_NAMES[0], matchingContentFile.CONTENT_NAMES[0]],
+          },
+          { dirPath: join(projectDir, 'config'), children: [type.directoryName] },
+          {
+            dirPath: join(projectDir, 'config', type.directoryName),
+            children: [matchingContentFile.XML_NAMES[1], matchingContentFile.CONTENT_NAMES[1]],
+          },
+        ]);
+        const project = new SfdxProject(projectDir, {
+          packageDirectories: [{ path: 'force-app' }],
+        });
+        const resolver = new MetadataResolver(mockRegistry, tree, project);
+
+        const components = resolver.getComponentsFromPath(projectDir);
+
+        expect(components).to.deep.equal([
+          new SourceComponent(
+            {
+              name: 'a',
+              type,
+              xml: join(packageTypeDir, matchingContentFile.XML_NAMES[0]),
+              content: join(packageTypeDir, matchingContentFile.CONTENT_NAMES[0]),
+            },
+            tree
+          ),
+        ]);
+      });
     });
 
     describe('Filtering', () => {
@@ -679,4 +725,203 @@ describe('MetadataResolver', () => {
       });
     });
   });
+
+  describe('getComponentsFromPathLenient', () => {
+    const { TYPE_DIRECTORY: MCF_DIR, XML_NAMES, CONTENT_NAMES } = matchingContentFile;
+    const strayPath = join(MCF_DIR, 'stray.unknown-meta.xml');
+    const missingContentXml = join(MCF_DIR, XML_NAMES[1]);
+    const tree = new VirtualTreeContainer([
+      {
+        dirPath: MCF_DIR,
+        children: [CONTENT_NAMES[0], XML_NAMES[0], XML_NAMES[1], basename(strayPath)],
+      },
+    ]);
+
+    it('should skip the paths that cannot be resolved and return their problems', () => {
+      const resolver = new MetadataResolver(mockRegistry, tree);
+
+      const { components, problems } = resolver.getComponentsFromPathLenient(MCF_DIR);
+
+      expect(components.map((c) => c.fullName)).to.deep.equal(['a']);
+      expect(problems).to.deep.equal([
+        {
+          path: missingContentXml,
+          code: 'error_expected_source_files',
+          message: nls.localize('error_expected_source_files', [
+            missingContentXml,
+            mockRegistryData.types.matchingcontentfile.name,
+          ]),
+          suggestion: nls.localize('suggestion_expected_source_files'),
+        },
+        {
+          path: strayPath,
+          code: 'error_could_not_infer_type',
+          message: nls.localize('error_could_not_infer_type', strayPath),
+          suggestion: nls.localize('suggestion_could_not_infer_type'),
+        },
+      ]);
+    });
+
+    it('should return a problem if the path does not exist', () => {
+      const resolver = new MetadataResolver(mockRegistry, tree);
+      const path = join(MCF_DIR, 'missing');
+
+      const { components, problems } = resolver.getComponentsFromPathLenient(path);
+
+      expect(components).to.deep.equal([]);
+      expect(problems).to.deep.equal([
+        {
+          path,
+          code: 'error_path_not_found',
+          message: nls.localize('error_path_not_found', path),
+          suggestion: undefined,
+        },
+      ]);
+    });
+
+    it('should still throw errors after a lenient resolve', () => {
+      const resolver = new MetadataResolver(mockRegistry, tree);
+      resolver.getComponentsFromPathLenient(MCF_DIR);
+
+      expect(() => resolver.getComponentsFromPath(MCF_DIR)).to.throw(ExpectedSourceFilesError);
+    });
+  });
+
+  describe('getComponentsFromPathAsync', () => {
+    const { TYPE_DIRECTORY: MCF_DIR } = matchingContentFile;
+    const stuffDir = join(MCF_DIR, 'hasStuff');
+    const createTree = (): VirtualTreeContainer =>
+      new VirtualTreeContainer([
+        {
+          dirPath: MCF_DIR,
+          children: [
+            ...matchingContentFile.CONTENT_NAMES.slice(0, 1),
+            ...matchingContentFile.XML_NAMES.slice(0, 1),
+            'hasStuff',
+            'noStuff',
+          ],
+        },
+        { dirPath: join(MCF_DIR, 'noStuff'), children: [] },
+        {
+          dirPath: stuffDir,
+          children: [matchingContentFile.CONTENT_NAMES[1], matchingContentFile.XML_NAMES[1]],
+        },
+      ]);
+
+    it('should resolve the same components as getComponentsFromPath', async () => {
+      const resolver = new MetadataResolver(mockRegistry, createTree());
+
+      const result = await resolver.getComponentsFromPathAsync(MCF_DIR);
+
+      expect(result).to.have.length(2);
+      expect(result).to.deep.equal(resolver.getComponentsFromPath(MCF_DIR));
+    });
+
+    it('should resolve a single file path', async () => {
+      const resolver = new MetadataResolver(mockRegistry, createTree());
+      const xmlPath = matchingContentFile.XML_PATHS[0];
+
+      const result = await resolver.getComponentsFromPathAsync(xmlPath);
+
+      expect(result).to.deep.equal(resolver.getComponentsFromPath(xmlPath));
+    });
+
+    it('should only return components present in filter', async () => {
+      const resolver = new MetadataResolver(mockRegistry, createTree());
+      const filter = new ComponentSet([
+        { fullName: 'b', type: mockRegistryData.types.matchingcontentfile },
+      ]);
+
+      const result = await resolver.getComponentsFromPathAsync(MCF_DIR, {
+        inclusiveFilter: filter,
+      });
+
+      expect(result.map((c) => c.fullName)).to.deep.equal(['b']);
+    });
+
+    it('should reject with a file not found error if the path does not exist', async () => {
+      const resolver = new MetadataResolver(mockRegistry, createTree());
+      const path = join(MCF_DIR, 'missing');
+
+      try {
+        await resolver.getComponentsFromPathAsync(path);
+        assert.fail('should have thrown an error');
+      } catch (e) {
+        expect(e.name).to.equal(TypeInferenceError.name);
+        expect(e.message).to.equal(nls.localize('error_path_not_found', path));
+      }
+    });
+
+    it('should only read the tree with its asynchronous methods', async () => {
+      const tree = createTree();
+      const source = createTree();
+      tree.existsAsync = (fsPath: string): Promise<boolean> =>
+        Promise.resolve(source.exists(fsPath));
+      tree.isDirectoryAsync = (fsPath: string): Promise<boolean> =>
+        Promise.resolve(source.isDirectory(fsPath));
+      tree.readDirectoryAsync = (fsPath: string): Promise<string[]> =>
+        Promise.resolve(source.readDirectory(fsPath));
+      tree.readFile = (fsPath: string): Promise<Buffer> => source.readFile(fsPath);
+      const syncReads: string[] = [];
+      for (const method of ['exists', 'isDirectory', 'readDirectory', 'readFileSync'] as const) {
+        tree[method] = (fsPath: string): never => {
+          syncReads.push(fsPath);
+          throw new Error(`${method} blocks`);
+        };
+      }
+      const resolver = new MetadataResolver(mockRegistry, tree);
+      const filter = new ComponentSet([
+        { fullName: 'b', type: mockRegistryData.types.matchingcontentfile },
+      ]);
+
+      const result = await resolver.getComponentsFromPathAsync(MCF_DIR);
+      const filtered = await resolver.getComponentsFromPathAsync(MCF_DIR, {
+        inclusiveFilter: filter,
+      });
+
+      expect(syncReads).to.deep.equal([]);
+      expect(result.map((c) => c.fullName)).to.deep.equal(['a', 'b']);
+      expect(filtered.map((c) => c.fullName)).to.deep.equal(['b']);
+      expect(result[0].tree).to.equal(tree);
+    });
+
+    it('should not read more directories at the same time than the concurrency', async () => {
+      const tree = createTree();
+      const readDirectory = tree.readDirectoryAsync.bind(tree);
+      let reading = 0;
+      let maxReading = 0;
+      tree.readDirectoryAsync = async (fsPath: string): Promise<string[]> => {
+        reading += 1;
+        maxReading = Math.max(maxReading, reading);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        reading -= 1;
+        return readDirectory(fsPath);
+      };
+      const resolver = new MetadataResolver(mockRegistry, tree);
+
+      const result = await resolver.getComponentsFromPathAsync(MCF_DIR, { concurrency: 1 });
+
+      expect(maxReading).to.equal(1);
+      expect(result).to.deep.equal(resolver.getComponentsFromPath(MCF_DIR));
+    });
+
+    it('should reject with a canceled error when cancellation is requested', async () => {
+      const tree = createTree();
+      const cancellationToken = { isCancellationRequested: false };
+      const readDirectory = tree.readDirectoryAsync.bind(tree);
+      tree.readDirectoryAsync = (fsPath: string): Promise<string[]> => {
+        cancellationToken.isCancellationRequested = true;
+        return readDirectory(fsPath);
+      };
+      const resolver = new MetadataResolver(mockRegistry, tree);
+
+      try {
+        await resolver.getComponentsFromPathAsync(MCF_DIR, { cancellationToken });
+        assert.fail('should have thrown an error');
+      } catch (e) {
+        expect(e.name).to.equal(ResolutionCanceledError.name);
+        expect(e.message).to.equal(nls.localize('error_resolve_canceled', MCF_DIR));
+      }
+    });
+  });
 });
@@ -0,0 +1,266 @@
+/*
+ * Copyright (c) 2021, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { expect } from 'chai';
+import * as fs from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createSandbox, SinonSpy } from 'sinon';
+import { ComponentSet } from '../../src';
+import {
+  MetadataResolver,
+  NodeFSTreeContainer,
+  ResolutionCache,
+  TreeContainer,
+  VirtualDirectory,
+  VirtualTreeContainer,
+} from '../../src/resolve';
+
+const ROOT = join('project', 'main', 'default');
+const CLASSES = join(ROOT, 'classes');
+const LWC = join(ROOT, 'lwc');
+const ACCOUNT = join(ROOT, 'objects', 'Account');
+
+const file = (name: string): { name: string; data: Buffer } => ({ name, data: Buffer.from('') });
+
+const createTree = (classes = ['A', 'B'], fields = ['Rating__c']): VirtualTreeContainer => {
+  const directories: VirtualDirectory[] = [
+    { dirPath: ROOT, children: ['classes', 'lwc', 'objects'] },
+    {
+      dirPath: CLASSES,
+      children: classes.reduce((files, name) => {
+        return files.concat(file(`${name}.cls`), file(`${name}.cls-meta.xml`));
+      }, []),
+    },
+    { dirPath: LWC, children: ['list'] },
+    { dirPath: join(LWC, 'list'), children: [file('list.js'), file('list.js-meta.xml')] },
+    { dirPath: join(ROOT, 'objects'), children: ['Account'] },
+    { dirPath: ACCOUNT, children: [file('Account.object-meta.xml'), 'fields'] },
+    {
+      dirPath: join(ACCOUNT, 'fields'),
+      children: fields.map((name) => file(`${name}.field-meta.xml`)),
+    },
+  ];
+  return new VirtualTreeContainer(directories);
+};
+
+describe('ResolutionCache', () => {
+  const sandbox = createSandbox();
+  let resolveDirectorySpy: SinonSpy;
+
+  const resolve = (tree: TreeContainer, cache?: ResolutionCache, fsPath = ROOT): ComponentSet =>
+    ComponentSet.fromSource({ fsPaths: [fsPath], tree, cache });
+  const resolvedDirectories = (): string[] =>
+    resolveDirectorySpy.getCalls().map((call) => call.args[0]);
+
+  beforeEach(() => {
+    resolveDirectorySpy = sandbox.spy(MetadataResolver.prototype, 'resolveDirectory' as never);
+  });
+
+  afterEach(() => sandbox.restore());
+
+  it('should resolve the same components as a resolve without a cache', () => {
+    const tree = createTree();
+    const cache = new ResolutionCache();
+
+    const cold = Array.from(resolve(tree));
+    expect(Array.from(resolve(tree, cache))).to.deep.equal(cold);
+    expect(Array.from(resolve(tree, cache))).to.deep.equal(cold);
+  });
+
+  it('should not resolve directories again if the tree did not change', () => {
+    const cache = new ResolutionCache();
+    resolve(createTree(), cache);
+    resolveDirectorySpy.resetHistory();
+
+    resolve(createTree(), cache);
+
+    expect(resolvedDirectories()).to.deep.equal([]);
+  });
+
+  it('should only resolve again the directories that changed', () => {
+    const cache = new ResolutionCache();
+    resolve(createTree(), cache);
+    resolveDirectorySpy.resetHistory();
+
+    const tree = createTree(['A', 'B', 'C']);
+    const result = Array.from(resolve(tree, cache));
+
+    expect(resolvedDirectories()).to.deep.equal([ROOT, CLASSES]);
+    expect(result).to.deep.equal(Array.from(resolve(tree)));
+    expect(result.map((c) => c.fullName)).to.include('C');
+  });
+
+  it('should resolve again the components containing a changed directory', () => {
+    const cache = new ResolutionCache();
+    resolve(createTree(), cache);
+
+    const tree = createTree(['A', 'B'], ['Rating__c', 'Region__c']);
+    const account = resolve(tree, cache)
+      .getSourceComponents({ fullName: 'Account', type: 'CustomObject' })
+      .first();
+
+    expect(account.getChildren().map((c) => c.fullName)).to.deep.equal([
+      'Account.Rating__c',
+      'Account.Region__c',
+    ]);
+  });
+
+  it('should reflect removed components', () => {
+    const cache = new ResolutionCache();
+    resolve(createTree(), cache);
+
+    const tree = createTree(['A']);
+    const result = Array.from(resolve(tree, cache));
+
+    expect(result).to.deep.equal(Array.from(resolve(tree)));
+    expect(result.map((c) => c.fullName)).to.not.include('B');
+  });
+
+  it('should resolve again invalidated paths', () => {
+    const cache = new ResolutionCache();
+    const tree = createTree();
+    resolve(tree, cache);
+    resolveDirectorySpy.resetHistory();
+
+    cache.invalidate(join(CLASSES, 'A.cls'));
+    resolve(tree, cache);
+
+    expect(resolvedDirectories()).to.deep.equal([CLASSES]);
+  });
+
+  it('should invalidate the subdirectories of an invalidated directory', () => {
+    const cache = new ResolutionCache();
+    const tree = createTree();
+    resolve(tree, cache);
+    resolveDirectorySpy.resetHistory();
+
+    cache.invalidate(join(ROOT, 'objects'));
+    resolve(tree, cache);
+
+    expect(resolvedDirectories()).to.have.members([ROOT, join(ROOT, 'objects'), ACCOUNT]);
+  });
+
+  it('should not use the cache when resolving with a filter', () => {
+    const cache = new ResolutionCache();
+    const tree = createTree();
+    resolve(tree, cache);
+    resolveDirectorySpy.resetHistory();
+
+    const include = new ComponentSet([{ fullName: 'A', type: 'ApexClass' }]);
+    const result = ComponentSet.fromSource({ fsPaths: [ROOT], tree, cache, include });
+
+    expect(resolvedDirectories()).to.include(CLASSES);
+    expect(Array.from(result).map((c) => c.fullName)).to.deep.equal(['A']);
+  });
+
+  it('should resolve without the cache when a directory cannot be listed', () => {
+    const cache = new ResolutionCache();
+    const tree = createTree();
+    const expected = Array.from(resolve(tree));
+    const error = Object.assign(new Error('permission denied'), { code: 'EACCES' });
+    sandbox.stub(cache, 'getSubtreeHash').throws(error);
+
+    expect(Array.from(resolve(tree, cache))).to.deep.equal(expected);
+  });
+
+  it('should not read the file system to resolve a virtual tree', () => {
+    const cache = new ResolutionCache();
+    resolve(createTree(), cache);
+    const statSpy = sandbox.spy(fs, 'statSync');
+    resolveDirectorySpy.resetHistory();
+
+    resolve(createTree(), cache);
+
+    expect(statSpy.called).to.be.false;
+    expect(resolvedDirectories()).to.deep.equal([]);
+  });
+
+  describe('Persistence', () => {
+    let tempDir: string;
+    let cachePath: string;
+
+    beforeEach(() => {
+      tempDir = fs.realpathSync(fs.mkdtempSync(join(tmpdir(), 'sdr-resolution-cache-')));
+      cachePath = join(tempDir, 'cache', 'resolution.json');
+    });
+
+    afterEach(() => fs.rmdirSync(tempDir, { recursive: true }));
+
+    it('should reuse the results of a saved cache', () => {
+      const cache = new ResolutionCache();
+      const expected = Array.from(resolve(createTree(), cache));
+      cache.save(cachePath);
+      resolveDirectorySpy.resetHistory();
+
+      const result = Array.from(resolve(createTree(), ResolutionCache.load(cachePath)));
+
+      expect(resolvedDirectories()).to.deep.equal([]);
+      expect(result).to.deep.equal(expected);
+    });
+
+    it('should load an empty cache if the cache file is missing or invalid', () => {
+      fs.mkdirSync(join(tempDir, 'cache'));
+      fs.writeFileSync(cachePath, '{ "version": 1, "direc');
+
+      resolve(createTree(), ResolutionCache.load(cachePath));
+      resolve(createTree(), ResolutionCache.load(join(tempDir, 'missing.json')));
+
+      expect(resolvedDirectories()).to.include(CLASSES);
+      expect(resolvedDirectories().filter((dir) => dir === CLASSES)).to.have.length(2);
+    });
+
+    it('should detect changes to files on disk', () => {
+      const classesDir = join(tempDir, 'classes');
+      fs.mkdirSync(classesDir);
+      fs.writeFileSync(join(classesDir, 'A.cls'), '');
+      fs.writeFileSync(join(classesDir, 'A.cls-meta.xml'), '');
+      const tree = new NodeFSTreeContainer();
+      const cache = new ResolutionCache();
+      resolve(tree, cache, tempDir);
+
+      fs.writeFileSync(join(classesDir, 'B.cls'), '');
+      fs.writeFileSync(join(classesDir, 'B.cls-meta.xml'), '');
+      const result = Array.from(resolve(tree, cache, tempDir));
+
+      expect(result.map((c) => c.fullName)).to.deep.equal(['A', 'B']);
+      expect(result).to.deep.equal(Array.from(resolve(tree, undefined, tempDir)));
+    });
+
+    it('should resolve again when the .forceignore rules change', () => {
+      const classesDir = join(tempDir, 'classes');
+      fs.mkdirSync(classesDir);
+      fs.writeFileSync(join(classesDir, 'A.cls'), '');
+      fs.writeFileSync(join(classesDir, 'A.cls-meta.xml'), '');
+      fs.writeFileSync(join(tempDir, '.forceignore'), '# .forceignore v2\n');
+      const tree = new NodeFSTreeContainer();
+      const cache = new ResolutionCache();
+      resolve(tree, cache, tempDir);
+
+      fs.writeFileSync(join(tempDir, '.forceignore'), '# .forceignore v2\nclasses/A.cls*\n');
+      const result = Array.from(resolve(tree, cache, tempDir));
+
+      expect(result).to.deep.equal([]);
+    });
+
+    it('should not be affected by changes outside of the resolved path', () => {
+      const projectDir = join(tempDir, 'project');
+      const classesDir = join(projectDir, 'classes');
+      fs.mkdirSync(classesDir, { recursive: true });
+      fs.writeFileSync(join(classesDir, 'A.cls'), '');
+      fs.writeFileSync(join(classesDir, 'A.cls-meta.xml'), '');
+      const tree = new NodeFSTreeContainer();
+      const cache = new ResolutionCache();
+      resolve(tree, cache, projectDir);
+      resolveDirectorySpy.resetHistory();
+
+      fs.writeFileSync(join(tempDir, 'unrelated.txt'), '');
+      resolve(tree, cache, projectDir);
+
+      expect(resolvedDirectories()).to.deep.equal([]);
+    });
+  });
+});
@@ -0,0 +1,146 @@
+/*
+ * Copyright (c) 2021, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { assert, expect } from 'chai';
+import { join } from 'path';
+import { createSandbox } from 'sinon';
+import { SfdxProjectError } from '../../src/errors';
+import { nls } from '../../src/i18n';
+import { SfdxProject, VirtualTreeContainer } from '../../src/resolve';
+
+const PROJECT_DIR = join('path', 'to', 'project');
+
+const createTree = (config: unknown): VirtualTreeContainer =>
+  new VirtualTreeContainer([
+    {
+      dirPath: PROJECT_DIR,
+      children: [
+        'force-app',
+        'packages',
+        { name: SfdxProject.FILE_NAME, data: Buffer.from(JSON.stringify(config)) },
+      ],
+    },
+    { dirPath: join(PROJECT_DIR, 'force-app', 'main', 'default'), children: [] },
+    { dirPath: join(PROJECT_DIR, 'packages', 'utils'), children: [] },
+  ]);
+
+describe('SfdxProject', () => {
+  const config = {
+    packageDirectories: [
+      { path: 'force-app', package: 'App' },
+      { path: join('packages', 'utils'), default: true },
+    ],
+    sourceApiVersion: '51.0',
+    namespace: 'acme',
+  };
+
+  it('should read the package directories, api version and namespace', () => {
+    const project = SfdxProject.fromDirectory(PROJECT_DIR, createTree(config));
+
+    expect(project.path).to.equal(PROJECT_DIR);
+    expect(project.packageDirectories).to.deep.equal([
+      { path: join(PROJECT_DIR, 'force-app'), package: 'App', default: false },
+      { path: join(PROJECT_DIR, 'packages', 'utils'), package: undefined, default: true },
+    ]);
+    expect(project.sourceApiVersion).to.equal('51.0');
+    expect(project.namespace).to.equal('acme');
+  });
+
+  it('should use the first package directory as the default if none is marked', () => {
+    const project = new SfdxProject(PROJECT_DIR, {
+      packageDirectories: [{ path: 'force-app' }, { path: 'other' }],
+    });
+
+    expect(project.getDefaultPackage().path).to.equal(join(PROJECT_DIR, 'force-app'));
+  });
+
+  it('should find the project a path belongs to', () => {
+    const tree = createTree(config);
+
+    const project = SfdxProject.resolve(join(PROJECT_DIR, 'force-app', 'main', 'default'), tree);
+
+    expect(project.path).to.equal(PROJECT_DIR);
+    expect(SfdxProject.resolve(join('path', 'to'), tree)).to.be.undefined;
+  });
+
+  describe('find', () => {
+    const sandbox = createSandbox();
+
+    afterEach(() => sandbox.restore());
+
+    it('should find the project a path belongs to', () => {
+      const tree = createTree(config);
+
+      expect(SfdxProject.find(join(PROJECT_DIR, 'force-app'), tree).path).to.equal(PROJECT_DIR);
+      expect(SfdxProject.find(join('path', 'to'), tree)).to.be.undefined;
+    });
+
+    it('should return undefined for a project that cannot be loaded', () => {
+      const tree = createTree({ packageDirectories: [] });
+
+      expect(SfdxProject.find(join(PROJECT_DIR, 'force-app'), tree)).to.be.undefined;
+    });
+
+    it('should read a project once for the searches sharing a cache', () => {
+      const tree = createTree(config);
+      const readSpy = sandbox.spy(SfdxProject, 'fromDirectory');
+      const cache = new Map<string, SfdxProject>();
+
+      const project = SfdxProject.find(
+        join(PROJECT_DIR, 'force-app', 'main', 'default'),
+        tree,
+        cache
+      );
+
+      expect(SfdxProject.find(join(PROJECT_DIR, 'force-app'), tree, cache)).to.equal(project);
+      expect(SfdxProject.find(join(PROJECT_DIR, 'packages', 'utils'), tree, cache)).to.equal(
+        project
+      );
+      expect(readSpy.calledOnce).to.be.true;
+    });
+  });
+
+  it('should get the package directory containing a path', () => {
+    const project = new SfdxProject(PROJECT_DIR, config);
+
+    expect(project.getPackageDirectory(join(PROJECT_DIR, 'force-app', 'main')).package).to.equal(
+      'App'
+    );
+    expect(project.getPackageDirectory(join(PROJECT_DIR, 'force-app-2'))).to.be.undefined;
+    expect(project.getPackageDirectory(PROJECT_DIR)).to.be.undefined;
+  });
+
+  it('should consider paths in and above package directories to be package paths', () => {
+    const project = new SfdxProject(PROJECT_DIR, config);
+
+    expect(project.isPackagePath(PROJECT_DIR)).to.be.true;
+    expect(project.isPackagePath(join(PROJECT_DIR, 'packages'))).to.be.true;
+    expect(project.isPackagePath(join(PROJECT_DIR, 'force-app', 'main'))).to.be.true;
+    expect(project.isPackagePath(join(PROJECT_DIR, 'config'))).to.be.false;
+  });
+
+  it('should throw an error if there are no package directories', () => {
+    const filePath = join(PROJECT_DIR, SfdxProject.FILE_NAME);
+    try {
+      SfdxProject.fromDirectory(PROJECT_DIR, createTree({ packageDirectories: [] }));
+      assert.fail('should have thrown an error');
+    } catch (e) {
+      expect(e.name).to.equal(SfdxProjectError.name);
+      expect(e.message).to.equal(nls.localize('error_no_package_directories', filePath));
+    }
+  });
+
+  it('should throw an error if the project file is not valid', () => {
+    const tree = new VirtualTreeContainer([
+      {
+        dirPath: PROJECT_DIR,
+        children: [{ name: SfdxProject.FILE_NAME, data: Buffer.from('{ "packageDir') }],
+      },
+    ]);
+
+    expect(() => SfdxProject.fromDirectory(PROJECT_DIR, tree)).to.throw(SfdxProjectError);
+  });
+});
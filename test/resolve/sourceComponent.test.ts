@@ -4,7 +4,9 @@
  * Licensed under the BSD 3-Clause license.
  * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
  */
-import { SourceComponent } from '../../src/resolve';
+import { join, dirname } from 'path';
+import { SfdxProject, SourceComponent, VirtualTreeContainer } from '../../src/resolve';
+import { DEFAULT_PACKAGE_ROOT_SFDX } from '../../src/common';
 import { RegistryTestUtil } from './registryTestUtil';
 import {
   xmlInFolder,
@@ -92,6 +94,60 @@ describe('SourceComponent', () => {
     });
   });
 
+  describe('getPackageRelativePath', () => {
+    const type = mockRegistryData.types.matchingcontentfile;
+    const projectDir = join('path', 'to', 'project');
+    const xmlName = matchingContentFile.XML_NAMES[0];
+
+    const createComponent = (xml: string): SourceComponent =>
+      new SourceComponent(
+        { name: 'a', type, xml },
+        new VirtualTreeContainer([
+          {
+            dirPath: projectDir,
+            children: [
+              'force-app',
+              {
+                name: SfdxProject.FILE_NAME,
+                data: Buffer.from(JSON.stringify({ packageDirectories: [{ path: 'force-app' }] })),
+              },
+            ],
+          },
+          { dirPath: dirname(xml), children: [xmlName] },
+        ])
+      );
+
+    it('should place source format files in main/default outside of a project', () => {
+      const component = createComponent(join('retrieved', type.directoryName, xmlName));
+
+      expect(component.getPackageRelativePath(component.xml, 'source')).to.equal(
+        join(DEFAULT_PACKAGE_ROOT_SFDX, type.directoryName, xmlName)
+      );
+    });
+
+    it('should follow the layout of the package directory of the file', () => {
+      const xml = join(projectDir, 'force-app', 'src', type.directoryName, xmlName);
+      const component = createComponent(xml);
+      const project = SfdxProject.fromDirectory(projectDir, component.tree);
+
+      expect(component.getPackageRelativePath(xml, 'source', project)).to.equal(
+        join('src', type.directoryName, xmlName)
+      );
+      expect(component.getPackageRelativePath(xml, 'metadata', project)).to.equal(
+        join(type.directoryName, xmlName)
+      );
+    });
+
+    it('should not search for the project of the file', () => {
+      const xml = join(projectDir, 'force-app', 'src', type.directoryName, xmlName);
+      const component = createComponent(xml);
+
+      expect(component.getPackageRelativePath(xml, 'source')).to.equal(
+        join(DEFAULT_PACKAGE_ROOT_SFDX, type.directoryName, xmlName)
+      );
+    });
+  });
+
   describe('walkContent', () => {
     it('should return empty array if no content is set', () => {
       const component = new SourceComponent({
@@ -0,0 +1,126 @@
+/*
+ * Copyright (c) 2021, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { create as createArchive } from 'archiver';
+import { expect } from 'chai';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join, sep } from 'path';
+import {
+  CONFORMANCE_FILES,
+  GitTreeContainer,
+  NodeFSTreeContainer,
+  runConformanceTests,
+  TarTreeContainer,
+  TREE_CONTAINER_CONFORMANCE_TESTS,
+  TreeContainer,
+  VirtualDirectory,
+  VirtualTreeContainer,
+  ZipTreeContainer,
+} from '../../src/resolve';
+
+const createArchiveBuffer = async (format: 'zip' | 'tar'): Promise<Buffer> => {
+  const archive = createArchive(format, { gzip: format === 'tar' });
+  const buffers: Buffer[] = [];
+  archive.on('data', (chunk: Buffer) => buffers.push(chunk));
+  for (const file of CONFORMANCE_FILES) {
+    archive.append(file.data, { name: file.path.split(sep).join('/') });
+  }
+  const ended = new Promise((resolve) => archive.on('end', resolve));
+  await archive.finalize();
+  await ended;
+  return Buffer.concat(buffers);
+};
+
+const writeFiles = (root: string): void => {
+  for (const file of CONFORMANCE_FILES) {
+    fs.mkdirSync(dirname(join(root, file.path)), { recursive: true });
+    fs.writeFileSync(join(root, file.path), file.data);
+  }
+};
+
+const createVirtualTree = (root: string): VirtualTreeContainer => {
+  const directories = new Map<string, VirtualDirectory>();
+  const addChild = (dirPath: string, child: VirtualDirectory['children'][0]): void => {
+    if (!directories.has(dirPath)) {
+      directories.set(dirPath, { dirPath, children: [] });
+      if (dirPath !== root) {
+        addChild(dirname(dirPath), dirPath.slice(dirname(dirPath).length + 1));
+      }
+    }
+    directories.get(dirPath).children.push(child);
+  };
+  for (const file of CONFORMANCE_FILES) {
+    const fsPath = join(root, file.path);
+    addChild(dirname(fsPath), { name: fsPath.slice(dirname(fsPath).length + 1), data: file.data });
+  }
+  return new VirtualTreeContainer(Array.from(directories.values()));
+};
+
+describe('TreeContainer conformance', () => {
+  let tmpRoot: string;
+  const trees: { [name: string]: { tree: TreeContainer; root: string } } = {};
+
+  before(async () => {
+    tmpRoot = fs.realpathSync(fs.mkdtempSync(join(tmpdir(), 'sdr-conformance-')));
+    const fsRoot = join(tmpRoot, 'fs');
+    writeFiles(fsRoot);
+    trees.NodeFSTreeContainer = { tree: new NodeFSTreeContainer(), root: fsRoot };
+
+    const repoRoot = join(tmpRoot, 'git');
+    writeFiles(repoRoot);
+    const git = (...args: string[]): Buffer => execFileSync('git', args, { cwd: repoRoot });
+    git('init', '-q');
+    git('add', '-A');
+    git('-c', 'user.name=test', '-c', 'user.email=test@example.com', 'commit', '-q', '-m', 'test');
+    trees.GitTreeContainer = {
+      tree: await GitTreeContainer.create('HEAD', repoRoot),
+      root: repoRoot,
+    };
+
+    trees.VirtualTreeContainer = { tree: createVirtualTree('project'), root: 'project' };
+    trees.ZipTreeContainer = {
+      tree: await ZipTreeContainer.create(await createArchiveBuffer('zip')),
+      root: '.',
+    };
+    trees.TarTreeContainer = {
+      tree: await TarTreeContainer.create(await createArchiveBuffer('tar')),
+      root: '.',
+    };
+  });
+
+  after(() => fs.rmdirSync(tmpRoot, { recursive: true }));
+
+  for (const name of [
+    'NodeFSTreeContainer',
+    'GitTreeContainer',
+    'VirtualTreeContainer',
+    'ZipTreeContainer',
+    'TarTreeContainer',
+  ]) {
+    describe(name, () => {
+      for (const test of TREE_CONTAINER_CONFORMANCE_TESTS) {
+        it(test.name, () => test.run(trees[name].tree, trees[name].root));
+      }
+    });
+  }
+
+  it('should report the tests a nonconforming tree fails', async () => {
+    const tree = createVirtualTree('project');
+    tree.readDirectory = (): string[] => [];
+
+    const failures = await runConformanceTests(tree, 'project');
+
+    expect(failures.map((f) => f.name)).to.deep.equal([
+      'should list the files and directories of a directory',
+      'should fail to list the entries of a file',
+      'should give the same answers asynchronously',
+      'should find the content and metadata xml of a component',
+    ]);
+    expect(failures[0].error).to.be.an.instanceOf(Error);
+  });
+});
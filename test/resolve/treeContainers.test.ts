@@ -9,6 +9,8 @@ import {
   NodeFSTreeContainer,
   VirtualTreeContainer,
   ZipTreeContainer,
+  TarTreeContainer,
+  GitTreeContainer,
 } from '../../src/resolve/treeContainers';
 import { expect, assert } from 'chai';
 import { createSandbox } from 'sinon';
@@ -16,11 +18,13 @@ import * as fs from 'fs';
 import { join, normalize } from 'path';
 import { LibraryError } from '../../src/errors';
 import { nls } from '../../src/i18n';
-import { VirtualDirectory } from '../../src';
+import { ComponentSet, VirtualDirectory } from '../../src';
 import { Readable, Writable, pipeline as cbPipeline } from 'stream';
 import * as unzipper from 'unzipper';
 import { create as createArchive } from 'archiver';
 import { promisify } from 'util';
+import { execFileSync } from 'child_process';
+import { tmpdir } from 'os';
 
 describe('Tree Containers', () => {
   const readDirResults = ['a.q', 'a.x-meta.xml', 'b', 'b.x-meta.xml', 'c.z', 'c.x-meta.xml'];
@@ -60,6 +64,10 @@ describe('Tree Containers', () => {
     it('should find first matching content file', () => {
       expect(tree.find('content', 'c', '')).to.equal('c.z');
     });
+
+    it('should get the size of a file from its contents by default', () => {
+      expect(tree.getFileSize('a.q')).to.equal(0);
+    });
   });
 
   describe('NodeFSTreeContainer', () => {
@@ -110,6 +118,14 @@ describe('Tree Containers', () => {
       expect(readFileStub.calledOnce).to.be.true;
     });
 
+    it('should use expected Node API for getFileSize', () => {
+      const statStub = env.stub(fs, 'statSync');
+      // @ts-ignore stat returns more than the size
+      statStub.withArgs(path).returns({ size: 42 });
+      expect(tree.getFileSize(path)).to.equal(42);
+      expect(statStub.calledOnce).to.be.true;
+    });
+
     it('should use expected Node API for stream', async () => {
       const readable = new Readable();
       const createReadStreamStub = env.stub(fs, 'createReadStream');
@@ -231,11 +247,74 @@ describe('Tree Containers', () => {
     });
 
     describe('readFileSync', () => {
-      it('should throw an error because it is not implemented yet', () => {
+      it('should read contents of zip entry into buffer', () => {
+        expect(tree.readFileSync(join(filesRoot, 'test.txt')).toString()).to.equal('test text');
+      });
+
+      it('should read entries that are stored without compression', async () => {
+        const archive = createArchive('zip', { store: true });
+        const buffers: Buffer[] = [];
+        archive.on('data', (chunk: Buffer) => buffers.push(chunk));
+        archive.append('stored text', { name: 'stored.txt' });
+        const ended = new Promise((resolve) => archive.on('end', resolve));
+        await archive.finalize();
+        await ended;
+
+        const storedTree = await ZipTreeContainer.create(Buffer.concat(buffers));
+
+        expect(storedTree.readFileSync('stored.txt').toString()).to.equal('stored text');
+      });
+
+      it('should allow resolving the children of non-decomposed components', async () => {
+        const archive = createArchive('zip');
+        const buffers: Buffer[] = [];
+        archive.on('data', (chunk: Buffer) => buffers.push(chunk));
+        archive.append(
+          '<?xml version="1.0" encoding="UTF-8"?>\n<CustomLabels xmlns="http://soap.sforce.com/2006/04/metadata">' +
+            '<labels><fullName>Greeting</fullName></labels></CustomLabels>',
+          { name: 'labels/CustomLabels.labels-meta.xml' }
+        );
+        const ended = new Promise((resolve) => archive.on('end', resolve));
+        await archive.finalize();
+        await ended;
+        const zipTree = await ZipTreeContainer.create(Buffer.concat(buffers));
+
+        const [labels] = ComponentSet.fromSource({ fsPaths: ['labels'], tree: zipTree })
+          .getSourceComponents()
+          .toArray();
+
+        expect(labels.getChildren().map((c) => c.fullName)).to.deep.equal(['Greeting']);
+      });
+
+      it('should throw an error if path is to directory', () => {
+        assert.throws(
+          () => tree.readFileSync(filesRoot),
+          LibraryError,
+          nls.localize('error_expected_file_path', filesRoot)
+        );
+      });
+    });
+
+    describe('getFileSize', () => {
+      it('should return the size of a zip entry from the central directory', async () => {
+        const archive = createArchive('zip', { store: true });
+        const buffers: Buffer[] = [];
+        archive.on('data', (chunk: Buffer) => buffers.push(chunk));
+        archive.append('stored text', { name: 'stored.txt' });
+        const ended = new Promise((resolve) => archive.on('end', resolve));
+        await archive.finalize();
+        await ended;
+
+        const storedTree = await ZipTreeContainer.create(Buffer.concat(buffers));
+
+        expect(storedTree.getFileSize('stored.txt')).to.equal('stored text'.length);
+      });
+
+      it('should throw an error if path is to directory', () => {
         assert.throws(
-          () => tree.readFileSync(join(filesRoot, 'test.txt')),
-          Error,
-          'Method not implemented'
+          () => tree.getFileSize(filesRoot),
+          LibraryError,
+          nls.localize('error_expected_file_path', filesRoot)
         );
       });
     });
@@ -260,6 +339,281 @@ describe('Tree Containers', () => {
     });
   });
 
+  describe('TarTreeContainer', () => {
+    let tree: TarTreeContainer;
+    let tgzBuffer: Buffer;
+
+    const filesRoot = join('.', 'main', 'default');
+    const longName = `${'a'.repeat(120)}.txt`;
+
+    const createTar = async (gzip: boolean): Promise<Buffer> => {
+      const archive = createArchive('tar', { gzip });
+      const buffers: Buffer[] = [];
+      archive.on('data', (chunk: Buffer) => buffers.push(chunk));
+      archive.append(null, { name: 'main/' });
+      archive.append('test text', { name: 'main/default/test.txt' });
+      archive.append('test text 2', { name: 'main/default/test2.txt' });
+      archive.append('test text 3', { name: 'main/default/morefiles/test3.txt' });
+      archive.append('long', { name: `main/default/${longName}` });
+      const ended = new Promise((resolve) => archive.on('end', resolve));
+      await archive.finalize();
+      await ended;
+      return Buffer.concat(buffers);
+    };
+
+    before(async () => {
+      tgzBuffer = await createTar(true);
+      tree = await TarTreeContainer.create(tgzBuffer);
+    });
+
+    it('should create a container from an uncompressed archive', async () => {
+      const tarTree = await TarTreeContainer.create(await createTar(false));
+      expect(tarTree.readFileSync(join(filesRoot, 'test.txt')).toString()).to.equal('test text');
+    });
+
+    it('should create a container from a stream', async () => {
+      const tarTree = await TarTreeContainer.create(Readable.from([tgzBuffer]));
+      expect(tarTree.readDirectory(filesRoot)).to.deep.equal(tree.readDirectory(filesRoot));
+    });
+
+    it('should throw an error if the archive is not a tar archive', async () => {
+      try {
+        await TarTreeContainer.create(Buffer.alloc(1024, 'x'));
+        assert.fail('should have thrown an error');
+      } catch (e) {
+        expect(e.message).to.equal(nls.localize('error_invalid_tar_archive', '0'));
+      }
+    });
+
+    describe('exists', () => {
+      it('should return true for files and directories that exist', () => {
+        expect(tree.exists(join(filesRoot, 'test.txt'))).to.be.true;
+        expect(tree.exists(join(filesRoot, 'morefiles'))).to.be.true;
+        expect(tree.exists('main')).to.be.true;
+      });
+
+      it('should return false for paths that do not exist', () => {
+        expect(tree.exists(join(filesRoot, 'test4.txt'))).to.be.false;
+        expect(tree.exists(join('.', 'dne'))).to.be.false;
+      });
+    });
+
+    describe('isDirectory', () => {
+      it('should tell directories from files', () => {
+        expect(tree.isDirectory(filesRoot)).to.be.true;
+        expect(tree.isDirectory(join(filesRoot, 'test.txt'))).to.be.false;
+      });
+
+      it('should throw an error if path does not exist', () => {
+        assert.throws(
+          () => tree.isDirectory('dne'),
+          LibraryError,
+          nls.localize('error_path_not_found', 'dne')
+        );
+      });
+    });
+
+    describe('readDirectory', () => {
+      it('should return correct directory entries', () => {
+        expect(tree.readDirectory(filesRoot)).to.deep.equal([
+          'test.txt',
+          'test2.txt',
+          'morefiles',
+          longName,
+        ]);
+        expect(tree.readDirectory('.')).to.deep.equal(['main']);
+      });
+
+      it('should throw an error if path is not a directory', () => {
+        const path = join(filesRoot, 'test2.txt');
+        assert.throws(
+          () => tree.readDirectory(path),
+          LibraryError,
+          nls.localize('error_expected_directory_path', path)
+        );
+      });
+    });
+
+    describe('readFile', () => {
+      it('should read the contents of files', async () => {
+        expect(
+          (await tree.readFile(join(filesRoot, 'morefiles', 'test3.txt'))).toString()
+        ).to.equal('test text 3');
+        expect(tree.readFileSync(join(filesRoot, longName)).toString()).to.equal('long');
+      });
+
+      it('should throw an error if path is to directory', () => {
+        assert.throws(
+          () => tree.readFileSync(filesRoot),
+          LibraryError,
+          nls.localize('error_expected_file_path', filesRoot)
+        );
+      });
+    });
+
+    describe('stream', () => {
+      it('should return a readable stream of the file', async () => {
+        const chunks: Buffer[] = [];
+        for await (const chunk of tree.stream(join(filesRoot, 'test2.txt'))) {
+          chunks.push(chunk);
+        }
+        expect(Buffer.concat(chunks).toString()).to.equal('test text 2');
+      });
+
+      it('should throw an error if given path is to a directory', () => {
+        assert.throws(
+          () => tree.stream(filesRoot),
+          LibraryError,
+          nls.localize('error_no_directory_stream', tree.constructor.name)
+        );
+      });
+    });
+  });
+
+  describe('GitTreeContainer', () => {
+    let tree: GitTreeContainer;
+    let repoRoot: string;
+    let filesRoot: string;
+
+    const git = (...args: string[]): Buffer => execFileSync('git', args, { cwd: repoRoot });
+
+    before(async () => {
+      repoRoot = fs.realpathSync(fs.mkdtempSync(join(tmpdir(), 'sdr-git-tree-')));
+      filesRoot = join(repoRoot, 'main', 'default');
+      fs.mkdirSync(join(filesRoot, 'morefiles'), { recursive: true });
+      fs.writeFileSync(join(filesRoot, 'test.txt'), 'test text');
+      fs.writeFileSync(join(filesRoot, 'test2.txt'), 'test text 2');
+      fs.writeFileSync(join(filesRoot, 'morefiles', 'test3.txt'), 'test text 3');
+      git('init', '-q');
+      git('add', '-A');
+      git(
+        '-c',
+        'user.name=test',
+        '-c',
+        'user.email=test@example.com',
+        'commit',
+        '-q',
+        '-m',
+        'test'
+      );
+
+      // changes to the working tree are not visible to the container
+      fs.writeFileSync(join(filesRoot, 'test.txt'), 'changed text');
+      fs.writeFileSync(join(filesRoot, 'test4.txt'), 'test text 4');
+
+      tree = await GitTreeContainer.create('HEAD', filesRoot);
+    });
+
+    after(() => fs.rmdirSync(repoRoot, { recursive: true }));
+
+    it('should throw an error if the revision does not exist', async () => {
+      try {
+        await GitTreeContainer.create('dne', repoRoot);
+        assert.fail('should have thrown an error');
+      } catch (e) {
+        expect(e.name).to.equal('GitError');
+      }
+    });
+
+    describe('exists', () => {
+      it('should return true for file that exists', () => {
+        expect(tree.exists(join(filesRoot, 'test.txt'))).to.be.true;
+      });
+
+      it('should return true for directory that exists', () => {
+        expect(tree.exists(join(filesRoot, 'morefiles'))).to.be.true;
+        expect(tree.exists(repoRoot)).to.be.true;
+      });
+
+      it('should return false for file that does not exist at the revision', () => {
+        expect(tree.exists(join(filesRoot, 'test4.txt'))).to.be.false;
+      });
+
+      it('should return false for directory that does not exist', () => {
+        expect(tree.exists(join(repoRoot, 'dne'))).to.be.false;
+      });
+    });
+
+    describe('isDirectory', () => {
+      it('should return false for isDirectory', () => {
+        expect(tree.isDirectory(join(filesRoot, 'test.txt'))).to.be.false;
+      });
+
+      it('should return true for isDirectory', () => {
+        expect(tree.isDirectory(filesRoot)).to.be.true;
+      });
+
+      it('should throw an error if path does not exist', () => {
+        const path = join(repoRoot, 'dne');
+        assert.throws(
+          () => tree.isDirectory(path),
+          LibraryError,
+          nls.localize('error_path_not_found', path)
+        );
+      });
+    });
+
+    describe('readDirectory', () => {
+      it('should return correct directory entries for directory with files and directories', () => {
+        expect(tree.readDirectory(filesRoot)).to.deep.equal(['morefiles', 'test.txt', 'test2.txt']);
+      });
+
+      it('should return correct directory entries for directory with only directories', () => {
+        expect(tree.readDirectory(repoRoot)).to.deep.equal(['main']);
+      });
+
+      it('should throw an error if path is not a directory', () => {
+        const path = join(filesRoot, 'test2.txt');
+        assert.throws(
+          () => tree.readDirectory(path),
+          LibraryError,
+          nls.localize('error_expected_directory_path', path)
+        );
+      });
+    });
+
+    describe('readFile', () => {
+      it('should read contents of the file at the revision', async () => {
+        const contents = await tree.readFile(join(filesRoot, 'test.txt'));
+        expect(contents.toString()).to.equal('test text');
+      });
+
+      it('should throw an error if path is to directory', async () => {
+        try {
+          await tree.readFile(filesRoot);
+          assert.fail('should have thrown an error');
+        } catch (e) {
+          expect(e.message).to.equal(nls.localize('error_expected_file_path', filesRoot));
+        }
+      });
+    });
+
+    describe('readFileSync', () => {
+      it('should read contents of the file at the revision', () => {
+        const contents = tree.readFileSync(join(filesRoot, 'morefiles', 'test3.txt'));
+        expect(contents.toString()).to.equal('test text 3');
+      });
+    });
+
+    describe('stream', () => {
+      it('should stream contents of the file at the revision', async () => {
+        const chunks: Buffer[] = [];
+        for await (const chunk of tree.stream(join(filesRoot, 'test.txt'))) {
+          chunks.push(chunk);
+        }
+        expect(Buffer.concat(chunks).toString()).to.equal('test text');
+      });
+
+      it('should throw an error if given path is to a directory', () => {
+        assert.throws(
+          () => tree.stream(filesRoot),
+          LibraryError,
+          nls.localize('error_no_directory_stream', tree.constructor.name)
+        );
+      });
+    });
+  });
+
   describe('VirtualTreeContainer', () => {
     const virtualFS: VirtualDirectory[] = [
       {
@@ -379,8 +733,53 @@ describe('Tree Containers', () => {
     });
 
     describe('stream', () => {
-      it('should throw a not implemented error', () => {
-        assert.throws(() => tree.stream('file'), 'Method not implemented');
+      it('should return a readable stream of the file', async () => {
+        const chunks: Buffer[] = [];
+        for await (const chunk of tree.stream(join('.', 'logs', 'run.log'))) {
+          chunks.push(chunk);
+        }
+        expect(Buffer.concat(chunks).toString()).to.equal('successful');
+      });
+
+      it('should throw an error if given path is to a directory', () => {
+        assert.throws(
+          () => tree.stream(join('.', 'logs')),
+          LibraryError,
+          nls.localize('error_no_directory_stream', tree.constructor.name)
+        );
+      });
+    });
+
+    describe('writeFile', () => {
+      it('should write a file and create its parent directories', async () => {
+        const writableTree = new VirtualTreeContainer([]);
+        const path = join('.', 'out', 'nested', 'new.txt');
+
+        await writableTree.writeFile(path, 'new contents');
+
+        expect(writableTree.readFileSync(path).toString()).to.equal('new contents');
+        expect(writableTree.readDirectory('.')).to.deep.equal(['out']);
+        expect(writableTree.readDirectory(join('.', 'out'))).to.deep.equal(['nested']);
+      });
+
+      it('should replace the contents of an existing file', async () => {
+        const writableTree = new VirtualTreeContainer(virtualFS);
+        const path = join('.', 'logs', 'run.log');
+
+        await writableTree.writeFile(path, Buffer.from('failed'));
+
+        expect(writableTree.readFileSync(path).toString()).to.equal('failed');
+        expect(writableTree.readDirectory(join('.', 'logs'))).to.deep.equal(['run.log']);
+      });
+
+      it('should throw an error if path is to a directory', async () => {
+        const path = join('.', 'logs');
+        try {
+          await new VirtualTreeContainer(virtualFS).writeFile(path, 'data');
+          assert.fail('should have thrown an error');
+        } catch (e) {
+          expect(e.message).to.equal(nls.localize('error_expected_file_path', path));
+        }
       });
     });
   });